@@ -1,4 +1,9 @@
 import mongoose from 'mongoose';
+import { Invoice } from '../models/Invoice.js';
+import { LocaleNormalizer } from '../services/localeNormalizer.js';
+
+// Invoices updated per bulk write when backfilling parsed dates
+const BACKFILL_BATCH_SIZE = 500;
 
 export const connectDB = async (): Promise<void> => {
   try {
@@ -36,6 +41,67 @@ export const connectDB = async (): Promise<void> => {
   }
 };
 
+/**
+ * Bring the invoice indexes in line with the schema. autoIndex only creates indexes, so the unique
+ * fileId index of databases created before multi-invoice files would keep rejecting a second
+ * invoice from the same PDF.
+ */
+export const syncInvoiceIndexes = async (): Promise<void> => {
+  try {
+    const dropped = await Invoice.syncIndexes();
+    if (dropped.length > 0) {
+      console.log(`🗂️ Dropped outdated invoice indexes: ${dropped.join(', ')}`);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to sync invoice indexes:', error);
+  }
+};
+
+/**
+ * Set the parsed dates of invoices saved before they were stored, so the due date and tax
+ * report filters find them
+ */
+export const backfillInvoiceDates = async (): Promise<void> => {
+  try {
+    let updated = 0;
+    let batch: Parameters<typeof Invoice.bulkWrite>[0] = [];
+    const cursor = Invoice.find({ 'invoice.parsedDates': { $exists: false } })
+      .select('invoice.date invoice.poDate invoice.dueDate')
+      .lean()
+      .cursor();
+
+    for await (const { _id, invoice } of cursor) {
+      batch.push({
+        updateOne: {
+          filter: { _id },
+          update: {
+            $set: {
+              'invoice.parsedDates': {
+                date: LocaleNormalizer.toDate(invoice.date),
+                poDate: LocaleNormalizer.toDate(invoice.poDate),
+                dueDate: LocaleNormalizer.toDate(invoice.dueDate)
+              }
+            }
+          }
+        }
+      });
+      if (batch.length === BACKFILL_BATCH_SIZE) {
+        updated += (await Invoice.bulkWrite(batch)).modifiedCount;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      updated += (await Invoice.bulkWrite(batch)).modifiedCount;
+    }
+
+    if (updated > 0) {
+      console.log(`🗓️ Stored parsed dates of ${updated} older invoice(s)`);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to backfill invoice dates:', error);
+  }
+};
+
 // Handle connection events
 mongoose.connection.on('disconnected', () => {
   console.log('⚠️ MongoDB disconnected');
@@ -0,0 +1,252 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { AIService, type RawExtractedData } from '../services/aiService.js';
+import { ExtractionPipeline, type ExtractedInvoice } from '../services/extractionPipeline.js';
+import { ProviderRegistry } from '../services/providers/registry.js';
+import { GoldenDataset, type GoldenDocument } from './goldenDataset.js';
+import { RecordingProvider, ReplayProvider } from './recordedProviders.js';
+import { EvalScorer, type DocumentScore, type EvalSummary, type FieldMetrics } from './scorer.js';
+
+/**
+ * Runs a golden dataset through an extraction provider and scores the results.
+ *
+ *   npm run eval -w apps/api -- --provider heuristic
+ *   npm run eval -w apps/api -- --provider gemini --record
+ *   npm run eval -w apps/api -- --provider replay --output eval.json
+ *   npm run eval -w apps/api -- --provider replay --baseline eval.json
+ */
+
+interface DocumentReport {
+  name: string;
+  provider?: string; // Provider that actually extracted the document
+  model?: string;
+  fallbackReason?: string;
+  error?: string;
+  mismatches: string[];
+}
+
+// Written by --output and read back by --baseline
+interface EvalReport {
+  dataset: string;
+  provider: string;
+  createdAt: string;
+  summary: EvalSummary;
+  documents: DocumentReport[];
+}
+
+// Score drops smaller than this are noise from rounding
+const REGRESSION_TOLERANCE = 0.005;
+
+const { values: args } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: 'test/golden' },
+    provider: { type: 'string', default: 'heuristic' },
+    record: { type: 'boolean', default: false },
+    output: { type: 'string' },
+    baseline: { type: 'string' },
+    verbose: { type: 'boolean', default: false }
+  }
+});
+
+const formatScore = (value: number | null | undefined) => (value === null || value === undefined ? '-' : value.toFixed(3));
+
+async function extract(document: GoldenDocument, provider: string): Promise<ExtractedInvoice[]> {
+  if (document.kind === 'pdf') {
+    const outcome = await ExtractionPipeline.extractPdf(await fs.readFile(document.file), {
+      fileId: `eval-${document.name}`,
+      provider,
+      refresh: true
+    });
+    return outcome.invoices;
+  }
+
+  // Plain invoice text skips PDF parsing and goes to the provider as one invoice
+  const text = await fs.readFile(document.file, 'utf8');
+  const result = await new AIService().extractDataFromPDF(text, provider);
+  return [{ ...result, pageRange: { start: 1, end: 1 }, provenance: {}, cached: false }];
+}
+
+// Extraction logs every provider call; keep the report readable unless asked for them
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  if (args.verbose) {
+    return run();
+  }
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+  }
+}
+
+function printSummary(summary: EvalSummary): void {
+  const row = (label: string, metrics: FieldMetrics) =>
+    `  ${label.padEnd(22)}${formatScore(metrics.precision).padStart(10)}${formatScore(metrics.recall).padStart(10)}${formatScore(metrics.f1).padStart(10)}`;
+
+  console.log(`\n${'Field'.padEnd(24)}${'Precision'.padStart(10)}${'Recall'.padStart(10)}${'F1'.padStart(10)}`);
+  for (const [field, metrics] of Object.entries(summary.fields)) {
+    console.log(row(field, metrics));
+  }
+  console.log(row('line items', summary.lineItems));
+  console.log(row('overall', summary.overall));
+
+  console.log('\nNumeric error (mean absolute / mean relative):');
+  for (const [field, error] of Object.entries(summary.numeric)) {
+    console.log(`  ${field.padEnd(22)}${formatScore(error.meanAbsoluteError).padStart(12)}${formatScore(error.meanRelativeError).padStart(10)}`);
+  }
+
+  const { quantityAccuracy, unitPriceAccuracy, totalAccuracy } = summary.lineItems;
+  console.log(`\nMatched line items: quantity ${formatScore(quantityAccuracy)}, unit price ${formatScore(unitPriceAccuracy)}, total ${formatScore(totalAccuracy)}`);
+}
+
+/**
+ * Print every score that moved since the baseline. Returns the number of regressions:
+ * scores that dropped, or numeric errors that grew.
+ */
+function compareWithBaseline(summary: EvalSummary, baseline: EvalSummary): number {
+  const scores = (s: EvalSummary): Record<string, number | null> => ({
+    'overall f1': s.overall.f1,
+    'overall precision': s.overall.precision,
+    'overall recall': s.overall.recall,
+    ...Object.fromEntries(Object.entries(s.fields).map(([field, metrics]) => [`${field} f1`, metrics.f1])),
+    'line items f1': s.lineItems.f1,
+    'line item quantity': s.lineItems.quantityAccuracy,
+    'line item unit price': s.lineItems.unitPriceAccuracy,
+    'line item total': s.lineItems.totalAccuracy
+  });
+  const errors = (s: EvalSummary): Record<string, number | null> =>
+    Object.fromEntries(Object.entries(s.numeric).map(([field, error]) => [`${field} MAE`, error.meanAbsoluteError]));
+
+  let regressions = 0;
+  const compare = (current: Record<string, number | null>, previous: Record<string, number | null>, higherIsBetter: boolean) => {
+    for (const [metric, value] of Object.entries(current)) {
+      const before = previous[metric];
+      if (value === null || before === null || before === undefined || Math.abs(value - before) <= REGRESSION_TOLERANCE) {
+        continue;
+      }
+      const worse = higherIsBetter ? value < before : value > before;
+      if (worse) {
+        regressions++;
+      }
+      console.log(`  ${worse ? '❌' : '✅'} ${metric.padEnd(30)}${formatScore(before).padStart(10)} → ${formatScore(value)}`);
+    }
+  };
+
+  console.log('\nChanges since baseline:');
+  compare(scores(summary), scores(baseline), true);
+  compare(errors(summary), errors(baseline), false);
+  if (regressions === 0) {
+    console.log('  No regressions');
+  }
+  return regressions;
+}
+
+async function main(): Promise<number> {
+  dotenv.config();
+
+  const dataset = path.resolve(args.dataset);
+  const documents = await GoldenDataset.load(dataset);
+  if (documents.length === 0) {
+    console.error(`❌ No documents with expected results found in ${dataset}`);
+    return 1;
+  }
+
+  // Recorded responses stand in for a provider, offline
+  const replay = new ReplayProvider();
+  ProviderRegistry.register('replay', () => replay);
+
+  // Capture the provider's responses so they can be replayed later
+  let recorder: RecordingProvider | undefined;
+  if (args.record) {
+    if (args.provider === 'replay') {
+      console.error('❌ --record needs a real provider');
+      return 1;
+    }
+    recorder = new RecordingProvider(ProviderRegistry.get(args.provider));
+    const wrapped = recorder;
+    ProviderRegistry.register(args.provider, () => wrapped);
+  }
+
+  console.log(`🧪 Evaluating ${documents.length} document(s) from ${dataset} with ${args.provider}`);
+  const synthetic = documents.filter(document => document.recording?.synthetic).map(document => document.name);
+  if (args.provider === 'replay' && synthetic.length > 0) {
+    console.warn(`⚠️ Hand-written recordings, not provider output: ${synthetic.join(', ')}. Their scores test the scoring and normalization, not extraction quality.`);
+  }
+
+  const scores: DocumentScore[] = [];
+  const reports: DocumentReport[] = [];
+  for (const document of documents) {
+    if (args.provider === 'replay') {
+      if (!document.recording) {
+        console.warn(`⚠️ ${document.name}: no recording, skipped`);
+        continue;
+      }
+      replay.load(document.recording.responses);
+    }
+
+    const report: DocumentReport = { name: document.name, mismatches: [] };
+    let extracted: RawExtractedData[] = [];
+    try {
+      const invoices = await quietly(() => extract(document, args.provider));
+      extracted = invoices.map(invoice => invoice.data);
+      report.provider = invoices[0]?.provider;
+      report.model = invoices[0]?.model;
+      report.fallbackReason = invoices.find(invoice => invoice.fallbackReason)?.fallbackReason;
+
+      const responses = recorder?.take() ?? [];
+      if (recorder && responses.length > 0 && !report.fallbackReason) {
+        await GoldenDataset.saveRecording(document, { provider: recorder.name, model: recorder.model, responses });
+      }
+    } catch (error) {
+      // A failed document still counts: every expected field is missed
+      report.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const score = EvalScorer.scoreDocument(document.expected, extracted);
+    report.mismatches = score.mismatches;
+    scores.push(score);
+    reports.push(report);
+
+    const documentSummary = EvalScorer.summarize([score]);
+    const status = report.error
+      ? `❌ ${report.error}`
+      : `fields F1 ${formatScore(documentSummary.overall.f1)}, line items F1 ${formatScore(documentSummary.lineItems.f1)} (${report.provider}${report.fallbackReason ? `, fallback: ${report.fallbackReason}` : ''})`;
+    console.log(`  ${document.name}: ${status}`);
+    if (args.verbose) {
+      score.mismatches.forEach(mismatch => console.log(`      ${mismatch}`));
+    }
+  }
+
+  if (scores.length === 0) {
+    console.error('❌ No documents were evaluated');
+    return 1;
+  }
+
+  const summary = EvalScorer.summarize(scores);
+  printSummary(summary);
+
+  if (args.output) {
+    const report: EvalReport = { dataset, provider: args.provider, createdAt: new Date().toISOString(), summary, documents: reports };
+    await fs.writeFile(args.output, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\n💾 Report saved to ${args.output}`);
+  }
+
+  if (args.baseline) {
+    const baseline = JSON.parse(await fs.readFile(args.baseline, 'utf8')) as EvalReport;
+    if (compareWithBaseline(summary, baseline.summary) > 0) {
+      return 1;
+    }
+  }
+
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ Evaluation failed:', error);
+    process.exit(1);
+  });
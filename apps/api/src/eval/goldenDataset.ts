@@ -0,0 +1,74 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { RawExtractedData } from '../services/aiService.js';
+
+// Provider responses saved by `--record`, replayed by the "replay" provider
+export interface Recording {
+  provider: string;
+  model: string;
+  synthetic?: boolean; // Written by hand as a fixture rather than captured from a provider
+  responses: string[]; // One per invoice found in the document, in page order
+}
+
+export interface GoldenDocument {
+  name: string;
+  file: string;
+  kind: 'pdf' | 'text';
+  expected: RawExtractedData[]; // One per invoice in the document
+  recording?: Recording;
+}
+
+const EXPECTED_SUFFIX = '.expected.json';
+const RECORDING_SUFFIX = '.recording.json';
+
+/**
+ * A folder of invoices with the values a reviewer would save for them. Each PDF (or .txt
+ * file of invoice text) has a <name>.expected.json sidecar holding the expected extraction,
+ * or an array of them when the file holds several invoices.
+ */
+export class GoldenDataset {
+  static async load(dir: string): Promise<GoldenDocument[]> {
+    const files = (await fs.readdir(dir)).sort();
+    const documents: GoldenDocument[] = [];
+
+    for (const file of files) {
+      const extension = path.extname(file).toLowerCase();
+      if (extension !== '.pdf' && extension !== '.txt') {
+        continue;
+      }
+
+      const name = path.basename(file, path.extname(file));
+      const expected = await this.readJson<RawExtractedData | RawExtractedData[]>(path.join(dir, name + EXPECTED_SUFFIX));
+      if (!expected) {
+        console.warn(`⚠️ Skipping ${file}: no ${name}${EXPECTED_SUFFIX}`);
+        continue;
+      }
+
+      documents.push({
+        name,
+        file: path.join(dir, file),
+        kind: extension === '.pdf' ? 'pdf' : 'text',
+        expected: Array.isArray(expected) ? expected : [expected],
+        recording: await this.readJson<Recording>(path.join(dir, name + RECORDING_SUFFIX))
+      });
+    }
+
+    return documents;
+  }
+
+  static async saveRecording(document: GoldenDocument, recording: Recording): Promise<void> {
+    const file = path.join(path.dirname(document.file), document.name + RECORDING_SUFFIX);
+    await fs.writeFile(file, JSON.stringify(recording, null, 2) + '\n');
+  }
+
+  private static async readJson<T>(file: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw new Error(`Failed to read ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import type { ExtractionProvider, ProviderRequest, ProviderResponse } from '../services/providers/types.js';
+
+/**
+ * Answers with responses recorded earlier, in order, so a prompt or scoring change can be
+ * evaluated without network access or provider costs.
+ */
+export class ReplayProvider implements ExtractionProvider {
+  readonly name = 'replay';
+  readonly model = 'recorded';
+  readonly source = 'model';
+  private responses: string[] = [];
+
+  // Queue the responses for the next document
+  load(responses: string[]): void {
+    this.responses = [...responses];
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async extract(): Promise<ProviderResponse> {
+    const text = this.responses.shift();
+    if (text === undefined) {
+      throw new Error('No recorded response left for this document; record it with --record first');
+    }
+    return { text };
+  }
+}
+
+/**
+ * Passes requests through to another provider and keeps its raw responses for saving
+ */
+export class RecordingProvider implements ExtractionProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly source: 'model' | 'heuristic';
+  private responses: string[] = [];
+
+  constructor(private provider: ExtractionProvider) {
+    this.name = provider.name;
+    this.model = provider.model;
+    this.source = provider.source;
+  }
+
+  // Responses since the last call
+  take(): string[] {
+    const responses = this.responses;
+    this.responses = [];
+    return responses;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  async extract(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await this.provider.extract(request);
+    this.responses.push(response.text);
+    return response;
+  }
+}
@@ -0,0 +1,291 @@
+import type { RawExtractedData } from '../services/aiService.js';
+
+type FieldKind = 'text' | 'id' | 'date' | 'number';
+
+// Fields scored on every invoice, with how their values are compared
+const FIELDS: Record<string, FieldKind> = {
+  'vendor.name': 'text',
+  'vendor.address': 'text',
+  'vendor.taxId': 'id',
+  'buyer.name': 'text',
+  'buyer.taxId': 'id',
+  'shipTo.name': 'text',
+  'invoice.number': 'id',
+  'invoice.date': 'date',
+  'invoice.currency': 'id',
+  'invoice.subtotal': 'number',
+  'invoice.taxPercent': 'number',
+  'invoice.total': 'number',
+  'invoice.amountInWords': 'text',
+  'invoice.poNumber': 'id',
+  'invoice.poDate': 'date',
+  'invoice.paymentTerms': 'text',
+  'invoice.dueDate': 'date'
+};
+
+// Share of words two texts must have in common to count as the same value
+const TEXT_SIMILARITY = 0.8;
+// Line items are paired when their descriptions share at least this many words
+const LINE_ITEM_SIMILARITY = 0.5;
+// Amounts are compared to the cent
+const AMOUNT_TOLERANCE = 0.01;
+
+export interface FieldCounts {
+  truePositives: number;  // Extracted and correct
+  falsePositives: number; // Extracted but wrong, or extracted where nothing was expected
+  falseNegatives: number; // Expected but missing or wrong
+}
+
+export interface NumericError {
+  count: number;
+  absoluteError: number; // Sum, for averaging across documents
+  relativeError: number; // Sum of |error| / |expected|
+}
+
+export interface LineItemCounts {
+  expected: number;
+  extracted: number;
+  matched: number;
+  quantityCorrect: number;
+  unitPriceCorrect: number;
+  totalCorrect: number;
+}
+
+export interface DocumentScore {
+  fields: Record<string, FieldCounts>;
+  numeric: Record<string, NumericError>;
+  lineItems: LineItemCounts;
+  mismatches: string[]; // Human-readable differences, for --verbose
+}
+
+export interface FieldMetrics {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface EvalSummary {
+  documents: number;
+  overall: FieldMetrics;
+  fields: Record<string, FieldMetrics>;
+  numeric: Record<string, { meanAbsoluteError: number | null; meanRelativeError: number | null }>;
+  lineItems: FieldMetrics & { quantityAccuracy: number | null; unitPriceAccuracy: number | null; totalAccuracy: number | null };
+}
+
+const emptyCounts = (): FieldCounts => ({ truePositives: 0, falsePositives: 0, falseNegatives: 0 });
+const emptyLineItems = (): LineItemCounts => ({ expected: 0, extracted: 0, matched: 0, quantityCorrect: 0, unitPriceCorrect: 0, totalCorrect: 0 });
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+// Undefined only when nothing was expected or extracted; a missing side otherwise scores 0
+const f1 = (precision: number | null, recall: number | null) => {
+  if (precision === null && recall === null) {
+    return null;
+  }
+  const p = precision ?? 0;
+  const r = recall ?? 0;
+  return p + r > 0 ? 2 * p * r / (p + r) : 0;
+};
+
+const words = (text: string) => new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+// Jaccard similarity of the words in two texts
+const similarity = (a: string, b: string) => {
+  const left = words(a);
+  const right = words(b);
+  const union = new Set([...left, ...right]).size;
+  return union === 0 ? 1 : [...left].filter(word => right.has(word)).length / union;
+};
+
+const sameAmount = (a: unknown, b: unknown) =>
+  typeof a === 'number' && typeof b === 'number' && Math.abs(a - b) < AMOUNT_TOLERANCE;
+
+/**
+ * Scores extracted invoices against the expected ones: field-level precision and recall,
+ * error on numeric fields, and how many line items were found with the right values.
+ */
+export class EvalScorer {
+  /**
+   * Score one document. Invoices are paired in page order; expected invoices without an
+   * extraction count as missed fields, and extra extractions as wrong ones.
+   */
+  static scoreDocument(expected: RawExtractedData[], extracted: RawExtractedData[]): DocumentScore {
+    const score: DocumentScore = {
+      fields: Object.fromEntries(Object.keys(FIELDS).map(path => [path, emptyCounts()])),
+      numeric: {},
+      lineItems: emptyLineItems(),
+      mismatches: []
+    };
+
+    for (let index = 0; index < Math.max(expected.length, extracted.length); index++) {
+      this.scoreInvoice(score, expected[index], extracted[index], expected.length > 1 ? `#${index + 1} ` : '');
+    }
+
+    return score;
+  }
+
+  /**
+   * Micro-averaged metrics over every scored document
+   */
+  static summarize(scores: DocumentScore[]): EvalSummary {
+    const fields: Record<string, FieldCounts> = {};
+    const numeric: Record<string, NumericError> = {};
+    const lineItems = emptyLineItems();
+
+    for (const score of scores) {
+      for (const [path, counts] of Object.entries(score.fields)) {
+        const total = fields[path] ??= emptyCounts();
+        total.truePositives += counts.truePositives;
+        total.falsePositives += counts.falsePositives;
+        total.falseNegatives += counts.falseNegatives;
+      }
+      for (const [path, error] of Object.entries(score.numeric)) {
+        const total = numeric[path] ??= { count: 0, absoluteError: 0, relativeError: 0 };
+        total.count += error.count;
+        total.absoluteError += error.absoluteError;
+        total.relativeError += error.relativeError;
+      }
+      for (const key of Object.keys(lineItems) as (keyof LineItemCounts)[]) {
+        lineItems[key] += score.lineItems[key];
+      }
+    }
+
+    const overall = Object.values(fields).reduce((total, counts) => ({
+      truePositives: total.truePositives + counts.truePositives,
+      falsePositives: total.falsePositives + counts.falsePositives,
+      falseNegatives: total.falseNegatives + counts.falseNegatives
+    }), emptyCounts());
+
+    const itemPrecision = ratio(lineItems.matched, lineItems.extracted);
+    const itemRecall = ratio(lineItems.matched, lineItems.expected);
+
+    return {
+      documents: scores.length,
+      overall: this.metrics(overall),
+      fields: Object.fromEntries(Object.entries(fields).map(([path, counts]) => [path, this.metrics(counts)])),
+      numeric: Object.fromEntries(Object.entries(numeric).map(([path, error]) => [path, {
+        meanAbsoluteError: ratio(error.absoluteError, error.count),
+        meanRelativeError: ratio(error.relativeError, error.count)
+      }])),
+      lineItems: {
+        precision: itemPrecision,
+        recall: itemRecall,
+        f1: f1(itemPrecision, itemRecall),
+        quantityAccuracy: ratio(lineItems.quantityCorrect, lineItems.matched),
+        unitPriceAccuracy: ratio(lineItems.unitPriceCorrect, lineItems.matched),
+        totalAccuracy: ratio(lineItems.totalCorrect, lineItems.matched)
+      }
+    };
+  }
+
+  private static scoreInvoice(score: DocumentScore, expected?: RawExtractedData, extracted?: RawExtractedData, label = ''): void {
+    for (const [path, kind] of Object.entries(FIELDS)) {
+      const want = this.valueAt(expected, path);
+      const got = this.valueAt(extracted, path);
+      const counts = score.fields[path];
+
+      if (want === undefined && got === undefined) {
+        continue;
+      }
+      if (want !== undefined && got !== undefined && this.matches(kind, want, got)) {
+        counts.truePositives++;
+      } else {
+        if (got !== undefined) {
+          counts.falsePositives++;
+        }
+        if (want !== undefined) {
+          counts.falseNegatives++;
+        }
+        score.mismatches.push(`${label}${path}: expected ${JSON.stringify(want)}, got ${JSON.stringify(got)}`);
+      }
+
+      if (kind === 'number' && typeof want === 'number' && typeof got === 'number') {
+        const error = score.numeric[path] ??= { count: 0, absoluteError: 0, relativeError: 0 };
+        error.count++;
+        error.absoluteError += Math.abs(got - want);
+        error.relativeError += want === 0 ? (got === 0 ? 0 : 1) : Math.abs(got - want) / Math.abs(want);
+      }
+    }
+
+    this.scoreLineItems(score, expected?.invoice.lineItems ?? [], extracted?.invoice.lineItems ?? [], label);
+  }
+
+  /**
+   * Pair each expected line item with the unused extracted item whose description is most
+   * alike, then check the paired values
+   */
+  private static scoreLineItems(
+    score: DocumentScore,
+    expected: RawExtractedData['invoice']['lineItems'],
+    extracted: RawExtractedData['invoice']['lineItems'],
+    label: string
+  ): void {
+    const counts = score.lineItems;
+    counts.expected += expected.length;
+    counts.extracted += extracted.length;
+
+    const unused = new Set(extracted.keys());
+    for (const [index, item] of expected.entries()) {
+      let best: number | undefined;
+      let bestSimilarity = LINE_ITEM_SIMILARITY;
+      for (const candidate of unused) {
+        const candidateSimilarity = similarity(item.description, extracted[candidate].description);
+        if (candidateSimilarity >= bestSimilarity) {
+          best = candidate;
+          bestSimilarity = candidateSimilarity;
+        }
+      }
+
+      if (best === undefined) {
+        score.mismatches.push(`${label}lineItems[${index}]: no extracted item matches "${item.description}"`);
+        continue;
+      }
+
+      unused.delete(best);
+      const match = extracted[best];
+      counts.matched++;
+      for (const key of ['quantity', 'unitPrice', 'total'] as const) {
+        if (sameAmount(item[key], match[key])) {
+          counts[`${key}Correct`]++;
+        } else {
+          score.mismatches.push(`${label}lineItems[${index}].${key}: expected ${item[key]}, got ${match[key]}`);
+        }
+      }
+    }
+
+    for (const index of unused) {
+      score.mismatches.push(`${label}lineItems: unexpected item "${extracted[index].description}"`);
+    }
+  }
+
+  private static metrics(counts: FieldCounts): FieldMetrics {
+    const precision = ratio(counts.truePositives, counts.truePositives + counts.falsePositives);
+    const recall = ratio(counts.truePositives, counts.truePositives + counts.falseNegatives);
+    return { precision, recall, f1: f1(precision, recall) };
+  }
+
+  // Empty strings and nulls count as not extracted
+  private static valueAt(data: RawExtractedData | undefined, path: string): string | number | undefined {
+    const [section, key] = path.split('.') as ['vendor' | 'buyer' | 'shipTo' | 'invoice', string];
+    const value = (data?.[section] as Record<string, unknown> | undefined)?.[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+    return undefined;
+  }
+
+  private static matches(kind: FieldKind, want: string | number, got: string | number): boolean {
+    switch (kind) {
+      case 'number':
+        return sameAmount(want, typeof got === 'string' ? Number(got.replace(/,/g, '')) : got);
+      case 'text':
+        return similarity(String(want), String(got)) >= TEXT_SIMILARITY;
+      case 'id':
+        return String(want).toUpperCase().replace(/\s+/g, '') === String(got).toUpperCase().replace(/\s+/g, '');
+      case 'date':
+        return String(want) === String(got);
+    }
+  }
+}
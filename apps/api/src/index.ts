@@ -2,10 +2,14 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
-import { connectDB } from './config/database.js';
+import { connectDB, syncInvoiceIndexes, backfillInvoiceDates } from './config/database.js';
 import uploadRoutes from './routes/upload.js';
 import extractRoutes from './routes/extract.js';
 import invoiceRoutes from './routes/invoices.js';
+import fileRoutes from './routes/files.js';
+import { ExtractionJobQueue } from './services/extractionJobQueue.js';
+import { UploadSweeper } from './services/uploadSweeper.js';
+import { StorageRegistry } from './services/storage/registry.js';
 
 dotenv.config();
 
@@ -33,11 +37,20 @@ app.get('/', (req, res) => {
     message: 'PDF Dashboard API is running!',
     endpoints: [
       'POST /api/upload - Upload PDF files',
+      'POST /api/upload/batch - Upload many PDFs or ZIP archives and queue them for extraction',
+      'GET /api/upload/batch/:batchId - Get extraction status of each file in a batch',
+      'POST /api/upload/sweep - Delete unclaimed uploads (dryRun reports them instead)',
       'POST /api/extract - Extract data from PDF',
+      'POST /api/extract/stream - Extract data from PDF with live progress (server-sent events)',
+      'POST /api/extract/jobs - Queue an extraction in the background',
+      'GET /api/extract/jobs/:id - Get extraction job status and result',
+      'GET /api/extract/providers - List extraction providers',
+      'DELETE /api/extract/cache - Clear cached extraction results',
       'GET /api/invoices - List all invoices',
       'POST /api/invoices - Create new invoice',
       'PUT /api/invoices/:id - Update invoice',
-      'DELETE /api/invoices/:id - Delete invoice',
+      'DELETE /api/invoices/:id - Delete invoice (and its PDF once no other invoice uses it)',
+      'GET /api/files/:key - Download an upload kept on local disk (signed link)',
       'GET /api/health - Health check'
     ],
     timestamp: new Date().toISOString()
@@ -62,6 +75,8 @@ app.use('/api/extract', extractRoutes);
 console.log('✅ Extract route mounted');
 app.use('/api/invoices', invoiceRoutes);
 console.log('✅ Invoices route mounted');
+app.use('/api/files', fileRoutes);
+console.log('✅ Files route mounted');
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -80,9 +95,18 @@ app.use('*', (req, res) => {
 // Start server
 const startServer = async () => {
   try {
+    // A misconfigured storage driver stops the API here rather than on the first upload
+    StorageRegistry.get();
+
     // Try to connect to MongoDB, but don't fail if it's not available
     try {
       await connectDB();
+      await syncInvoiceIndexes();
+      await backfillInvoiceDates();
+      // Background extraction jobs are stored in MongoDB
+      ExtractionJobQueue.start();
+      // Uploads are recorded in MongoDB too
+      UploadSweeper.start();
     } catch (dbError) {
       console.warn('⚠️ MongoDB connection failed, continuing without database...');
       console.warn('💡 Some features may not work without a database connection');
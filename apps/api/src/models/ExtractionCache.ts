@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IExtractionCache extends Document {
+  key: string;           // SHA-256 of pdfHash, pages, provider, model and prompt version
+  pdfHash: string;       // SHA-256 of the PDF bytes
+  pages: string;         // Page range the result covers, e.g. "1-3"
+  provider: string;
+  providerModel: string;
+  promptVersion: string;
+  fileId?: string;       // Upload the result was last produced for, to invalidate by file
+  result: Record<string, unknown>;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+const ExtractionCacheSchema = new Schema<IExtractionCache>({
+  key: { type: String, required: true, unique: true },
+  pdfHash: { type: String, required: true, index: true },
+  pages: { type: String, required: true },
+  provider: { type: String, required: true },
+  providerModel: { type: String, required: true },
+  promptVersion: { type: String, required: true },
+  fileId: { type: String, index: true },
+  result: { type: Schema.Types.Mixed, required: true },
+  createdAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true }
+});
+
+// MongoDB removes entries once expiresAt has passed
+ExtractionCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ExtractionCache = mongoose.model<IExtractionCache>('ExtractionCache', ExtractionCacheSchema);
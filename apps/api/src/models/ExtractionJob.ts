@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobRequest {
+  fileId: string;
+  fileUrl?: string;
+  provider?: string;
+  refresh?: boolean;
+}
+
+export interface JobError {
+  name: string;
+  message: string;
+}
+
+export interface IExtractionJob extends Document {
+  status: JobStatus;
+  request: JobRequest;
+  batchId?: string;    // Set for jobs created by a batch upload
+  fileName?: string;   // Original file name, for batch status reports
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;      // Not picked up before this time (retry backoff)
+  lockedAt?: Date;     // When a worker claimed the job
+  result?: Record<string, unknown>;
+  error?: JobError;    // Last error, kept while retrying
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+const JobRequestSchema = new Schema<JobRequest>({
+  fileId: { type: String, required: true },
+  fileUrl: { type: String },
+  provider: { type: String },
+  refresh: { type: Boolean }
+}, { _id: false });
+
+const JobErrorSchema = new Schema<JobError>({
+  name: { type: String, required: true },
+  message: { type: String, required: true }
+}, { _id: false });
+
+const ExtractionJobSchema = new Schema<IExtractionJob>({
+  status: { type: String, required: true, enum: ['queued', 'running', 'succeeded', 'failed'], default: 'queued' },
+  request: { type: JobRequestSchema, required: true },
+  batchId: { type: String, index: true },
+  fileName: { type: String },
+  attempts: { type: Number, required: true, default: 0 },
+  maxAttempts: { type: Number, required: true, default: 3 },
+  runAfter: { type: Date, required: true, default: Date.now },
+  lockedAt: { type: Date },
+  result: { type: Schema.Types.Mixed },
+  error: { type: JobErrorSchema },
+  createdAt: { type: Date, default: Date.now },
+  startedAt: { type: Date },
+  finishedAt: { type: Date }
+});
+
+// Claiming the next job scans queued jobs by due time
+ExtractionJobSchema.index({ status: 1, runAfter: 1, createdAt: 1 });
+// Finished jobs are removed after 7 days
+ExtractionJobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const ExtractionJob = mongoose.model<IExtractionJob>('ExtractionJob', ExtractionJobSchema);
@@ -1,10 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { TAX_TYPES, type TaxComponent } from 'invoice-rules';
+import type { Remittance } from '../services/bankDetails.js';
+import { DEFAULT_CURRENCY } from '../services/currency.js';
 
 export interface LineItem {
   description: string;
+  itemCode?: string;        // HSN/SAC code, or the vendor's item code when there is none
+  unit?: string;            // Unit of measure, e.g. "hrs", "kg", "pcs"
   unitPrice: number;
-  quantity: number;
-  total: number;
+  quantity: number;         // May be fractional (hours, weights)
+  discountPercent?: number;
+  discountAmount?: number;  // Deducted from quantity × unit price; wins over discountPercent
+  taxRate?: number;         // Percent, when the line shows its own tax
+  taxAmount?: number;
+  total: number;            // As printed: after discount, usually before tax
 }
 
 export interface Vendor {
@@ -13,23 +22,48 @@ export interface Vendor {
   taxId?: string;
 }
 
+// The buyer (billed) or ship-to party; same fields as the vendor
+export type Party = Vendor;
+
+// The date strings of an invoice as Date values (midnight UTC), for date-range queries
+export interface InvoiceDates {
+  date?: Date;
+  poDate?: Date;
+  dueDate?: Date;
+}
+
 export interface InvoiceData {
   number: string;
   date: string;
-  currency?: string;
+  currency?: string;   // ISO 4217 code
   subtotal?: number;
-  taxPercent?: number;
+  taxPercent?: number; // Combined rate; invoices saved before taxes were itemised only have this
+  taxes?: TaxComponent[];
+  reverseCharge?: boolean;
   total?: number;
+  amountInWords?: string; // As printed, e.g. "Rupees Twelve Thousand Only"; checked against the total
   poNumber?: string;
   poDate?: string;
+  paymentTerms?: string; // As printed, e.g. "Net 30 days"
+  dueDate?: string;      // YYYY-MM-DD; computed from the terms when the invoice does not state it
+  remittance?: Remittance;
+  parsedDates?: InvoiceDates; // Set from the YYYY-MM-DD strings whenever the invoice is saved; date filters query these
   lineItems: LineItem[];
 }
 
+export interface PageRange {
+  start: number; // 1-based, inclusive
+  end: number;
+}
+
 export interface IInvoice extends Document {
   fileId: string;
   fileName: string;
-  fileUrl?: string; // For production (Vercel Blob URL)
+  fileUrl?: string; // Link saved by invoices created before links were signed on read
+  pageRange?: PageRange; // Pages of the source file holding this invoice, when it holds several
   vendor: Vendor;
+  buyer?: Party;  // Bill-to: which of our entities the invoice is addressed to
+  shipTo?: Party; // Only when goods are delivered somewhere other than the buyer
   invoice: InvoiceData;
   createdAt: Date;
   updatedAt?: Date;
@@ -37,11 +71,40 @@ export interface IInvoice extends Document {
 
 const LineItemSchema = new Schema<LineItem>({
   description: { type: String, required: true },
+  itemCode: { type: String },
+  unit: { type: String },
   unitPrice: { type: Number, required: true },
   quantity: { type: Number, required: true },
+  discountPercent: { type: Number },
+  discountAmount: { type: Number },
+  taxRate: { type: Number },
+  taxAmount: { type: Number },
   total: { type: Number, required: true }
 }, { _id: false });
 
+const TaxComponentSchema = new Schema<TaxComponent>({
+  type: { type: String, enum: TAX_TYPES, required: true },
+  rate: { type: Number },
+  taxableAmount: { type: Number },
+  amount: { type: Number }
+}, { _id: false });
+
+const RemittanceSchema = new Schema<Remittance>({
+  bankName: { type: String },
+  accountName: { type: String },
+  accountNumber: { type: String },
+  iban: { type: String },
+  ifsc: { type: String },
+  swift: { type: String },
+  upiId: { type: String }
+}, { _id: false });
+
+const InvoiceDatesSchema = new Schema<InvoiceDates>({
+  date: { type: Date },
+  poDate: { type: Date },
+  dueDate: { type: Date }
+}, { _id: false });
+
 const VendorSchema = new Schema<Vendor>({
   name: { type: String, required: true },
   address: { type: String },
@@ -51,20 +114,35 @@ const VendorSchema = new Schema<Vendor>({
 const InvoiceDataSchema = new Schema<InvoiceData>({
   number: { type: String, required: true },
   date: { type: String, required: true },
-  currency: { type: String, default: 'USD' },
+  currency: { type: String, default: DEFAULT_CURRENCY },
   subtotal: { type: Number },
   taxPercent: { type: Number },
+  taxes: { type: [TaxComponentSchema], default: undefined },
+  reverseCharge: { type: Boolean },
   total: { type: Number },
+  amountInWords: { type: String },
   poNumber: { type: String },
   poDate: { type: String },
+  paymentTerms: { type: String },
+  dueDate: { type: String },
+  remittance: { type: RemittanceSchema },
+  parsedDates: { type: InvoiceDatesSchema },
   lineItems: [LineItemSchema]
 }, { _id: false });
 
+const PageRangeSchema = new Schema<PageRange>({
+  start: { type: Number, required: true, min: 1 },
+  end: { type: Number, required: true, min: 1 }
+}, { _id: false });
+
 const InvoiceSchema = new Schema<IInvoice>({
-  fileId: { type: String, required: true, unique: true },
+  fileId: { type: String, required: true },
   fileName: { type: String, required: true },
-  fileUrl: { type: String }, // For production (Vercel Blob URL)
+  fileUrl: { type: String }, // No longer written, kept so older invoices still return their link
+  pageRange: { type: PageRangeSchema },
   vendor: { type: VendorSchema, required: true },
+  buyer: { type: VendorSchema },  // Parties share the vendor's fields
+  shipTo: { type: VendorSchema },
   invoice: { type: InvoiceDataSchema, required: true },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date }
@@ -79,5 +157,12 @@ InvoiceSchema.pre('save', function(next) {
 // Create indexes for better query performance
 InvoiceSchema.index({ 'vendor.name': 'text', 'invoice.number': 'text' });
 InvoiceSchema.index({ createdAt: -1 });
+// Invoices are listed per buyer entity
+InvoiceSchema.index({ 'buyer.name': 1 });
+// Payables are scheduled by due date, and tax reports cover a range of invoice dates
+InvoiceSchema.index({ 'invoice.parsedDates.dueDate': 1 });
+InvoiceSchema.index({ 'invoice.parsedDates.date': 1 });
+// One invoice per file and starting page; invoices saved without a page range cover the whole file
+InvoiceSchema.index({ fileId: 1, 'pageRange.start': 1 }, { unique: true });
 
 export const Invoice = mongoose.model<IInvoice>('Invoice', InvoiceSchema);
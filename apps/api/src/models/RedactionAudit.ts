@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One redacted value. The value itself is never stored.
+export interface RedactionEntry {
+  rule: string;         // e.g. "email", "iban" or a configured pattern's name
+  placeholder: string;  // What the provider saw instead, e.g. "[EMAIL_1]"
+  occurrences: number;
+  restoredTo: string[]; // Field paths of the response the value was put back into
+}
+
+export interface RedactionAuditEntry {
+  fileId?: string;
+  pdfHash?: string;    // SHA-256 of the PDF bytes
+  pages?: string;      // Page range of the PDF the text came from, e.g. "1-3"
+  provider: string;
+  providerModel: string;
+  timestamp: Date;
+  rules: string[];     // Rules that were applied
+  redactions: RedactionEntry[];
+}
+
+export interface IRedactionAudit extends RedactionAuditEntry, Document {}
+
+const RedactionEntrySchema = new Schema<RedactionEntry>({
+  rule: { type: String, required: true },
+  placeholder: { type: String, required: true },
+  occurrences: { type: Number, required: true },
+  restoredTo: { type: [String], default: [] }
+}, { _id: false });
+
+const RedactionAuditSchema = new Schema<IRedactionAudit>({
+  fileId: { type: String, index: true },
+  pdfHash: { type: String },
+  pages: { type: String },
+  provider: { type: String, required: true },
+  providerModel: { type: String, required: true },
+  timestamp: { type: Date, required: true, default: Date.now },
+  rules: { type: [String], default: [] },
+  redactions: { type: [RedactionEntrySchema], default: [] }
+});
+
+RedactionAuditSchema.index({ timestamp: -1 });
+
+export const RedactionAudit = mongoose.model<IRedactionAudit>('RedactionAudit', RedactionAuditSchema);
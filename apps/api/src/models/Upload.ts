@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One stored PDF. An upload is in use while an invoice or an unfinished extraction job refers to its fileId.
+export interface UploadRecord {
+  fileId: string;
+  fileName: string; // Original file name
+  key: string;      // Storage key, e.g. "<fileId>.pdf"
+  driver: string;   // Storage driver it was written with
+  size: number;     // Bytes
+  claimed?: boolean; // Set when an invoice is saved from it; cleared when its last invoice is deleted
+  deletingAt?: Date; // Locked for deletion: invoices saved meanwhile cannot claim it
+  createdAt: Date;
+}
+
+export interface IUpload extends UploadRecord, Document {}
+
+const UploadSchema = new Schema<IUpload>({
+  fileId: { type: String, required: true, unique: true },
+  fileName: { type: String, required: true },
+  key: { type: String, required: true },
+  driver: { type: String, required: true },
+  size: { type: Number, required: true },
+  claimed: { type: Boolean, default: false },
+  deletingAt: { type: Date },
+  createdAt: { type: Date, required: true, default: Date.now }
+});
+
+// The sweeper scans uploads oldest first
+UploadSchema.index({ createdAt: 1 });
+
+export const Upload = mongoose.model<IUpload>('Upload', UploadSchema);
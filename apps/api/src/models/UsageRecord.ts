@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type UsageOutcome = 'pending' | 'success' | 'quota_exceeded' | 'error' | 'rejected';
+
+export interface UsageEntry {
+  provider: string;
+  providerModel: string;
+  timestamp: Date;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs: number;
+  outcome: UsageOutcome; // "pending" while the call runs; "rejected" calls were stopped by the local limits and never reached the provider
+  error?: string;
+}
+
+export interface IUsageRecord extends UsageEntry, Document {}
+
+const UsageRecordSchema = new Schema<IUsageRecord>({
+  provider: { type: String, required: true },
+  providerModel: { type: String, required: true },
+  timestamp: { type: Date, required: true, default: Date.now },
+  inputTokens: { type: Number },
+  outputTokens: { type: Number },
+  latencyMs: { type: Number, required: true },
+  outcome: { type: String, required: true, enum: ['pending', 'success', 'quota_exceeded', 'error', 'rejected'] },
+  error: { type: String }
+});
+
+UsageRecordSchema.index({ provider: 1, timestamp: -1 });
+// Keep the ledger for 90 days
+UsageRecordSchema.index({ timestamp: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const UsageRecord = mongoose.model<IUsageRecord>('UsageRecord', UsageRecordSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One field the reviewer changed before saving; a missing value means the field was empty
+export interface FieldCorrection {
+  path: string; // A field that stays the same across the vendor's invoices, e.g. "vendor.taxId" or "invoice.remittance.iban"
+  extracted?: string | number;
+  corrected?: string | number;
+}
+
+export interface IVendorCorrection extends Document {
+  vendorName: string;     // As saved by the reviewer
+  vendorNameKey: string;  // Lowercase with collapsed whitespace, for matching
+  vendorTaxId?: string;   // Uppercase without whitespace, for matching
+  invoiceId: string;
+  fileId: string;
+  provider?: string;      // Provider whose extraction was corrected
+  providerModel?: string;
+  corrections: FieldCorrection[];
+  createdAt: Date;
+}
+
+const FieldCorrectionSchema = new Schema<FieldCorrection>({
+  path: { type: String, required: true },
+  extracted: { type: Schema.Types.Mixed },
+  corrected: { type: Schema.Types.Mixed }
+}, { _id: false });
+
+const VendorCorrectionSchema = new Schema<IVendorCorrection>({
+  vendorName: { type: String, required: true },
+  vendorNameKey: { type: String, required: true },
+  vendorTaxId: { type: String },
+  invoiceId: { type: String, required: true },
+  fileId: { type: String, required: true },
+  provider: { type: String },
+  providerModel: { type: String },
+  corrections: { type: [FieldCorrectionSchema], required: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+VendorCorrectionSchema.index({ vendorTaxId: 1, createdAt: -1 });
+VendorCorrectionSchema.index({ vendorNameKey: 1, createdAt: -1 });
+
+export const VendorCorrection = mongoose.model<IVendorCorrection>('VendorCorrection', VendorCorrectionSchema);
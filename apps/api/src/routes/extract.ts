@@ -1,7 +1,12 @@
 import express from 'express';
-import { AIService } from '../services/aiService.js';
-import { UploadService } from '../services/uploadService.js';
 import { QuotaHelper } from '../utils/quotaHelper.js';
+import { ProviderRegistry } from '../services/providers/registry.js';
+import { ExtractionPipeline } from '../services/extractionPipeline.js';
+import { ExtractionJobQueue } from '../services/extractionJobQueue.js';
+import { CacheService } from '../services/cacheService.js';
+import { StoredResult } from '../services/storedResult.js';
+import { UsageTracker } from '../services/usageTracker.js';
+import { PiiRedactor } from '../services/piiRedactor.js';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -9,95 +14,286 @@ const router = express.Router();
 // Validation schema for extract request
 const ExtractRequestSchema = z.object({
   fileId: z.string(),
-  model: z.enum(['gemini']), // Only Gemini is supported (free)
-  fileUrl: z.string().optional() // Vercel Blob URL for the PDF
-});
+  provider: z.string().optional(), // Extraction provider name, defaults to EXTRACTION_PROVIDER
+  model: z.string().optional(), // Legacy alias for provider, sent by older clients
+  fileUrl: z.string().optional(), // URL returned by the upload, for files the configured storage does not have
+  refresh: z.boolean().optional() // Skip the extraction cache and extract again
+}).refine(
+  data => ProviderRegistry.has(data.provider || data.model || ProviderRegistry.getDefaultName()),
+  { message: 'Unknown extraction provider', path: ['provider'] }
+);
+
+// Status code and body for a failed extraction
+const describeExtractionError = (error: unknown): { status: number; body: Record<string, unknown> } => {
+  if (error instanceof z.ZodError) {
+    return { status: 400, body: { error: 'Invalid request data', details: error.issues } };
+  }
+
+  if (error instanceof Error && error.name === 'FileNotFoundError') {
+    return { status: 404, body: { error: 'File not found', message: error.message } };
+  }
+
+  if (error instanceof Error && error.name === 'NoReadableTextError') {
+    return {
+      status: 422,
+      body: { error: 'No readable text', message: error.message, ocr: 'ocr' in error ? error.ocr : null }
+    };
+  }
+
+  // Handle quota exceeded errors with specific status code
+  if (error instanceof Error && error.name === 'QuotaExceededError') {
+    const quotaInfo = QuotaHelper.getQuotaInfo(error);
+    return {
+      status: 429,
+      body: {
+        error: 'API Quota Exceeded',
+        message: error.message,
+        quotaInfo,
+        retryAfter: quotaInfo.retryAfter,
+        suggestions: quotaInfo.suggestions
+      }
+    };
+  }
+
+  // Handle API key errors
+  if (error instanceof Error && error.message.includes('API key')) {
+    return { status: 401, body: { error: 'API Configuration Error', message: error.message } };
+  }
+
+  return {
+    status: 500,
+    body: { error: 'Extraction failed', message: error instanceof Error ? error.message : 'Unknown error' }
+  };
+};
 
 // POST /api/extract - Extract data from PDF using AI
 router.post('/', async (req, res) => {
   try {
-    const { fileId, model, fileUrl } = ExtractRequestSchema.parse(req.body);
-    
-    // For Vercel Blob, we need to fetch the PDF from the URL
-    let pdfBuffer: Buffer;
-    
-    if (fileUrl) {
-      // Fetch PDF from Vercel Blob URL
-      const response = await fetch(fileUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch PDF from URL: ${response.statusText}`);
-      }
-      pdfBuffer = Buffer.from(await response.arrayBuffer());
-    } else {
-      // Fallback: try to get from local storage (for development)
-      try {
-        const filePath = await UploadService.getFilePath(fileId);
-        pdfBuffer = await import('fs').then(fs => fs.promises.readFile(filePath));
-      } catch (error) {
-        throw new Error('No file URL provided and local file not found. Please upload the file first.');
-      }
-    }
-    
-    // Dynamically import pdf-parse to avoid initialization issues
-    const pdf = (await import('pdf-parse')).default;
-    const pdfData = await pdf(pdfBuffer);
-    
-    // Extract data using AI
-    const aiService = new AIService();
-    const extractedData = await aiService.extractDataFromPDF(pdfData.text, model);
-    
+    const { fileId, provider, model, fileUrl, refresh } = ExtractRequestSchema.parse(req.body);
+
+    const outcome = await ExtractionPipeline.run({ fileId, fileUrl, provider: provider || model, refresh });
+
     res.json({
       success: true,
-      data: extractedData
+      ...ExtractionPipeline.toResponse(outcome)
     });
   } catch (error) {
     console.error('Extraction error:', error);
-    
+    const { status, body } = describeExtractionError(error);
+    res.status(status).json(body);
+  }
+});
+
+// POST /api/extract/stream - Same extraction, reported as server-sent events while it runs
+router.post('/stream', async (req, res) => {
+  let request;
+  try {
+    request = ExtractRequestSchema.parse(req.body);
+  } catch (error) {
+    const { status, body } = describeExtractionError(error);
+    return res.status(status).json(body);
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop proxies from holding events back
+  });
+
+  // The extraction runs to completion even if the client goes away, so it still gets cached
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded && !res.destroyed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  try {
+    const { fileId, provider, model, fileUrl, refresh } = request;
+    const outcome = await ExtractionPipeline.run(
+      { fileId, fileUrl, provider: provider || model, refresh },
+      progress => send(progress.type, progress)
+    );
+
+    send('result', { success: true, ...ExtractionPipeline.toResponse(outcome) });
+  } catch (error) {
+    console.error('Extraction error:', error);
+    const { status, body } = describeExtractionError(error);
+    send('error', { status, ...body });
+  } finally {
+    res.end();
+  }
+});
+
+// POST /api/extract/jobs - Queue an extraction and return its job id right away
+router.post('/jobs', async (req, res) => {
+  try {
+    const { fileId, provider, model, fileUrl, refresh } = ExtractRequestSchema.parse(req.body);
+
+    if (!ExtractionJobQueue.isAvailable()) {
+      return res.status(503).json({
+        error: 'Job queue unavailable',
+        message: 'Background extraction needs a database connection; use POST /api/extract instead'
+      });
+    }
+
+    const job = await ExtractionJobQueue.enqueue({ fileId, fileUrl, provider: provider || model, refresh });
+
+    res.status(202).json({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status
+      }
+    });
+  } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
         error: 'Invalid request data',
         details: error.issues
       });
     }
-    
-    // Handle quota exceeded errors with specific status code
-    if (error instanceof Error && error.name === 'QuotaExceededError') {
-      const quotaInfo = QuotaHelper.getQuotaInfo(error);
-      return res.status(429).json({
-        error: 'API Quota Exceeded',
-        message: error.message,
-        quotaInfo,
-        retryAfter: quotaInfo.retryAfter,
-        suggestions: quotaInfo.suggestions
+
+    res.status(500).json({
+      error: 'Failed to queue extraction',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/extract/jobs/:id - Job status, with the extraction result once it has succeeded
+router.get('/jobs/:id', async (req, res) => {
+  try {
+    const job = await ExtractionJobQueue.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        result: job.result ? StoredResult.decode(job.result) : null,
+        error: job.error ?? null,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt ?? null,
+        finishedAt: job.finishedAt ?? null
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get job',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/extract/providers - List registered extraction providers
+router.get('/providers', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        providers: ProviderRegistry.list(),
+        default: ProviderRegistry.getDefaultName()
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list providers',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Validation schema for cache invalidation
+const InvalidateCacheSchema = z.object({
+  fileId: z.string().optional(),
+  pdfHash: z.string().optional(),
+  provider: z.string().optional()
+});
+
+// DELETE /api/extract/cache - Drop cached extraction results (filtered by fileId, pdfHash or provider)
+router.delete('/cache', async (req, res) => {
+  try {
+    const filter = InvalidateCacheSchema.parse(req.query);
+    const removed = await CacheService.invalidate(filter);
+
+    res.json({
+      success: true,
+      removed
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid cache filter',
+        details: error.issues
       });
     }
-    
-    // Handle API key errors
-    if (error instanceof Error && error.message.includes('API key')) {
-      return res.status(401).json({
-        error: 'API Configuration Error',
-        message: error.message
+
+    res.status(500).json({
+      error: 'Failed to clear extraction cache',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Validation schema for the redaction audit listing
+const RedactionAuditQuerySchema = z.object({
+  fileId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50)
+});
+
+// GET /api/extract/redactions - What was masked before each extraction was sent to a provider (newest first)
+router.get('/redactions', async (req, res) => {
+  try {
+    const filter = RedactionAuditQuerySchema.parse(req.query);
+
+    if (!PiiRedactor.isAuditAvailable()) {
+      return res.status(503).json({
+        error: 'Redaction audit unavailable',
+        message: 'Redaction audit records are stored in the database; without a connection they are only logged'
       });
     }
-    
+
+    res.json({
+      success: true,
+      data: await PiiRedactor.list(filter)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid redaction audit filter',
+        details: error.issues
+      });
+    }
+
     res.status(500).json({
-      error: 'Extraction failed',
+      error: 'Failed to list redaction audit records',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// GET /api/extract/quota - Check quota status
-router.get('/quota', (req, res) => {
+// GET /api/extract/quota - Check quota status (for ?provider=, default: EXTRACTION_PROVIDER)
+router.get('/quota', async (req, res) => {
   try {
-    const quotaUsage = QuotaHelper.getQuotaUsageEstimate();
+    const provider = typeof req.query.provider === 'string' ? req.query.provider : ProviderRegistry.getDefaultName();
+    if (!ProviderRegistry.has(provider)) {
+      return res.status(400).json({ error: 'Unknown extraction provider' });
+    }
+
+    const usage = await UsageTracker.getUsage(provider);
     
     res.json({
       success: true,
-      quota: quotaUsage,
+      quota: usage.daily,
+      usage,
       info: {
-        freeTierLimit: 50,
-        resetPeriod: '24 hours',
+        resetPeriod: 'Daily limits reset at midnight UTC, per-minute limits on a rolling 60 seconds',
         upgradeUrl: 'https://ai.google.dev/pricing'
       }
     });
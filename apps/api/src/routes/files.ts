@@ -0,0 +1,46 @@
+import express from 'express';
+import { StorageRegistry } from '../services/storage/registry.js';
+import { LocalDiskStorage } from '../services/storage/localDiskStorage.js';
+
+const router = express.Router();
+
+// GET /api/files/:key - Serve a file kept by the local storage driver, through a signed link
+router.get('/:key', async (req, res) => {
+  try {
+    const storage = StorageRegistry.get();
+    if (!(storage instanceof LocalDiskStorage)) {
+      return res.status(404).json({ error: 'Route not found' });
+    }
+
+    const { key } = req.params;
+    const expires = Number(req.query.expires);
+    const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+    if (!LocalDiskStorage.verify(key, expires, signature)) {
+      return res.status(403).json({ error: 'Invalid or expired link' });
+    }
+
+    const stream = await storage.getStream(key);
+    // The dashboard embeds the PDF from another origin
+    res.removeHeader('Content-Security-Policy');
+    res.removeHeader('X-Frame-Options');
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Cache-Control', `private, max-age=${Math.max(0, Math.floor(expires - Date.now() / 1000))}`);
+    stream.on('error', error => {
+      console.error('File stream error:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'FileNotFoundError') {
+      return res.status(404).json({ error: 'File not found', message: error.message });
+    }
+    console.error('File download error:', error);
+    res.status(500).json({
+      error: 'Failed to load file',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -1,48 +1,172 @@
 import express from 'express';
+import { InvoiceValidator, TAX_TYPES, TaxCalculator } from 'invoice-rules';
 import { Invoice } from '../models/Invoice.js';
+import { CorrectionService } from '../services/correctionService.js';
+import { PaymentTerms } from '../services/paymentTerms.js';
+import { BankDetails } from '../services/bankDetails.js';
+import { LocaleNormalizer } from '../services/localeNormalizer.js';
+import { Currency } from '../services/currency.js';
+import { UploadService } from '../services/uploadService.js';
 import { z } from 'zod';
 
 const router = express.Router();
 
 // Validation schemas
+const VendorSchema = z.object({
+  name: z.string(),
+  address: z.string().optional(),
+  taxId: z.string().optional()
+});
+
+const TaxComponentSchema = z.object({
+  type: z.enum(TAX_TYPES),
+  rate: z.number().optional(),
+  taxableAmount: z.number().optional(),
+  amount: z.number().optional()
+});
+
+const RemittanceSchema = z.object({
+  bankName: z.string().optional(),
+  accountName: z.string().optional(),
+  accountNumber: z.string().optional(),
+  iban: z.string().optional(),
+  ifsc: z.string().optional(),
+  swift: z.string().optional(),
+  upiId: z.string().optional()
+}).transform(remittance => BankDetails.normalize(remittance));
+
+const INVALID_REMITTANCE_MESSAGES: Record<string, string> = {
+  iban: 'Invalid IBAN',
+  ifsc: 'Invalid IFSC code',
+  swift: 'Invalid SWIFT/BIC code',
+  upiId: 'Invalid UPI ID'
+};
+
+const InvoiceDataSchema = z.object({
+  number: z.string(),
+  date: z.string(),
+  currency: z.string().trim().toUpperCase().optional(),
+  subtotal: z.number().optional(),
+  taxPercent: z.number().optional(),
+  taxes: z.array(TaxComponentSchema).optional(),
+  reverseCharge: z.boolean().optional(),
+  total: z.number().optional(),
+  amountInWords: z.string().optional(),
+  poNumber: z.string().optional(),
+  poDate: z.string().optional(),
+  paymentTerms: z.string().optional(),
+  // An empty due date counts as none, so it can still be scheduled from the terms
+  dueDate: z.preprocess(
+    value => (value === '' ? undefined : value),
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Due date must be YYYY-MM-DD').optional()
+  ),
+  remittance: RemittanceSchema.optional(),
+  lineItems: z.array(z.object({
+    description: z.string(),
+    itemCode: z.string().optional(),
+    unit: z.string().optional(),
+    unitPrice: z.number(),
+    quantity: z.number().positive(),
+    discountPercent: z.number().min(0).max(100).optional(),
+    discountAmount: z.number().min(0).optional(),
+    taxRate: z.number().min(0).optional(),
+    taxAmount: z.number().optional(),
+    total: z.number()
+  }))
+}).transform(invoice => {
+  // Invoices saved with terms but no due date are scheduled from the terms
+  const dueDate = invoice.dueDate ?? PaymentTerms.dueDate(invoice.date, invoice.paymentTerms);
+  return {
+    ...invoice,
+    dueDate,
+    parsedDates: {
+      date: LocaleNormalizer.toDate(invoice.date),
+      poDate: LocaleNormalizer.toDate(invoice.poDate),
+      dueDate: LocaleNormalizer.toDate(dueDate)
+    }
+  };
+});
+
+// Saved dates, currencies and bank details must be well-formed; extractions may still hold misread ones
+const SavedInvoiceDataSchema = InvoiceDataSchema.superRefine((invoice, ctx) => {
+  if (invoice.currency && !Currency.isValid(invoice.currency)) {
+    ctx.addIssue({ code: 'custom', path: ['currency'], message: `Unknown currency "${invoice.currency}", expected an ISO 4217 code` });
+  }
+
+  for (const field of ['date', 'poDate', 'dueDate'] as const) {
+    const value = invoice[field];
+    if (value && !LocaleNormalizer.isIsoDate(value)) {
+      ctx.addIssue({ code: 'custom', path: [field], message: `Invalid date "${value}", expected YYYY-MM-DD` });
+    }
+  }
+
+  for (const path of BankDetails.invalidFields(invoice.remittance)) {
+    const field = path.split('.').pop()!;
+    ctx.addIssue({ code: 'custom', path: ['remittance', field], message: INVALID_REMITTANCE_MESSAGES[field] });
+  }
+});
+
 const CreateInvoiceSchema = z.object({
   fileId: z.string(),
   fileName: z.string(),
-  fileUrl: z.string().optional(), // For production (Vercel Blob URL)
-  vendor: z.object({
-    name: z.string(),
-    address: z.string().optional(),
-    taxId: z.string().optional()
-  }),
-  invoice: z.object({
-    number: z.string(),
-    date: z.string(),
-    currency: z.string().optional(),
-    subtotal: z.number().optional(),
-    taxPercent: z.number().optional(),
-    total: z.number().optional(),
-    poNumber: z.string().optional(),
-    poDate: z.string().optional(),
-    lineItems: z.array(z.object({
-      description: z.string(),
-      unitPrice: z.number(),
-      quantity: z.number(),
-      total: z.number()
-    }))
-  })
+  pageRange: z.object({
+    start: z.number().int().min(1),
+    end: z.number().int().min(1)
+  }).refine(range => range.end >= range.start, { message: 'Page range end must not be before its start' }).optional(),
+  vendor: VendorSchema,
+  buyer: VendorSchema.optional(),
+  shipTo: VendorSchema.optional(),
+  invoice: SavedInvoiceDataSchema
 });
 
 const UpdateInvoiceSchema = CreateInvoiceSchema.partial();
 
-// GET /api/invoices - List all invoices with optional search
+// Invoices are returned with a link to their PDF signed on each read, since signed links expire.
+// When no link can be signed, invoices saved with a stored link keep it
+const withFileUrls = async <T extends { fileId: string; fileUrl?: string }>(invoices: T[]) => {
+  const urls = await UploadService.signedUrls(invoices.map(invoice => invoice.fileId));
+  return invoices.map(invoice => ({ ...invoice, fileUrl: urls.get(invoice.fileId) ?? invoice.fileUrl }));
+};
+
+// A YYYY-MM-DD query parameter, compared with the parsed dates of saved invoices
+const DateParamSchema = z.string()
+  .refine(value => LocaleNormalizer.isIsoDate(value), 'Expected a YYYY-MM-DD date')
+  .transform(value => LocaleNormalizer.toDate(value)!);
+
+const DateRangeSchema = z.object({
+  from: DateParamSchema.optional(),
+  to: DateParamSchema.optional()
+});
+
+// Mongo range on a parsed date field, or undefined when neither end is given
+const dateRange = ({ from, to }: z.infer<typeof DateRangeSchema>) => {
+  if (!from && !to) {
+    return undefined;
+  }
+  return { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+};
+
+// The extraction the saved values were reviewed from, so the reviewer's corrections can be learned
+const ExtractionSourceSchema = z.object({
+  data: z.object({
+    vendor: VendorSchema,
+    buyer: VendorSchema.optional(),
+    shipTo: VendorSchema.optional(),
+    invoice: InvoiceDataSchema
+  }),
+  provider: z.string().optional(),
+  model: z.string().optional()
+});
+
+// GET /api/invoices - List all invoices with optional search, buyer entity, or those due within dueFrom/dueTo (YYYY-MM-DD)
 router.get('/', async (req, res) => {
   try {
-    const { q, page = '1', limit = '10' } = req.query;
+    const { q, fileId, buyer, dueFrom, dueTo, page = '1', limit = '10' } = req.query;
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const skip = (pageNum - 1) * limitNum;
 
-    let query = {};
+    let query: Record<string, unknown> = {};
     if (q) {
       query = {
         $or: [
@@ -52,9 +176,25 @@ router.get('/', async (req, res) => {
       };
     }
 
+    // All invoices split out of the same source file
+    if (fileId) {
+      query.fileId = String(fileId);
+    }
+
+    // Invoices billed to one of our entities, by its name as listed by GET /buyers
+    if (buyer) {
+      query['buyer.name'] = String(buyer);
+    }
+
+    // Payables: invoices falling due in a window, soonest first
+    const dueRange = dateRange(DateRangeSchema.parse({ from: dueFrom, to: dueTo }));
+    if (dueRange) {
+      query['invoice.parsedDates.dueDate'] = dueRange;
+    }
+
     const [invoices, total] = await Promise.all([
       Invoice.find(query)
-        .sort({ createdAt: -1 })
+        .sort(dueRange ? { 'invoice.parsedDates.dueDate': 1 } : { createdAt: -1 })
         .skip(skip)
         .limit(limitNum)
         .lean(),
@@ -64,7 +204,7 @@ router.get('/', async (req, res) => {
     res.json({
       success: true,
       data: {
-        invoices,
+        invoices: await withFileUrls(invoices),
         pagination: {
           page: pageNum,
           limit: limitNum,
@@ -74,6 +214,13 @@ router.get('/', async (req, res) => {
       }
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid due date filter',
+        details: error.issues
+      });
+    }
+
     console.error('List invoices error:', error);
     res.status(500).json({
       error: 'Failed to fetch invoices',
@@ -82,18 +229,69 @@ router.get('/', async (req, res) => {
   }
 });
 
+// GET /api/invoices/tax-report - Tax per currency, type and rate, optionally for invoice dates from/to (YYYY-MM-DD)
+router.get('/tax-report', async (req, res) => {
+  try {
+    const range = dateRange(DateRangeSchema.parse(req.query));
+
+    const invoices = await Invoice.find(range ? { 'invoice.parsedDates.date': range } : {})
+      .select('invoice.currency invoice.subtotal invoice.taxPercent invoice.taxes invoice.reverseCharge')
+      .lean();
+
+    res.json({
+      success: true,
+      data: {
+        invoices: invoices.length,
+        taxes: TaxCalculator.report(invoices.map(invoice => invoice.invoice))
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid date filter',
+        details: error.issues
+      });
+    }
+
+    console.error('Tax report error:', error);
+    res.status(500).json({
+      error: 'Failed to build tax report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/invoices/buyers - Names of the entities invoices were billed to, for filtering the list
+router.get('/buyers', async (req, res) => {
+  try {
+    const buyers = await Invoice.distinct('buyer.name');
+
+    res.json({
+      success: true,
+      data: (buyers as string[]).filter(Boolean).sort((a, b) => a.localeCompare(b))
+    });
+  } catch (error) {
+    console.error('List buyers error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch buyers',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // GET /api/invoices/:id - Get single invoice
 router.get('/:id', async (req, res) => {
   try {
-    const invoice = await Invoice.findById(req.params.id);
+    const invoice = await Invoice.findById(req.params.id).lean();
     
     if (!invoice) {
       return res.status(404).json({ error: 'Invoice not found' });
     }
 
+    const [data] = await withFileUrls([invoice]);
     res.json({
       success: true,
-      data: invoice
+      data
     });
   } catch (error) {
     console.error('Get invoice error:', error);
@@ -108,19 +306,52 @@ router.get('/:id', async (req, res) => {
 router.post('/', async (req, res) => {
   try {
     const invoiceData = CreateInvoiceSchema.parse(req.body);
+    // Optional and best effort: a malformed extraction must not stop the invoice being saved
+    const extraction = ExtractionSourceSchema.safeParse(req.body.extraction);
     
-    // Check if invoice with same fileId already exists
-    const existingInvoice = await Invoice.findOne({ fileId: invoiceData.fileId });
+    // Check if an invoice for the same file (and pages, for multi-invoice files) already exists
+    const existingInvoice = await Invoice.findOne({
+      fileId: invoiceData.fileId,
+      'pageRange.start': invoiceData.pageRange?.start ?? null
+    });
     if (existingInvoice) {
-      return res.status(409).json({ error: 'Invoice with this file already exists' });
+      return res.status(409).json({
+        error: invoiceData.pageRange
+          ? 'Invoice for these pages of this file already exists'
+          : 'Invoice with this file already exists'
+      });
     }
 
     const invoice = new Invoice(invoiceData);
     await invoice.save();
 
+    // Claimed after saving, so an upload deleted meanwhile is either seen by the deletion's
+    // final check or refuses the claim. The PDF may have been swept during a long review.
+    if (!(await UploadService.claim(invoiceData.fileId))) {
+      await Invoice.deleteOne({ _id: invoice._id });
+      return res.status(409).json({
+        error: 'File deleted',
+        message: 'The PDF was deleted while the invoice was being saved. Please upload it again.'
+      });
+    }
+
+    if (extraction.success) {
+      await CorrectionService.record({
+        invoiceId: invoice.id,
+        fileId: invoiceData.fileId,
+        provider: extraction.data.provider,
+        model: extraction.data.model,
+        extracted: extraction.data.data,
+        saved: invoiceData
+      });
+    }
+
+    // Arithmetic mismatches don't block saving - the reviewer may have kept printed values on purpose
+    const [data] = await withFileUrls([invoice.toObject()]);
     res.status(201).json({
       success: true,
-      data: invoice
+      data,
+      warnings: InvoiceValidator.validate(invoiceData.invoice)
     });
   } catch (error) {
     console.error('Create invoice error:', error);
@@ -154,9 +385,11 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Invoice not found' });
     }
 
+    const [data] = await withFileUrls([invoice.toObject()]);
     res.json({
       success: true,
-      data: invoice
+      data,
+      warnings: InvoiceValidator.validate(data.invoice)
     });
   } catch (error) {
     console.error('Update invoice error:', error);
@@ -184,9 +417,19 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Invoice not found' });
     }
 
+    // The PDF goes with its last invoice
+    let fileDeleted = false;
+    try {
+      fileDeleted = await UploadService.deleteIfUnclaimed(invoice.fileId);
+    } catch (error) {
+      // Left for the orphan sweeper
+      console.warn(`⚠️ Failed to delete file ${invoice.fileId} of invoice ${invoice.id}:`, error);
+    }
+
     res.json({
       success: true,
-      message: 'Invoice deleted successfully'
+      message: 'Invoice deleted successfully',
+      fileDeleted
     });
   } catch (error) {
     console.error('Delete invoice error:', error);
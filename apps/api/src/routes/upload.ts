@@ -1,5 +1,10 @@
 import express from 'express';
-import { upload, UploadService } from '../services/uploadService.js';
+import { upload, batchUpload, MAX_BATCH_FILES, UploadService } from '../services/uploadService.js';
+import { BatchService } from '../services/batchService.js';
+import { ExtractionJobQueue } from '../services/extractionJobQueue.js';
+import { ProviderRegistry } from '../services/providers/registry.js';
+import { UploadSweeper } from '../services/uploadSweeper.js';
+import { z } from 'zod';
 
 const router = express.Router();
 
@@ -25,4 +30,99 @@ router.post('/', upload.single('pdf'), async (req, res) => {
   }
 });
 
+// POST /api/upload/batch - Upload many PDFs (or ZIP archives of PDFs) and queue each for extraction
+router.post('/batch', batchUpload.array('files', MAX_BATCH_FILES), async (req, res) => {
+  const files = req.files as Express.Multer.File[] | undefined;
+  try {
+    if (!files || files.length === 0) {
+      return res.status(400).json({ error: 'No files uploaded' });
+    }
+
+    const provider = typeof req.body.provider === 'string' && req.body.provider ? req.body.provider : undefined;
+    if (provider && !ProviderRegistry.has(provider)) {
+      return res.status(400).json({ error: 'Unknown extraction provider' });
+    }
+
+    if (!ExtractionJobQueue.isAvailable()) {
+      return res.status(503).json({
+        error: 'Job queue unavailable',
+        message: 'Batch extraction needs a database connection'
+      });
+    }
+
+    const result = await BatchService.submit(files, provider);
+
+    res.status(202).json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Batch upload error:', error);
+    res.status(500).json({
+      error: 'Batch upload failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } finally {
+    await UploadService.discardTempFiles(files || []);
+  }
+});
+
+// GET /api/upload/batch/:batchId - Extraction status of each file in a batch
+router.get('/batch/:batchId', async (req, res) => {
+  try {
+    const result = await BatchService.getStatus(req.params.batchId);
+    if (result.files.length === 0) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get batch status',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Validation schema for a manual orphan sweep
+const SweepRequestSchema = z.object({
+  dryRun: z.boolean().default(false),
+  maxAgeHours: z.number().positive().optional() // Defaults to UPLOAD_ORPHAN_MAX_AGE_HOURS
+});
+
+// POST /api/upload/sweep - Delete uploads no invoice or extraction job uses, or report them with dryRun
+router.post('/sweep', async (req, res) => {
+  try {
+    const options = SweepRequestSchema.parse(req.body ?? {});
+
+    if (!UploadService.isRegistryAvailable()) {
+      return res.status(503).json({
+        error: 'Upload registry unavailable',
+        message: 'Uploads are recorded in the database; without a connection they cannot be swept'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await UploadSweeper.sweep(options)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid sweep request',
+        details: error.issues
+      });
+    }
+
+    console.error('Upload sweep error:', error);
+    res.status(500).json({
+      error: 'Upload sweep failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router;
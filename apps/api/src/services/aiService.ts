@@ -1,93 +1,448 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { z } from 'zod';
+import { InvoiceValidator, TaxCalculator, type ReconciliationWarning } from 'invoice-rules';
+import { ProviderRegistry } from './providers/registry.js';
+import type { ExtractionProvider } from './providers/types.js';
+import { ConfidenceScorer, type ConfidenceMap } from './confidenceScorer.js';
+import { CacheService, type CacheKey } from './cacheService.js';
+import { UsageTracker } from './usageTracker.js';
+import { PartialExtractionTracker, type PartialExtraction } from './partialExtraction.js';
+import { CorrectionService } from './correctionService.js';
+import { PaymentTerms } from './paymentTerms.js';
+import { BankDetails } from './bankDetails.js';
+import { DEFAULT_CURRENCY } from './currency.js';
+import { LocaleNormalizer, type DetectedLocale, type NormalizationIssue } from './localeNormalizer.js';
+import { TableLayout, type LayoutTable } from './tableLayout.js';
+import { ExtractionChunker, type ExtractionCoverage, type PageChunk } from './extractionChunker.js';
+import type { PageRange } from './invoiceSplitter.js';
+import { PdfTextLayout, type PageLayout } from './pdfTextLayout.js';
+import { PiiRedactor } from './piiRedactor.js';
+import type { FieldCorrection } from '../models/VendorCorrection.js';
+
+// Models name taxes as printed ("cgst", "TDS"); map them to the known types
+const TaxComponentSchema = z.object({
+  type: z.string().transform(type => TaxCalculator.normalizeType(type)),
+  rate: z.number().optional(),
+  taxableAmount: z.number().optional(),
+  amount: z.number().optional()
+});
+
+const RemittanceSchema = z.object({
+  bankName: z.string().optional(),
+  accountName: z.string().optional(),
+  accountNumber: z.string().optional(),
+  iban: z.string().optional(),
+  ifsc: z.string().optional(),
+  swift: z.string().optional(),
+  upiId: z.string().optional()
+}).transform(remittance => BankDetails.normalize(remittance));
+
+const PartySchema = z.object({
+  name: z.string(),
+  address: z.string().optional(),
+  taxId: z.string().optional()
+});
 
 // Validation schema for extracted data
 const ExtractedDataSchema = z.object({
-  vendor: z.object({
-    name: z.string(),
-    address: z.string().optional(),
-    taxId: z.string().optional()
-  }),
+  vendor: PartySchema,
+  buyer: PartySchema.optional(),
+  shipTo: PartySchema.optional(),
   invoice: z.object({
     number: z.string(),
     date: z.string(),
-    currency: z.string().nullable().optional().transform(val => val || 'INR'), // Handle null and provide default
+    currency: z.string().nullable().optional().transform(val => val || DEFAULT_CURRENCY), // ISO 4217, resolved by LocaleNormalizer
     subtotal: z.number().optional(),
     taxPercent: z.number().optional(),
+    taxes: z.array(TaxComponentSchema).optional(),
+    reverseCharge: z.boolean().optional(),
     total: z.number().optional(),
+    amountInWords: z.string().optional(),
     poNumber: z.string().optional(),
     poDate: z.string().optional(),
+    paymentTerms: z.string().optional(),
+    dueDate: z.string().optional(),
+    remittance: RemittanceSchema.optional(),
     lineItems: z.array(z.object({
       description: z.string(),
+      itemCode: z.string().optional(),
+      unit: z.string().optional(),
       unitPrice: z.number(),
       quantity: z.number(),
+      discountPercent: z.number().optional(),
+      discountAmount: z.number().optional(),
+      taxRate: z.number().optional(),
+      taxAmount: z.number().optional(),
       total: z.number()
     }))
+  }).transform(invoice => {
+    // Invoices that only state their terms are due that many days after the invoice date
+    const dueDate = invoice.dueDate ?? PaymentTerms.dueDate(invoice.date, invoice.paymentTerms);
+    return dueDate ? { ...invoice, dueDate } : invoice;
   })
 });
 
 export type ExtractedData = z.infer<typeof ExtractedDataSchema>;
+export type RawExtractedData = z.input<typeof ExtractedDataSchema>;
 
-export class AIService {
-  private gemini: GoogleGenerativeAI;
-  private cache: Map<string, ExtractedData> = new Map();
+export interface ExtractionResult {
+  data: ExtractedData;
+  confidence: ConfidenceMap;
+  warnings: ReconciliationWarning[]; // Arithmetic that does not add up, for the reviewer
+  locale?: DetectedLocale;           // How dates and numbers were read
+  normalizationIssues?: NormalizationIssue[]; // Dates and numbers that were ambiguous or reinterpreted
+  provider: string;
+  model: string;
+  fallbackReason?: string; // Set when the offline extractor stood in for the requested provider
+  cached?: boolean;        // Served from the extraction cache
+  coverage?: ExtractionCoverage; // Whether the whole invoice was extracted
+}
 
-  constructor() {
-    this.gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-  }
+// Identifies the document being extracted, so results can be cached across requests
+export interface ExtractionSource {
+  pdfHash: string; // SHA-256 of the PDF bytes
+  pages: string;   // Page range of the PDF the text came from, e.g. "1-3"
+  fileId?: string;
+}
 
-  async extractDataFromPDF(pdfText: string, model: 'gemini'): Promise<ExtractedData> {
-    // Create a simple hash of the PDF text for caching
-    const textHash = this.createTextHash(pdfText);
-    
-    // Check cache first
-    if (this.cache.has(textHash)) {
-      console.log('Returning cached extraction result');
-      return this.cache.get(textHash)!;
+export interface ExtractionOptions {
+  source?: ExtractionSource; // Results are only cached when the source is known
+  refresh?: boolean;         // Ignore any cached result and extract again
+  onPartial?: (update: PartialExtraction) => void; // Vendor and line items as a streaming provider produces them
+  tables?: LayoutTable[];    // Line-item tables found in the PDF layout
+  pages?: PageLayout[];      // Pages the text came from, so long invoices can be extracted a few pages at a time
+}
+
+// What goes into a provider call besides the PDF text
+interface ProviderCall {
+  corrections?: FieldCorrection[];
+  tables?: LayoutTable[];
+  onPartial?: (update: PartialExtraction) => void;
+  redactor?: PiiRedactor; // Masks personal data in what is sent, and restores it in the response
+}
+
+type ProviderRun = Pick<ExtractionResult, 'data' | 'confidence' | 'warnings' | 'locale' | 'normalizationIssues' | 'coverage'> & {
+  placeholder: boolean; // The provider returned nothing and placeholders were filled in
+};
+
+// Bump whenever the prompt or the expected response changes, so cached results are not reused
+export const PROMPT_VERSION = '10';
+
+const FALLBACK_PROVIDER = 'heuristic';
+
+// Shared by the full extraction prompt and the line-item prompt for chunks of long invoices
+const LINE_ITEM_FIELDS = `      {
+        "description": "string (required)",
+        "itemCode": "string (optional - HSN/SAC code, or else the item code/SKU)",
+        "unit": "string (optional - unit of measure, e.g. hrs, kg, pcs, Nos)",
+        "unitPrice": "number (required)",
+        "quantity": "number (required, may be fractional e.g. 2.5 hours or 0.75 kg)",
+        "discountPercent": "number (optional)",
+        "discountAmount": "number (optional - discount deducted from this line)",
+        "taxRate": "number (optional - tax rate printed on this line, percent)",
+        "taxAmount": "number (optional - tax amount printed on this line)",
+        "total": "number (required - line amount as printed)"
+      }`;
+
+const LINE_ITEM_RULES = `- When LINE ITEM TABLES are given, read line items from their rows: the PDF text can run neighbouring columns together ("₹931.363₹2,794.08")
+- Keep quantities exactly as printed, including decimals; do not round them to whole numbers
+- Put HSN or SAC codes (often in their own column, or as "HSN: 3923" under the description) in "itemCode", not in the description
+- Put the unit of measure in "unit" rather than in the quantity
+- A discount column or "less x% discount" goes in "discountPercent" and/or "discountAmount"
+- When a line shows its own tax rate or tax amount, put them in "taxRate" and "taxAmount"`;
+
+// Bank codes that fail their format check were most likely misread, and dates or numbers
+// that could be read two ways need checking
+const FLAGGED_SCORE = 0.3;
+
+// Corrected fields masked before a prompt, by the redaction rule their placeholders are named after
+const SENSITIVE_CORRECTION_FIELDS: Record<string, string> = {
+  'invoice.remittance.accountName': 'accountName',
+  'invoice.remittance.accountNumber': 'accountNumber',
+  'invoice.remittance.iban': 'iban',
+  'invoice.remittance.upiId': 'upiId'
+};
+
+export class AIService {
+  async extractDataFromPDF(pdfText: string, providerName?: string, options: ExtractionOptions = {}): Promise<ExtractionResult> {
+    // Resolve the provider first so unknown names fail before any work is done
+    const provider = ProviderRegistry.get(providerName);
+
+    // Without an API key there is nothing to call, so go straight to the offline extractor
+    if (!provider.isConfigured()) {
+      console.log(`${provider.name} provider is not configured, using offline extractor`);
+      return this.extractWithFallback(pdfText, `${provider.name} provider is not configured`, options.tables);
     }
 
-    const prompt = this.createExtractionPrompt(pdfText);
+    // What reviewers corrected in this vendor's earlier invoices goes into the prompt
+    const corrections = provider.source === 'model' ? await CorrectionService.findForText(pdfText) : [];
 
-    try {
-      console.log('Starting extraction with Gemini...');
-      
-      // Check API key
-      if (!process.env.GEMINI_API_KEY) {
-        throw new Error('GEMINI_API_KEY not configured');
-      }
+    const cacheKey: CacheKey | undefined = options.source && {
+      pdfHash: options.source.pdfHash,
+      pages: options.source.pages,
+      provider: provider.name,
+      model: provider.model,
+      promptVersion: PROMPT_VERSION,
+      promptContext: CorrectionService.fingerprint(corrections)
+    };
 
-      // Extract using Gemini
-      const extractedText = await this.extractWithGemini(prompt);
+    // Check cache first
+    if (cacheKey && !options.refresh) {
+      const cached = await CacheService.get(cacheKey);
+      if (cached) {
+        console.log('Returning cached extraction result');
+        return { ...cached, cached: true };
+      }
+    }
 
-      // Clean the extracted text to remove markdown formatting
-      const cleanedText = this.cleanJsonResponse(extractedText);
+    // Personal and payment data is masked before the text leaves for an external model
+    const redactor = provider.source === 'model' ? PiiRedactor.fromEnv() : new PiiRedactor();
+    const call: ProviderCall = { corrections, tables: options.tables, onPartial: options.onPartial, redactor };
 
-      console.log('Raw AI response:', extractedText);
-      console.log('Cleaned response:', cleanedText);
+    try {
+      console.log(`Starting extraction with ${provider.name} (${provider.model})${corrections.length > 0 ? ` using ${corrections.length} vendor correction(s)` : ''}...`);
 
-      // Parse and validate the extracted data
-      const parsedData = JSON.parse(cleanedText);
-      const validatedData = ExtractedDataSchema.parse(parsedData);
+      // Invoices too long for one prompt are extracted a few pages at a time
+      const pages = options.pages ?? [];
+      const { placeholder, ...extracted } = provider.source === 'model' && pages.length > 1 && ExtractionChunker.needsChunking(pdfText)
+        ? await this.runChunked(provider, pdfText, pages, call)
+        : await this.runProvider(provider, pdfText, call);
+      const result = {
+        ...extracted,
+        provider: provider.name,
+        model: provider.model
+      };
       
-      // Cache the result
-      this.cache.set(textHash, validatedData);
+      // Cache the result, unless the provider returned nothing and placeholders were filled in
+      if (cacheKey && !placeholder) {
+        await CacheService.set(cacheKey, result, options.source?.fileId);
+      }
       
-      return validatedData;
+      return result;
     } catch (error) {
-      console.error('Error extracting data with Gemini:', error);
+      console.error(`Error extracting data with ${provider.name}:`, error);
       
-      // If it's a quota error, provide a fallback response
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        console.log('Quota exceeded, returning fallback data structure');
-        const fallbackData = this.getFallbackData();
-        this.cache.set(textHash, fallbackData);
-        return fallbackData;
+      // If it's a quota error, fall back to the offline extractor
+      if (error instanceof Error && error.name === 'QuotaExceededError' && provider.name !== FALLBACK_PROVIDER) {
+        console.log('Quota exceeded, using offline extractor');
+        return this.extractWithFallback(pdfText, error.message, options.tables);
       }
       
-      throw new Error(`Failed to extract data with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to extract data with ${provider.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      // Recorded even when the call failed, since the text may have been sent already
+      if (redactor.isActive) {
+        await PiiRedactor.record({
+          fileId: options.source?.fileId,
+          pdfHash: options.source?.pdfHash,
+          pages: options.source?.pages,
+          provider: provider.name,
+          providerModel: provider.model,
+          timestamp: new Date(),
+          rules: redactor.ruleNames,
+          redactions: redactor.redactions
+        });
+      }
     }
   }
 
+  private async runProvider(
+    provider: ExtractionProvider,
+    pdfText: string,
+    { corrections = [], tables = [], onPartial, redactor = new PiiRedactor() }: ProviderCall = {}
+  ): Promise<ProviderRun> {
+    const sentCorrections = this.redactCorrections(corrections, redactor);
+    const sentText = redactor.redact(pdfText);
+    const sentTables = redactor.redactValue(tables);
+    const prompt = this.createExtractionPrompt(sentText, sentCorrections, sentTables, this.formatRedactions(redactor));
+
+    // Stream the response only when someone is waiting for partial results
+    const tracker = onPartial && new PartialExtractionTracker();
+    const onChunk = tracker && ((text: string) => tracker.push(text).forEach(update => onPartial(redactor.restorePreview(update))));
+
+    // Extract using the selected provider, within its usage limits
+    const { text: extractedText } = await UsageTracker.run(provider, () => provider.extract({ prompt, pdfText: sentText, tables: sentTables, onChunk }));
+
+    // Clean the extracted text to remove markdown formatting
+    const cleanedText = this.cleanJsonResponse(extractedText);
+
+    // Responses are not logged, as they may hold personal data the redaction rules missed
+    console.log(`🤖 ${provider.name} responded with ${extractedText.length} characters`);
+
+    // Parse and validate the extracted data
+    const placeholder = this.isEmptyResponse(extractedText);
+    const run = this.interpret(provider, redactor.restore(JSON.parse(cleanedText)), this.parseRawResponse(extractedText), pdfText);
+    return { ...run, coverage: { complete: !placeholder, chunks: [] }, placeholder };
+  }
+
+  /**
+   * Invoices too long for one prompt: header fields and totals from the first and last pages,
+   * line items a chunk of pages at a time. A chunk that fails leaves the result incomplete
+   * instead of failing the whole extraction.
+   */
+  private async runChunked(
+    provider: ExtractionProvider,
+    pdfText: string,
+    pages: PageLayout[],
+    { corrections = [], tables = [], redactor = new PiiRedactor() }: ProviderCall = {}
+  ): Promise<ProviderRun> {
+    const chunks = ExtractionChunker.plan(pages);
+    console.log(`📚 ${pages.length} pages are too long for one prompt, extracting line items in ${chunks.length} chunks`);
+
+    const headerPages = ExtractionChunker.headerPages(pages);
+    const sentCorrections = this.redactCorrections(corrections, redactor);
+    const headerText = redactor.redact(PdfTextLayout.joinText(headerPages));
+    const headerPrompt = this.createExtractionPrompt(
+      headerText,
+      sentCorrections,
+      [],
+      this.describeHeaderPages(headerPages, pages.length) + this.formatRedactions(redactor)
+    );
+    const { text: headerResponse } = await UsageTracker.run(provider, () => provider.extract({ prompt: headerPrompt, pdfText: headerText }));
+    const header = JSON.parse(this.cleanJsonResponse(headerResponse));
+
+    const results: Array<{ chunk: PageChunk; lineItems: Array<Record<string, unknown>>; confidence: Record<string, unknown>; error?: string }> = [];
+    for (const chunk of chunks) {
+      try {
+        results.push({ chunk, ...await this.extractChunkLineItems(provider, chunk, pages.length, tables, redactor) });
+      } catch (error) {
+        // Out of quota, the remaining chunks would fail too; let the caller fall back
+        if (error instanceof Error && error.name === 'QuotaExceededError') {
+          throw error;
+        }
+        console.error(`Error extracting line items from pages ${chunk.pageRange.start}-${chunk.pageRange.end}:`, error);
+        results.push({ chunk, lineItems: [], confidence: {}, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    // Reported confidences follow each line item to its place in the merged list
+    const merged = ExtractionChunker.mergeLineItems(results.map(({ chunk, lineItems }) => ({ pageRange: chunk.pageRange, lineItems })));
+    const reported: Record<string, unknown> = Object.fromEntries(
+      Object.entries(header.confidence ?? {}).filter(([path]) => !path.startsWith('invoice.lineItems.'))
+    );
+    merged.forEach(({ chunk, index }, position) => {
+      const prefix = `invoice.lineItems.${index}.`;
+      for (const [path, score] of Object.entries(results[chunk].confidence)) {
+        if (path.startsWith(prefix)) {
+          reported[`invoice.lineItems.${position}.${path.slice(prefix.length)}`] = score;
+        }
+      }
+    });
+
+    const lineItems = merged.map(({ item }) => item);
+    const composed = redactor.restore({ ...header, invoice: { ...header.invoice, lineItems }, confidence: reported });
+    const placeholder = this.isEmptyResponse(headerResponse);
+    const run = this.interpret(provider, composed, placeholder ? { invoice: { lineItems } } : composed, pdfText);
+
+    const coverage: ExtractionCoverage = {
+      complete: !placeholder && results.every(result => !result.error),
+      chunks: results.map(({ chunk, error }, index) => ({
+        pageRange: chunk.pageRange,
+        lineItems: merged.filter(item => item.chunk === index).length,
+        ...(error ? { error } : {})
+      })),
+      lineItemPages: merged.map(({ pageRange }) => pageRange)
+    };
+    if (!coverage.complete) {
+      console.log(`⚠️ Extraction incomplete: ${coverage.chunks.filter(chunk => chunk.error).length} of ${chunks.length} chunks failed`);
+    }
+
+    return { ...run, coverage, placeholder };
+  }
+
+  private async extractChunkLineItems(
+    provider: ExtractionProvider,
+    chunk: PageChunk,
+    pageCount: number,
+    tables: LayoutTable[],
+    redactor: PiiRedactor
+  ): Promise<{ lineItems: Array<Record<string, unknown>>; confidence: Record<string, unknown> }> {
+    const { start, end } = chunk.pageRange;
+    const chunkText = redactor.redact(chunk.text);
+    const chunkTables = redactor.redactValue(tables.filter(table => table.page >= start && table.page <= end));
+    const prompt = this.createLineItemPrompt(chunkText, chunk.pageRange, pageCount, chunkTables, this.formatRedactions(redactor));
+    const { text } = await UsageTracker.run(provider, () => provider.extract({ prompt, pdfText: chunkText, tables: chunkTables }));
+    if (this.isEmptyResponse(text)) {
+      throw new Error('The provider returned an empty response');
+    }
+
+    const parsed = JSON.parse(this.cleanJsonResponse(text)) as { lineItems?: unknown; confidence?: Record<string, unknown> };
+    if (!Array.isArray(parsed.lineItems)) {
+      throw new Error('The response has no "lineItems" list');
+    }
+    return {
+      lineItems: parsed.lineItems.filter(item => typeof item === 'object' && item !== null),
+      confidence: parsed.confidence ?? {}
+    };
+  }
+
+  /**
+   * Normalize, validate and score a parsed response. `raw` is the response before any
+   * placeholders were filled in, so defaults are scored down.
+   */
+  private interpret(
+    provider: ExtractionProvider,
+    parsedData: { confidence?: Record<string, unknown> },
+    raw: unknown,
+    pdfText: string
+  ): Omit<ProviderRun, 'coverage' | 'placeholder'> {
+    // Dates to YYYY-MM-DD and amounts to numbers, as the invoice's locale writes them
+    const { data: normalizedData, locale, issues } = LocaleNormalizer.normalize(parsedData, pdfText);
+    const data = ExtractedDataSchema.parse(normalizedData);
+
+    // Score each field against the untouched response, so defaults filled in above are flagged
+    const confidence = ConfidenceScorer.score({
+      data,
+      raw,
+      reported: parsedData.confidence,
+      source: provider.source,
+      pdfText
+    });
+    const flagged = [...BankDetails.invalidFields(data.invoice.remittance), ...issues.map(issue => issue.path)];
+    for (const path of flagged.filter(path => confidence[path])) {
+      confidence[path] = { ...confidence[path], score: Math.min(confidence[path].score, FLAGGED_SCORE) };
+    }
+    if (issues.length > 0) {
+      console.log(`⚠️ ${issues.length} date/number normalization issue(s):`, issues.map(issue => issue.message));
+    }
+
+    const warnings = InvoiceValidator.validate(data.invoice);
+    if (warnings.length > 0) {
+      console.log(`⚠️ ${warnings.length} reconciliation warning(s):`, warnings.map(warning => warning.message));
+    }
+
+    return { data, confidence, warnings, locale, normalizationIssues: issues };
+  }
+
+  private parseRawResponse(text: string): unknown {
+    try {
+      return JSON.parse(text.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim());
+    } catch {
+      return {};
+    }
+  }
+
+  private async extractWithFallback(pdfText: string, reason: string, tables?: LayoutTable[]): Promise<ExtractionResult> {
+    // Fallback results are not cached, so the requested provider is retried next time
+    const fallback = ProviderRegistry.get(FALLBACK_PROVIDER);
+    const { data, confidence, warnings, locale, normalizationIssues, coverage } = await this.runProvider(fallback, pdfText, { tables });
+    return {
+      data,
+      confidence,
+      warnings,
+      locale,
+      normalizationIssues,
+      coverage,
+      provider: fallback.name,
+      model: fallback.model,
+      fallbackReason: reason
+    };
+  }
+
+  private isEmptyResponse(text: string): boolean {
+    const cleaned = text.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
+    return !cleaned || cleaned === '{}';
+  }
+
   private cleanJsonResponse(text: string): string {
     // Remove markdown code blocks
     let cleaned = text.replace(/```json\s*/g, '').replace(/```\s*/g, '');
@@ -96,7 +451,7 @@ export class AIService {
     cleaned = cleaned.trim();
     
     // If the response is empty or just {}, return a default structure
-    if (!cleaned || cleaned === '{}') {
+    if (this.isEmptyResponse(cleaned)) {
       return JSON.stringify({
         vendor: {
           name: "Unknown Vendor",
@@ -106,7 +461,7 @@ export class AIService {
         invoice: {
           number: "Unknown",
           date: new Date().toISOString().split('T')[0],
-          currency: "INR", // Default to INR for Indian invoices
+          currency: DEFAULT_CURRENCY,
           subtotal: 0,
           taxPercent: 18, // Default IGST rate for India
           total: 0,
@@ -117,27 +472,119 @@ export class AIService {
       });
     }
     
-    // Parse and fix null currency values
-    try {
-      const parsed = JSON.parse(cleaned);
-      if (parsed.invoice && parsed.invoice.currency === null) {
-        parsed.invoice.currency = "INR"; // Default to INR for Indian invoices
-      }
-      return JSON.stringify(parsed);
-    } catch (error) {
-      // If parsing fails, return the cleaned text as is
-      return cleaned;
+    // Missing currencies are filled in by LocaleNormalizer
+    return cleaned;
+  }
+
+  /**
+   * Corrections as sent to the provider. Corrected bank details are masked whether or not a
+   * redaction rule recognises them, before the text, so the same values are masked there too.
+   */
+  private redactCorrections(corrections: FieldCorrection[], redactor: PiiRedactor): FieldCorrection[] {
+    const masked = corrections.map(correction => {
+      const rule = SENSITIVE_CORRECTION_FIELDS[correction.path];
+      const mask = (value: string | number | undefined) => value === undefined ? value : redactor.mask(rule, String(value));
+      return rule ? { ...correction, extracted: mask(correction.extracted), corrected: mask(correction.corrected) } : correction;
+    });
+    return redactor.redactValue(masked);
+  }
+
+  private formatCorrections(corrections: FieldCorrection[]): string {
+    if (corrections.length === 0) {
+      return '';
+    }
+
+    const describe = (value: string | number | undefined) => value === undefined ? 'empty' : JSON.stringify(value);
+    const lines = corrections.map(({ path, extracted, corrected }) =>
+      `- ${path}: extracted ${describe(extracted)}, corrected to ${describe(corrected)}`);
+
+    return `
+VENDOR CORRECTIONS:
+Reviewers corrected earlier extractions of invoices from this vendor. These fields usually stay the same
+across the vendor's invoices; unless this invoice clearly shows otherwise, avoid repeating these mistakes:
+${lines.join('\n')}
+`;
+  }
+
+  private formatTables(tables: LayoutTable[]): string {
+    if (tables.length === 0) {
+      return '';
+    }
+
+    return `
+LINE ITEM TABLES:
+The line-item tables of the PDF, rebuilt from where each value is printed. Each row is one line item,
+with its description lines joined and every value under its own column header:
+${TableLayout.format(tables)}
+`;
+  }
+
+  private describeHeaderPages(headerPages: PageLayout[], pageCount: number): string {
+    return `
+PAGES:
+This invoice has ${pageCount} pages and the text above is only pages ${headerPages.map(page => page.pageNumber).join(' and ')}.
+Its line items are extracted separately, so return an empty "lineItems" array, and copy the subtotal, taxes
+and total as printed instead of adding up line items.
+`;
+  }
+
+  private formatRedactions(redactor: PiiRedactor): string {
+    if (redactor.redactions.length === 0) {
+      return '';
     }
+
+    return `
+REDACTED VALUES:
+Personal and payment details in the text are replaced by placeholders such as ${redactor.redactions[0].placeholder}.
+Copy a placeholder exactly as written into the field it belongs to (e.g. "iban": "[IBAN_1]"); do not guess the value behind it.
+`;
+  }
+
+  private createLineItemPrompt(text: string, { start, end }: PageRange, pageCount: number, tables: LayoutTable[], notes = ''): string {
+    return `
+You are an AI assistant specialized in extracting structured data from invoice PDFs.
+The text below is ${start === end ? `page ${start}` : `pages ${start}-${end}`} of a ${pageCount}-page invoice. Extract the line items printed on these pages and return them as a valid JSON object.
+
+PDF Text:
+${text}
+${this.formatTables(tables)}${notes}
+Please extract and return ONLY a JSON object with this exact structure:
+{
+  "lineItems": [
+${LINE_ITEM_FIELDS}
+  ],
+  "confidence": {
+    "<field path>": "number between 0 and 1 (optional)"
+  }
+}
+
+LINE ITEM EXTRACTION:
+${LINE_ITEM_RULES}
+- Only return rows printed on these pages; skip "carried forward" / "brought forward" running totals, subtotals, taxes and totals
+- Return "lineItems": [] if these pages hold no line items
+- Key "confidence" by paths such as "invoice.lineItems.0.unitPrice", counting from 0 at the first line item on these pages
+
+CRITICAL INSTRUCTIONS:
+- Return ONLY the JSON object, no markdown formatting, no code blocks
+- Do NOT wrap the response in \`\`\`json or \`\`\`
+- For numbers, use actual numbers, not strings
+- The response must be valid JSON that can be parsed directly
+`;
   }
 
-  private createExtractionPrompt(pdfText: string): string {
+  private createExtractionPrompt(
+    pdfText: string,
+    corrections: FieldCorrection[] = [],
+    tables: LayoutTable[] = [],
+    notes = ''
+  ): string {
     return `
 You are an AI assistant specialized in extracting structured data from invoice PDFs. 
 Extract the following information from the provided PDF text and return it as a valid JSON object.
 
 PDF Text:
 ${pdfText}
-
+${this.formatTables(tables)}${notes}
 Please extract and return ONLY a JSON object with this exact structure:
 {
   "vendor": {
@@ -145,33 +592,79 @@ Please extract and return ONLY a JSON object with this exact structure:
     "address": "string (optional)",
     "taxId": "string (optional)"
   },
+  "buyer": {
+    "name": "string (required if a buyer is printed)",
+    "address": "string (optional)",
+    "taxId": "string (optional - buyer's GSTIN / VAT number)"
+  },
+  "shipTo": {
+    "name": "string (required if a ship-to party is printed)",
+    "address": "string (optional)",
+    "taxId": "string (optional)"
+  },
   "invoice": {
     "number": "string (required)",
     "date": "string (required, format: YYYY-MM-DD)",
-    "currency": "string (optional, default: USD - look for currency symbols ₹, $, €, £, ¥ or codes INR, USD, EUR, GBP, JPY)",
+    "currency": "string (optional - ISO 4217 code such as INR, USD, EUR, or the symbol as printed)",
     "subtotal": "number (optional)",
-    "taxPercent": "number (optional - look for IGST rate, GST rate, tax percentage, or similar)",
+    "taxPercent": "number (optional - combined rate of all taxes charged, e.g. 18 for CGST 9% + SGST 9%)",
+    "taxes": [
+      {
+        "type": "CGST | SGST | UTGST | IGST | CESS | GST | VAT | SALES_TAX | WITHHOLDING | OTHER",
+        "rate": "number (optional, percent)",
+        "taxableAmount": "number (optional - amount the rate applies to, if not the subtotal)",
+        "amount": "number (optional - tax amount as printed)"
+      }
+    ],
+    "reverseCharge": "boolean (optional - true if tax is payable by the recipient under reverse charge)",
     "total": "number (optional)",
+    "amountInWords": "string (optional - the total written in words, as printed, e.g. Rupees Twelve Thousand Only)",
     "poNumber": "string (optional - look for PO No, Purchase Order No, P.O. No)",
     "poDate": "string (optional, format: YYYY-MM-DD - look for PO Date, Purchase Order Date, P.O. Date)",
+    "paymentTerms": "string (optional - payment terms as printed, e.g. Net 30 days, Due on receipt)",
+    "dueDate": "string (optional, format: YYYY-MM-DD - only if the invoice states a due date)",
+    "remittance": {
+      "bankName": "string (optional)",
+      "accountName": "string (optional - beneficiary / account holder name)",
+      "accountNumber": "string (optional - as printed, keep leading zeros)",
+      "iban": "string (optional)",
+      "ifsc": "string (optional - Indian IFSC code, e.g. HDFC0001234)",
+      "swift": "string (optional - SWIFT/BIC code)",
+      "upiId": "string (optional - UPI ID, e.g. vendor@okhdfcbank)"
+    },
     "lineItems": [
-      {
-        "description": "string (required)",
-        "unitPrice": "number (required)",
-        "quantity": "number (required)",
-        "total": "number (required)"
-      }
+${LINE_ITEM_FIELDS}
     ]
+  },
+  "confidence": {
+    "<field path>": "number between 0 and 1 (optional)"
   }
 }
 
 IMPORTANT EXTRACTION NOTES:
 
 TAX EXTRACTION:
-- Look for "IGST rate", "GST rate", "Tax %", "Tax Rate", "VAT rate", or similar terms
-- Extract the percentage value (e.g., if you see "IGST @ 18%", extract 18)
-- If multiple tax rates are mentioned, use the main/primary rate
-- Convert percentage to decimal if needed (e.g., 18% = 18, not 0.18)
+- Return every tax line of the invoice in "taxes", one entry per tax and rate
+- Indian GST is split into CGST + SGST (or UTGST) within a state, or charged as IGST between states; list each part separately (e.g. "CGST @ 9%" and "SGST @ 9%" are two entries)
+- Invoices with several VAT rates have one entry per rate, with the amount each rate applies to in "taxableAmount"
+- Withholding (TDS, withholding tax) deducted from the amount payable is an entry of type WITHHOLDING
+- Rates are percentages (e.g., "IGST @ 18%" is 18, not 0.18)
+- Set "reverseCharge" to true only if the invoice says tax is payable under reverse charge ("Reverse charge: Yes", "Reverse charge applies", "Steuerschuldnerschaft des Leistungsempfängers"); "reverse charge - No" means false
+
+LINE ITEM EXTRACTION:
+${LINE_ITEM_RULES}
+
+BUYER AND SHIP-TO EXTRACTION:
+- "vendor" is the party issuing the invoice ("Sold By", "Seller", the letterhead); "buyer" is the party billed ("Bill To", "Billing Address", "Buyer", "Customer", "Sold To")
+- "shipTo" is the delivery party ("Ship To", "Shipping Address", "Consignee", "Deliver To"); include it even when it repeats the buyer
+- Use the first line of each block as the name and the remaining lines as the address; put a GSTIN, VAT or tax number in "taxId", not in the address
+- Omit "buyer" or "shipTo" if the invoice does not show them
+
+PAYMENT EXTRACTION:
+- Copy the payment terms as printed ("Net 30 days", "Payable within 15 days", "Due on receipt") into "paymentTerms"
+- Only return "dueDate" when a due date or "pay by" date is printed; do not compute it from the terms
+- Put the bank details printed for payment ("Bank Details", "Remittance", "Pay to") in "remittance"; omit "remittance" if there are none
+- Copy account numbers, IBANs, IFSC and SWIFT codes character by character - do not guess characters that are unreadable
 
 PURCHASE ORDER (PO) EXTRACTION:
 - Look for "PO Date", "Purchase Order Date", "P.O. Date", "Order Date", "PO No", "Purchase Order No", "P.O. No"
@@ -179,16 +672,17 @@ PURCHASE ORDER (PO) EXTRACTION:
 - For dates, convert to YYYY-MM-DD format
 - Look for patterns like "PO: 12345" or "Purchase Order: ABC-2024-001"
 
-       CURRENCY EXTRACTION:
-       - Look for currency symbols like "₹", "$", "€", "£", "¥", "INR", "USD", "EUR", "GBP", "JPY"
-       - Look for text like "Currency:", "Amount in:", "Total in:", "INR", "USD", "EUR", "GBP"
-       - Extract the currency code (e.g., INR, USD, EUR) or symbol
-       - If you see "₹" symbol or "INR" mentioned, use "INR"
-       - If you see "$" symbol or "USD" mentioned, use "USD"
-       - If no currency is found, use "INR" (default for Indian invoices)
-       - Common patterns: "₹ 1000", "$1000", "INR 1000", "Amount in USD"
-       - NEVER return null for currency - always provide a valid currency code
+CURRENCY EXTRACTION:
+- Return the ISO 4217 code when the invoice names one ("INR", "Currency: EUR", "Amount in USD", "Indian Rupees" is INR)
+- When only a symbol is printed, return the symbol itself ("$", "kr", "¥", "Rs.") - it is resolved using the vendor's country, since "$" alone may be USD, CAD or AUD
+- Omit "currency" if the invoice shows neither
+- Copy the total in words ("Amount in words", "Amount Chargeable (in words)", "... Only") into "amountInWords", without its label
 
+CONFIDENCE:
+- In "confidence", report how sure you are of each value you extracted, keyed by field path
+- Use dotted paths with zero-based line item indexes, e.g. "vendor.name", "invoice.total", "invoice.lineItems.0.unitPrice"
+- Use values near 1 for values printed clearly in the text, lower values for inferred or computed ones
+${this.formatCorrections(corrections)}
 CRITICAL INSTRUCTIONS:
 - Return ONLY the JSON object, no markdown formatting, no code blocks
 - Do NOT wrap the response in \`\`\`json or \`\`\`
@@ -201,67 +695,4 @@ CRITICAL INSTRUCTIONS:
 `;
   }
 
-  private async extractWithGemini(prompt: string): Promise<string> {
-    const model = this.gemini.getGenerativeModel({ model: 'gemini-1.5-flash' });
-    
-    try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
-    } catch (error: any) {
-      // Handle quota exceeded errors specifically
-      if (error.message && error.message.includes('429 Too Many Requests')) {
-        const quotaError = new Error('Gemini API quota exceeded. You have reached the free tier limit of 50 requests per day. Please try again tomorrow or upgrade to a paid plan.');
-        quotaError.name = 'QuotaExceededError';
-        throw quotaError;
-      }
-      
-      // Handle other API errors
-      if (error.message && error.message.includes('API key')) {
-        throw new Error('Invalid or missing Gemini API key. Please check your GEMINI_API_KEY environment variable.');
-      }
-      
-      // Re-throw other errors
-      throw error;
-    }
-  }
-
-  private createTextHash(text: string): string {
-    // Simple hash function for caching
-    let hash = 0;
-    for (let i = 0; i < text.length; i++) {
-      const char = text.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash.toString();
-  }
-
-  private getFallbackData(): ExtractedData {
-    // Return a basic structure when quota is exceeded
-    return {
-      vendor: {
-        name: "Vendor Name (Quota Exceeded)",
-        address: "Please try again tomorrow or upgrade your API plan",
-        taxId: ""
-      },
-      invoice: {
-        number: "INV-QUOTA-EXCEEDED",
-        date: new Date().toISOString().split('T')[0],
-        currency: "INR",
-        subtotal: 0,
-        taxPercent: 18,
-        total: 0,
-        poNumber: "",
-        poDate: new Date().toISOString().split('T')[0],
-        lineItems: [{
-          description: "API quota exceeded - please try again tomorrow",
-          unitPrice: 0,
-          quantity: 1,
-          total: 0
-        }]
-      }
-    };
-  }
-
-}
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+// Where and how to pay an invoice, as printed on it
+export interface Remittance {
+  bankName?: string;
+  accountName?: string;   // Beneficiary
+  accountNumber?: string;
+  iban?: string;
+  ifsc?: string;          // Indian bank branch code
+  swift?: string;         // SWIFT/BIC
+  upiId?: string;         // e.g. "vendor@okhdfcbank"
+}
+
+// IBAN lengths of common countries; others are accepted at any length from 15 to 34
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BE: 16, BG: 22, BH: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18,
+  EE: 20, ES: 24, FI: 18, FR: 27, GB: 22, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26, IT: 27,
+  LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25, QA: 29,
+  RO: 24, SA: 24, SE: 24, SI: 19, SK: 24, SM: 27, TR: 26
+};
+
+const IFSC = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const SWIFT = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/;
+const UPI_ID = /^[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}$/i;
+
+const compact = (value: string) => value.replace(/[\s-]+/g, '').toUpperCase();
+
+/**
+ * Format checks for bank details, so a misread account is caught before a payment is scheduled
+ */
+export class BankDetails {
+  /**
+   * ISO 13616: country code, check digits and a country-specific length, with the
+   * mod-97 checksum. Spaces and lowercase are accepted.
+   */
+  static isValidIban(value: string): boolean {
+    const iban = compact(value);
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+      return false;
+    }
+
+    const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+    if (expectedLength !== undefined && iban.length !== expectedLength) {
+      return false;
+    }
+
+    // Move the first four characters to the end and read letters as 10..35
+    const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+    let remainder = 0;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+    return remainder === 1;
+  }
+
+  // Four letters for the bank, a zero, then six characters for the branch
+  static isValidIfsc(value: string): boolean {
+    return IFSC.test(compact(value));
+  }
+
+  static isValidSwift(value: string): boolean {
+    return SWIFT.test(compact(value));
+  }
+
+  static isValidUpiId(value: string): boolean {
+    return UPI_ID.test(value.trim());
+  }
+
+  /**
+   * Codes in their canonical form: IBANs, IFSC and SWIFT codes uppercase without spaces
+   */
+  static normalize(remittance: Remittance): Remittance {
+    const normalized = { ...remittance };
+    for (const field of ['iban', 'ifsc', 'swift'] as const) {
+      if (normalized[field]) {
+        normalized[field] = compact(normalized[field]!);
+      }
+    }
+    if (normalized.upiId) {
+      normalized.upiId = normalized.upiId.trim();
+    }
+    return normalized;
+  }
+
+  /**
+   * Field paths (e.g. "invoice.remittance.iban") of codes that are present but malformed
+   */
+  static invalidFields(remittance: Remittance | undefined): string[] {
+    if (!remittance) {
+      return [];
+    }
+
+    const checks: Array<[keyof Remittance, (value: string) => boolean]> = [
+      ['iban', value => this.isValidIban(value)],
+      ['ifsc', value => this.isValidIfsc(value)],
+      ['swift', value => this.isValidSwift(value)],
+      ['upiId', value => this.isValidUpiId(value)]
+    ];
+    return checks
+      .filter(([field, isValid]) => remittance[field] && !isValid(remittance[field]!))
+      .map(([field]) => `invoice.remittance.${field}`);
+  }
+}
@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { UploadService, type PdfFile } from './uploadService.js';
+import { ExtractionJobQueue } from './extractionJobQueue.js';
+import type { JobError, JobStatus } from '../models/ExtractionJob.js';
+
+// 'rejected' files could not be read or stored, so no extraction job exists for them
+export type BatchFileStatus = JobStatus | 'rejected';
+
+export interface BatchFile {
+  fileName: string;
+  status: BatchFileStatus;
+  fileId?: string;
+  fileUrl?: string;
+  jobId?: string;
+  error?: JobError;
+}
+
+export interface BatchReport {
+  batchId: string;
+  files: BatchFile[];
+}
+
+/**
+ * Batch uploads: every PDF (including those inside ZIP archives) is stored and queued
+ * for background extraction; progress is read back from the extraction jobs.
+ */
+export class BatchService {
+  static async submit(files: Express.Multer.File[], provider?: string): Promise<BatchReport> {
+    const batchId = uuidv4();
+    const report: BatchFile[] = [];
+
+    // The files wait on disk; only one of them (or the PDFs of one archive) is in memory at a time
+    for (const file of files) {
+      let data: Buffer;
+      try {
+        data = await fs.readFile(file.path);
+      } catch (error) {
+        report.push(this.rejected(file.originalname, 'UploadError', error));
+        continue;
+      }
+
+      let pdfs: PdfFile[];
+      try {
+        pdfs = UploadService.isZipFile(file)
+          ? UploadService.extractPdfsFromZip(data)
+          : [{ originalname: file.originalname, buffer: data }];
+      } catch (error) {
+        report.push(this.rejected(file.originalname, 'InvalidArchiveError', error));
+        continue;
+      }
+
+      if (pdfs.length === 0) {
+        report.push(this.rejected(file.originalname, 'InvalidArchiveError', new Error('The archive contains no PDF files')));
+        continue;
+      }
+
+      for (const pdf of pdfs) {
+        try {
+          const { fileId, fileName, fileUrl } = await UploadService.saveFile(pdf);
+          const job = await ExtractionJobQueue.enqueue({ fileId, fileUrl, provider }, { batchId, fileName });
+          report.push({ fileName, status: job.status, fileId, fileUrl, jobId: job.id });
+        } catch (error) {
+          report.push(this.rejected(pdf.originalname, 'UploadError', error));
+        }
+      }
+    }
+
+    console.log(`📦 Batch ${batchId}: queued ${report.filter(file => file.jobId).length} of ${report.length} files`);
+    return { batchId, files: report };
+  }
+
+  // Current status of every queued file in a batch (rejected files are only in the submit report)
+  static async getStatus(batchId: string): Promise<BatchReport> {
+    const jobs = await ExtractionJobQueue.findByBatch(batchId);
+    return {
+      batchId,
+      files: jobs.map(job => ({
+        fileName: job.fileName || job.request.fileId,
+        status: job.status,
+        fileId: job.request.fileId,
+        fileUrl: job.request.fileUrl,
+        jobId: job.id,
+        error: job.error
+      }))
+    };
+  }
+
+  private static rejected(fileName: string, name: string, error: unknown): BatchFile {
+    return {
+      fileName,
+      status: 'rejected',
+      error: { name, message: error instanceof Error ? error.message : 'Unknown error' }
+    };
+  }
+}
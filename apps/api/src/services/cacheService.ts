@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { ExtractionCache } from '../models/ExtractionCache.js';
+import type { ExtractionResult } from './aiService.js';
+import { StoredResult } from './storedResult.js';
+
+export interface CacheKey {
+  pdfHash: string;
+  pages: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  promptContext?: string; // Fingerprint of vendor corrections added to the prompt
+}
+
+export interface CacheFilter {
+  pdfHash?: string;
+  fileId?: string;
+  provider?: string;
+}
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export class CacheService {
+  /**
+   * The cache lives in MongoDB; without a connection every lookup is a miss
+   */
+  static isEnabled(): boolean {
+    return process.env.EXTRACTION_CACHE_ENABLED !== 'false' && mongoose.connection.readyState === 1;
+  }
+
+  static hashPdf(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+  }
+
+  static async get(key: CacheKey): Promise<ExtractionResult | null> {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    try {
+      // Expired entries are removed by a TTL index, which only runs once a minute
+      const entry = await ExtractionCache.findOne({ key: this.digest(key), expiresAt: { $gt: new Date() } }).lean();
+      return entry ? StoredResult.decode<ExtractionResult>(entry.result) : null;
+    } catch (error) {
+      console.warn('⚠️ Extraction cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  static async set(key: CacheKey, result: ExtractionResult, fileId?: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await ExtractionCache.updateOne(
+        { key: this.digest(key) },
+        {
+          pdfHash: key.pdfHash,
+          pages: key.pages,
+          provider: key.provider,
+          providerModel: key.model,
+          promptVersion: key.promptVersion,
+          fileId,
+          result: StoredResult.encode(result),
+          createdAt: new Date(),
+          expiresAt: new Date(Date.now() + this.getTtlHours() * 60 * 60 * 1000)
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to store extraction result in cache:', error);
+    }
+  }
+
+  /**
+   * Remove cached results matching the filter (all of them when it is empty).
+   * Returns the number of entries removed.
+   */
+  static async invalidate(filter: CacheFilter): Promise<number> {
+    if (mongoose.connection.readyState !== 1) {
+      throw new Error('Database is not connected');
+    }
+
+    const query = Object.fromEntries(Object.entries(filter).filter(([, value]) => value));
+    const { deletedCount } = await ExtractionCache.deleteMany(query);
+    return deletedCount;
+  }
+
+  private static getTtlHours(): number {
+    return parseFloat(process.env.EXTRACTION_CACHE_TTL_HOURS || '') || DEFAULT_TTL_HOURS;
+  }
+
+  private static digest(key: CacheKey): string {
+    return crypto
+      .createHash('sha256')
+      .update([key.pdfHash, key.pages, key.provider, key.model, key.promptVersion, ...(key.promptContext ? [key.promptContext] : [])].join('\n'))
+      .digest('hex');
+  }
+}
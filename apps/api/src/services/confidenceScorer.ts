@@ -0,0 +1,122 @@
+import { HeuristicExtractor } from './heuristicExtractor.js';
+
+export type FieldSource = 'model' | 'heuristic' | 'default';
+
+export interface FieldConfidence {
+  score: number; // 0..1
+  source: FieldSource;
+}
+
+// Keyed by field path, e.g. "vendor.name" or "invoice.lineItems.0.total"
+export type ConfidenceMap = Record<string, FieldConfidence>;
+
+export interface ScoreInput {
+  data: object;                        // Validated extraction result
+  raw: unknown;                        // Provider output before defaults were applied
+  reported?: Record<string, unknown>;  // Provider's own per-field confidence, if any
+  source: Exclude<FieldSource, 'default'>;
+  pdfText: string;
+}
+
+const DEFAULT_SCORE = 0.2;
+const UNREPORTED_SCORE = 0.8;
+const UNGROUNDED_PENALTY = 0.5;
+
+export class ConfidenceScorer {
+  /**
+   * Score every leaf field of the extracted data. A field starts from the provider's
+   * reported confidence, and is penalised when its value cannot be found in the PDF text.
+   * Fields the provider did not return (filled by schema defaults) are marked as "default".
+   */
+  static score({ data, raw, reported = {}, source, pdfText }: ScoreInput): ConfidenceMap {
+    const rawFields = this.flatten(raw);
+    const evidence = this.collectEvidence(pdfText);
+    const confidence: ConfidenceMap = {};
+
+    for (const [path, value] of Object.entries(this.flatten(data))) {
+      if (this.isEmpty(value) || this.isEmpty(rawFields[path])) {
+        confidence[path] = { score: this.isEmpty(value) ? 0 : DEFAULT_SCORE, source: 'default' };
+        continue;
+      }
+
+      const reportedScore = typeof reported[path] === 'number' ? this.clamp(reported[path] as number) : UNREPORTED_SCORE;
+      const grounded = this.isGrounded(value, evidence);
+      confidence[path] = {
+        score: this.round(grounded ? reportedScore : reportedScore * UNGROUNDED_PENALTY),
+        source
+      };
+    }
+
+    return confidence;
+  }
+
+  /**
+   * Flatten nested objects/arrays into dotted paths, keeping only leaf values
+   */
+  static flatten(value: unknown, prefix = ''): Record<string, unknown> {
+    if (value === null || typeof value !== 'object') {
+      return prefix ? { [prefix]: value } : {};
+    }
+
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item] as const)
+      : Object.entries(value);
+
+    return entries.reduce<Record<string, unknown>>((fields, [key, item]) => ({
+      ...fields,
+      ...this.flatten(item, prefix ? `${prefix}.${key}` : key)
+    }), {});
+  }
+
+  private static collectEvidence(pdfText: string) {
+    const text = pdfText.toLowerCase().replace(/\s+/g, ' ');
+    const numbers = new Set<number>();
+    const dates = new Set<string>();
+
+    for (const token of text.match(/-?\d[\d,]*(?:\.\d+)?/g) || []) {
+      numbers.add(this.round(HeuristicExtractor.parseAmount(token)));
+    }
+
+    for (const token of text.match(/\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}|\d{1,2}(?:st|nd|rd|th)?[\s-]+[a-z]{3,}\.?,?[\s-]+\d{2,4}|[a-z]{3,}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4}/g) || []) {
+      // Either reading of 04/03/2024: the normalizer may have picked month first
+      for (const date of [HeuristicExtractor.parseDate(token), HeuristicExtractor.parseDate(token, 'MDY')]) {
+        if (date) {
+          dates.add(date);
+        }
+      }
+    }
+
+    // Codes stored without their spaces, such as IBANs printed in groups of four
+    const compact = text.replace(/ /g, '');
+
+    return { text, compact, numbers, dates };
+  }
+
+  private static isGrounded(value: unknown, evidence: ReturnType<typeof ConfidenceScorer.collectEvidence>): boolean {
+    if (typeof value === 'number') {
+      return evidence.numbers.has(this.round(value));
+    }
+    // Flags such as reverseCharge are read from wording, not printed as values
+    if (typeof value === 'boolean') {
+      return true;
+    }
+
+    const normalised = String(value).toLowerCase().replace(/\s+/g, ' ').trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(normalised) && evidence.dates.has(normalised)) {
+      return true;
+    }
+    return evidence.text.includes(normalised) || (!normalised.includes(' ') && evidence.compact.includes(normalised));
+  }
+
+  private static isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+  }
+
+  private static clamp(score: number): number {
+    return Math.min(1, Math.max(0, score));
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
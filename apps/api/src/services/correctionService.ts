@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { VendorCorrection, type FieldCorrection } from '../models/VendorCorrection.js';
+
+// Extracted and saved invoice data share this shape
+export interface CorrectableInvoice {
+  vendor: { name: string; address?: string; taxId?: string };
+  buyer?: { name: string; address?: string; taxId?: string };
+  shipTo?: { name: string; address?: string; taxId?: string };
+  invoice: { lineItems: unknown[] } & Record<string, unknown>;
+}
+
+export interface CorrectionEntry {
+  invoiceId: string;
+  fileId: string;
+  provider?: string;
+  model?: string;
+  extracted: CorrectableInvoice;
+  saved: CorrectableInvoice;
+}
+
+type FieldValue = string | number | undefined;
+
+// Corrections included in one prompt
+const MAX_PROMPT_CORRECTIONS = 10;
+// Saved invoices looked at per vendor, newest first
+const MAX_RECORDS = 20;
+// Shorter vendor names match too much unrelated text
+const MIN_NAME_LENGTH = 4;
+// Amounts are compared to the cent
+const AMOUNT_TOLERANCE = 0.005;
+// Known vendor tax IDs and names are reloaded at most this often (and after every recorded correction)
+const VENDOR_KEYS_TTL_MS = 5 * 60 * 1000;
+
+// Fields that stay the same across a vendor's invoices. Numbers, dates and totals differ per
+// invoice, so a correction to them says nothing about the next one.
+const VENDOR_FIELDS = new Set([
+  'vendor.name',
+  'vendor.address',
+  'vendor.taxId',
+  'invoice.paymentTerms',
+  'invoice.remittance.bankName',
+  'invoice.remittance.accountName',
+  'invoice.remittance.accountNumber',
+  'invoice.remittance.iban',
+  'invoice.remittance.ifsc',
+  'invoice.remittance.swift',
+  'invoice.remittance.upiId'
+]);
+
+interface VendorKeys {
+  taxIds: string[];
+  names: string[];
+  loadedAt: number;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+const normalizeTaxId = (taxId: string) => taxId.toUpperCase().replace(/\s+/g, '');
+
+/**
+ * Remembers what reviewers changed in extracted invoices, per vendor, so later extractions
+ * of the same vendor's invoices can be told about it in the prompt.
+ */
+export class CorrectionService {
+  private static vendorKeys: VendorKeys | undefined;
+
+  static isEnabled(): boolean {
+    return process.env.VENDOR_CORRECTIONS_ENABLED !== 'false' && mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Vendor fields (name, tax ID, address, payment terms and bank details) that differ between
+   * the extracted and the saved invoice
+   */
+  static diff(extracted: CorrectableInvoice, saved: CorrectableInvoice): FieldCorrection[] {
+    const before = this.flatten(extracted);
+    const after = this.flatten(saved);
+    const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+    return paths
+      .filter(path => !this.isSame(before[path], after[path]))
+      .map(path => ({ path, extracted: before[path], corrected: after[path] }));
+  }
+
+  /**
+   * Store the reviewer's changes to an extraction. Never throws: losing a correction
+   * must not fail saving the invoice.
+   */
+  static async record(entry: CorrectionEntry): Promise<number> {
+    if (!this.isEnabled()) {
+      return 0;
+    }
+
+    const corrections = this.diff(entry.extracted, entry.saved);
+    if (corrections.length === 0) {
+      return 0;
+    }
+
+    try {
+      const { name, taxId } = entry.saved.vendor;
+      await VendorCorrection.create({
+        vendorName: name,
+        vendorNameKey: normalizeName(name),
+        vendorTaxId: taxId ? normalizeTaxId(taxId) : undefined,
+        invoiceId: entry.invoiceId,
+        fileId: entry.fileId,
+        provider: entry.provider,
+        providerModel: entry.model,
+        corrections
+      });
+      this.vendorKeys = undefined;
+      console.log(`📝 Recorded ${corrections.length} correction(s) for vendor ${name}`);
+      return corrections.length;
+    } catch (error) {
+      console.warn('⚠️ Failed to record extraction corrections:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Past corrections for the vendor of an invoice, newest first and one per field. The vendor
+   * is recognised by a known tax ID appearing in the text, or failing that a known name.
+   */
+  static async findForText(pdfText: string): Promise<FieldCorrection[]> {
+    if (!this.isEnabled()) {
+      return [];
+    }
+
+    try {
+      const known = await this.knownVendors();
+      const compactText = normalizeTaxId(pdfText);
+      const taxIds = known.taxIds.filter(taxId => compactText.includes(taxId));
+
+      let filter: Record<string, unknown>;
+      if (taxIds.length > 0) {
+        filter = { vendorTaxId: { $in: taxIds } };
+      } else {
+        const nameText = normalizeName(pdfText);
+        const names = known.names.filter(name => nameText.includes(name));
+        if (names.length === 0) {
+          return [];
+        }
+        filter = { vendorNameKey: { $in: names } };
+      }
+
+      const records = await VendorCorrection.find(filter).sort({ createdAt: -1 }).limit(MAX_RECORDS).lean();
+
+      // The newest correction of each field wins. Records from before corrections were limited
+      // to vendor fields may hold others, which are left out.
+      const byPath = new Map<string, FieldCorrection>();
+      for (const record of records) {
+        for (const { path, extracted, corrected } of record.corrections) {
+          if (VENDOR_FIELDS.has(path) && !byPath.has(path)) {
+            byPath.set(path, { path, extracted, corrected });
+          }
+        }
+      }
+      return [...byPath.values()].slice(0, MAX_PROMPT_CORRECTIONS);
+    } catch (error) {
+      console.warn('⚠️ Failed to look up vendor corrections:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Identifies a set of corrections, so extractions prompted with them are cached separately
+   */
+  static fingerprint(corrections: FieldCorrection[]): string | undefined {
+    if (corrections.length === 0) {
+      return undefined;
+    }
+    return crypto.createHash('sha256').update(JSON.stringify(corrections)).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Tax IDs and names of vendors with corrections, read with distinct() once per
+   * VENDOR_KEYS_TTL_MS rather than on every extraction
+   */
+  private static async knownVendors(): Promise<VendorKeys> {
+    if (this.vendorKeys && Date.now() - this.vendorKeys.loadedAt < VENDOR_KEYS_TTL_MS) {
+      return this.vendorKeys;
+    }
+
+    const [taxIds, names] = await Promise.all([
+      VendorCorrection.distinct('vendorTaxId') as Promise<unknown[]>,
+      VendorCorrection.distinct('vendorNameKey') as Promise<unknown[]>
+    ]);
+    const isKey = (value: unknown, minLength: number): value is string => typeof value === 'string' && value.length >= minLength;
+    this.vendorKeys = {
+      taxIds: taxIds.filter((taxId): taxId is string => isKey(taxId, 1)),
+      names: names.filter((name): name is string => isKey(name, MIN_NAME_LENGTH)),
+      loadedAt: Date.now()
+    };
+    return this.vendorKeys;
+  }
+
+  private static flatten({ vendor, invoice }: CorrectableInvoice): Record<string, FieldValue> {
+    const fields: Record<string, FieldValue> = {};
+    const add = (prefix: string, values: object | undefined) => {
+      for (const [key, value] of Object.entries(values ?? {})) {
+        if (VENDOR_FIELDS.has(`${prefix}.${key}`)) {
+          fields[`${prefix}.${key}`] = this.toFieldValue(value);
+        }
+      }
+    };
+
+    add('vendor', vendor);
+    add('invoice', invoice);
+    const { remittance } = invoice;
+    add('invoice.remittance', remittance && typeof remittance === 'object' ? remittance : undefined);
+    return fields;
+  }
+
+  private static toFieldValue(value: unknown): FieldValue {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+    return undefined;
+  }
+
+  private static isSame(a: FieldValue, b: FieldValue): boolean {
+    if (typeof a === 'number' && typeof b === 'number') {
+      return Math.abs(a - b) < AMOUNT_TOLERANCE;
+    }
+    return a === b;
+  }
+}
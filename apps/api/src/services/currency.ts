@@ -0,0 +1,152 @@
+import { Currency as CurrencyRules } from 'invoice-rules';
+
+/**
+ * Currency codes, symbols and amounts written in words. Every currency is stored as its
+ * ISO 4217 code; symbols shared by several currencies ("$", "kr") are settled by the
+ * vendor's country.
+ */
+
+export { DEFAULT_CURRENCY } from 'invoice-rules';
+
+// Symbols and names as printed, uppercased; the first code is read when nothing settles it
+const ALIASES: Record<string, string[]> = {
+  '₹': ['INR'], 'RS': ['INR'], 'RS.': ['INR'], 'RUPEE': ['INR'], 'RUPEES': ['INR'], 'INDIAN RUPEES': ['INR'],
+  '$': ['USD', 'CAD', 'AUD', 'NZD', 'SGD', 'HKD', 'MXN'],
+  'DOLLAR': ['USD', 'CAD', 'AUD', 'NZD', 'SGD', 'HKD'], 'DOLLARS': ['USD', 'CAD', 'AUD', 'NZD', 'SGD', 'HKD'],
+  'US$': ['USD'], 'US DOLLAR': ['USD'], 'US DOLLARS': ['USD'],
+  'C$': ['CAD'], 'CA$': ['CAD'], 'A$': ['AUD'], 'AU$': ['AUD'], 'NZ$': ['NZD'], 'S$': ['SGD'],
+  'HK$': ['HKD'], 'MX$': ['MXN'], 'R$': ['BRL'],
+  '€': ['EUR'], 'EURO': ['EUR'], 'EUROS': ['EUR'],
+  '£': ['GBP'], 'POUND': ['GBP'], 'POUNDS': ['GBP'], 'POUNDS STERLING': ['GBP'],
+  '¥': ['JPY', 'CNY'], 'YEN': ['JPY'], '元': ['CNY'], 'YUAN': ['CNY'], 'RMB': ['CNY'],
+  'KR': ['SEK', 'NOK', 'DKK', 'ISK'], 'KR.': ['DKK', 'SEK', 'NOK', 'ISK'],
+  'FR.': ['CHF'], 'ZŁ': ['PLN'], 'KČ': ['CZK'], 'FT': ['HUF'], 'LEI': ['RON'],
+  '₩': ['KRW'], '₽': ['RUB'], '₺': ['TRY'], '₱': ['PHP'], '₫': ['VND'], '฿': ['THB'], '₪': ['ILS'],
+  'RM': ['MYR'], 'RP': ['IDR'], 'R': ['ZAR'], 'DH': ['AED'], 'DHS': ['AED'], 'DIRHAM': ['AED'], 'DIRHAMS': ['AED']
+};
+
+// The currency of each country; eurozone members list Germany first as the usual example
+const COUNTRY_CURRENCY: Record<string, string> = {
+  IN: 'INR', US: 'USD', CA: 'CAD', AU: 'AUD', NZ: 'NZD', SG: 'SGD', HK: 'HKD', MX: 'MXN', BR: 'BRL',
+  GB: 'GBP', CH: 'CHF', SE: 'SEK', NO: 'NOK', DK: 'DKK', IS: 'ISK', PL: 'PLN', CZ: 'CZK', HU: 'HUF',
+  RO: 'RON', JP: 'JPY', CN: 'CNY', KR: 'KRW', RU: 'RUB', TR: 'TRY', PH: 'PHP', VN: 'VND',
+  TH: 'THB', IL: 'ILS', MY: 'MYR', ID: 'IDR', ZA: 'ZAR', AE: 'AED', SA: 'SAR',
+  DE: 'EUR', AT: 'EUR', BE: 'EUR', BG: 'EUR', CY: 'EUR', EE: 'EUR', ES: 'EUR', FI: 'EUR', FR: 'EUR', GR: 'EUR',
+  HR: 'EUR', IE: 'EUR', IT: 'EUR', LT: 'EUR', LU: 'EUR', LV: 'EUR', MT: 'EUR', NL: 'EUR', PT: 'EUR',
+  SI: 'EUR', SK: 'EUR'
+};
+
+// Symbols looked for in the text, "US$" before "$" so the longer one wins
+const TEXT_SYMBOLS = [
+  'US$', 'CA$', 'AU$', 'NZ$', 'HK$', 'MX$', 'C$', 'A$', 'S$', 'R$', 'Rs.', 'Rs', 'zł', 'Kč', 'kr', 'RM', 'Rp',
+  '₹', '€', '£', '¥', '元', '₩', '₽', '₺', '₱', '₫', '฿', '₪', '$'
+];
+
+// Codes common enough on invoices to be read anywhere in the text; others must stand next to an amount
+const COMMON_CODES = /\b(INR|USD|EUR|GBP|JPY|AUD|CAD|SGD|AED|CHF|CNY)\b/;
+const CODE_BY_AMOUNT = /\b([A-Z]{3})\s?\d|\d\s?([A-Z]{3})\b/g;
+const LABELLED_CODE = /(?:currency|amount\s+in|total\s+in|all\s+amounts\s+in)\s*[:-]?\s*([A-Z]{3})\b/i;
+
+// "Amount in words: ...", "Total (in words) - ...", "Amount Chargeable (in words)"
+const IN_WORDS_LABEL = /\bin\s+words\)?\s*[:-]?\s*(.*)$/i;
+// "Rupees Twelve Thousand Only", "INR One Lakh Only"
+const ONLY_PHRASE = /\bonly\.?$/i;
+
+export interface CurrencyMatch {
+  code: string;
+  printed: string;         // The code, symbol or name as written
+  candidates: string[];    // Every currency the printed form could mean
+  ambiguous: boolean;      // Several candidates and nothing to choose between them
+}
+
+export interface AmountInWords {
+  text: string;   // As printed, without its label
+  amount: number;
+}
+
+// Code checks and amounts in words come from the rules shared with the web form
+export class Currency extends CurrencyRules {
+  static forCountry(country: string | undefined): string | undefined {
+    return country ? COUNTRY_CURRENCY[country] : undefined;
+  }
+
+  // A country using the currency, for its date and number conventions
+  static countryOf(code: string): string | undefined {
+    return Object.keys(COUNTRY_CURRENCY).find(country => COUNTRY_CURRENCY[country] === code);
+  }
+
+  /**
+   * ISO 4217 code of a code, symbol or name ("usd", "Rs.", "C$", "Euros"). Symbols shared by
+   * several currencies are read as the vendor country's currency when it is one of them.
+   */
+  static resolve(value: string, country?: string): CurrencyMatch | undefined {
+    const printed = value.trim();
+    const upper = printed.toUpperCase();
+    if (this.isValid(upper)) {
+      return { code: upper, printed, candidates: [upper], ambiguous: false };
+    }
+
+    const candidates = ALIASES[upper.replace(/\s+/g, ' ')];
+    if (!candidates) {
+      return undefined;
+    }
+    const local = this.forCountry(country);
+    if (candidates.length === 1 || (local && candidates.includes(local))) {
+      return { code: candidates.length === 1 ? candidates[0] : local!, printed, candidates, ambiguous: false };
+    }
+    return { code: candidates[0], printed, candidates, ambiguous: true };
+  }
+
+  /**
+   * The currency the invoice text names: a labelled code, then a code by an amount, then a symbol
+   */
+  static detect(text: string, country?: string): CurrencyMatch | undefined {
+    const labelled = text.match(LABELLED_CODE);
+    if (labelled && this.isValid(labelled[1])) {
+      return this.resolve(labelled[1]);
+    }
+
+    const common = text.match(COMMON_CODES);
+    if (common) {
+      return this.resolve(common[1]);
+    }
+    for (const match of text.matchAll(CODE_BY_AMOUNT)) {
+      const code = match[1] ?? match[2];
+      if (this.isValid(code)) {
+        return this.resolve(code);
+      }
+    }
+
+    const symbol = TEXT_SYMBOLS.find(alias => this.printsSymbol(text, alias));
+    if (symbol) {
+      return this.resolve(symbol, country);
+    }
+    return /\brupees?\b/i.test(text) ? this.resolve('INR') : undefined;
+  }
+
+  /**
+   * The amount written in words on the invoice ("Rupees Twelve Thousand Only"), from a line
+   * labelled "in words" or a phrase ending in "only"
+   */
+  static findAmountInWords(text: string): AmountInWords | undefined {
+    const lines = text.split('\n').map(line => line.trim());
+    for (let i = 0; i < lines.length; i++) {
+      const label = lines[i].match(IN_WORDS_LABEL);
+      const phrase = label ? (label[1] || lines[i + 1] || '') : ONLY_PHRASE.test(lines[i]) ? lines[i] : '';
+      const amount = phrase ? this.parseAmountInWords(phrase) : undefined;
+      if (amount !== undefined && amount > 0) {
+        return { text: phrase.trim(), amount };
+      }
+    }
+    return undefined;
+  }
+
+  // Symbols made of letters ("Rs", "kr") only count as whole words before or after an amount
+  private static printsSymbol(text: string, alias: string): boolean {
+    const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (/^[a-z]/i.test(alias)) {
+      return new RegExp(String.raw`(?<![A-Za-z])${escaped}\s?\d|\d\s?${escaped}(?![A-Za-z])`, 'i').test(text);
+    }
+    return text.includes(alias);
+  }
+}
@@ -0,0 +1,119 @@
+import { PdfTextLayout, type PageLayout } from './pdfTextLayout.js';
+import type { PageRange } from './invoiceSplitter.js';
+
+/**
+ * Splits invoices too long for one prompt into page chunks that fit a token budget
+ */
+
+export interface PageChunk {
+  pageRange: PageRange;
+  pages: PageLayout[];
+  text: string;
+}
+
+export interface ChunkCoverage {
+  pageRange: PageRange;
+  lineItems: number; // Line items kept from this chunk after merging
+  error?: string;    // Why the chunk could not be extracted
+}
+
+export interface ExtractionCoverage {
+  complete: boolean;         // False when the provider returned nothing or a chunk failed
+  chunks: ChunkCoverage[];   // Empty when the invoice was extracted in one prompt
+  lineItemPages?: PageRange[]; // Pages each line item was read from, for chunked extractions
+}
+
+export interface MergedLineItem {
+  item: Record<string, unknown>;
+  pageRange: PageRange;
+  chunk: number; // Index of the chunk, and of the item within it, it came from
+  index: number;
+}
+
+// Rough token count for budgeting: about four characters per token for Latin text
+const CHARS_PER_TOKEN = 4;
+
+// PDF text tokens per prompt. Well below model context limits, so every line item
+// of a chunk also fits in the response.
+const DEFAULT_TOKEN_BUDGET = 12000;
+
+// Running totals printed where a table breaks across pages, which are not line items
+const CARRIED_FORWARD = /\b(?:carried|brought)\s+(?:forward|over)\b|\b[bc]\s*\/\s*[fo]\b/i;
+
+export class ExtractionChunker {
+  static tokenBudget(): number {
+    return parseInt(process.env.EXTRACTION_CHUNK_TOKENS || '', 10) || DEFAULT_TOKEN_BUDGET;
+  }
+
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  static needsChunking(text: string): boolean {
+    return this.estimateTokens(text) > this.tokenBudget();
+  }
+
+  /**
+   * Consecutive pages grouped while their text fits the budget. A page longer than the
+   * budget gets a chunk of its own.
+   */
+  static plan(pages: PageLayout[], budget = this.tokenBudget()): PageChunk[] {
+    const groups: PageLayout[][] = [];
+    let tokens = 0;
+    for (const page of pages) {
+      const pageTokens = this.estimateTokens(page.text);
+      const current = groups[groups.length - 1];
+      if (current && tokens + pageTokens <= budget) {
+        current.push(page);
+        tokens += pageTokens;
+      } else {
+        groups.push([page]);
+        tokens = pageTokens;
+      }
+    }
+    return groups.map(group => this.chunk(group));
+  }
+
+  /**
+   * The first and last pages, where the parties, invoice number, dates and totals are printed
+   */
+  static headerPages(pages: PageLayout[]): PageLayout[] {
+    return pages.length > 1 ? [pages[0], pages[pages.length - 1]] : pages;
+  }
+
+  /**
+   * Line items of all chunks in page order, without carried-forward rows and without a row
+   * repeated at the top of the next chunk where a table breaks across pages
+   */
+  static mergeLineItems(chunks: Array<{ pageRange: PageRange; lineItems: Array<Record<string, unknown>> }>): MergedLineItem[] {
+    const merged: MergedLineItem[] = [];
+    chunks.forEach(({ pageRange, lineItems }, chunk) => {
+      lineItems.forEach((item, index) => {
+        if (CARRIED_FORWARD.test(String(item.description ?? ''))) {
+          return;
+        }
+        const previous = merged[merged.length - 1];
+        if (index === 0 && previous && previous.chunk !== chunk && this.sameItem(previous.item, item)) {
+          return;
+        }
+        merged.push({ item, pageRange, chunk, index });
+      });
+    });
+    return merged;
+  }
+
+  private static chunk(pages: PageLayout[]): PageChunk {
+    return {
+      pageRange: { start: pages[0].pageNumber, end: pages[pages.length - 1].pageNumber },
+      pages,
+      text: PdfTextLayout.joinText(pages)
+    };
+  }
+
+  private static sameItem(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+    const key = (item: Record<string, unknown>) => [item.description, item.quantity, item.total]
+      .map(value => String(value ?? '').replace(/\s+/g, ' ').trim().toLowerCase())
+      .join('|');
+    return key(a) === key(b);
+  }
+}
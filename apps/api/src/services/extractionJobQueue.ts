@@ -0,0 +1,175 @@
+import mongoose from 'mongoose';
+import { ExtractionJob, type IExtractionJob, type JobRequest } from '../models/ExtractionJob.js';
+import { ExtractionPipeline } from './extractionPipeline.js';
+import { StoredResult } from './storedResult.js';
+
+// Errors that will fail the same way on every attempt
+const NON_RETRYABLE_ERRORS = ['NoReadableTextError', 'FileNotFoundError', 'UnknownProviderError'];
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5000;
+// A running job whose lock was not refreshed for this long belongs to a worker that died
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+// Workers refresh the lock of their running job this often, however long the extraction takes
+const LOCK_REFRESH_MS = LOCK_TIMEOUT_MS / 4;
+
+/**
+ * MongoDB-backed extraction job queue with an in-process worker. Jobs are claimed
+ * atomically, so several API instances can share the queue; each processes one job at a time.
+ */
+export class ExtractionJobQueue {
+  private static timer: NodeJS.Timeout | undefined;
+  private static draining = false;
+
+  static isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  static async enqueue(request: JobRequest, details: { batchId?: string; fileName?: string } = {}): Promise<IExtractionJob> {
+    const job = await ExtractionJob.create({
+      request,
+      ...details,
+      maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '', 10) || DEFAULT_MAX_ATTEMPTS
+    });
+
+    // Start right away instead of waiting for the next poll
+    void this.drain();
+    return job;
+  }
+
+  static async get(id: string): Promise<IExtractionJob | null> {
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+    return ExtractionJob.findById(id);
+  }
+
+  // Jobs of a batch upload in upload order, without their (large) results
+  static async findByBatch(batchId: string): Promise<IExtractionJob[]> {
+    return ExtractionJob.find({ batchId }).select('-result').sort({ createdAt: 1, _id: 1 });
+  }
+
+  /**
+   * Start polling for due jobs (new jobs and retries). Set JOBS_WORKER_ENABLED=false to
+   * only accept jobs on this instance and leave processing to others.
+   */
+  static start(): void {
+    if (this.timer || process.env.JOBS_WORKER_ENABLED === 'false') {
+      return;
+    }
+
+    const interval = parseInt(process.env.JOB_POLL_INTERVAL_MS || '', 10) || DEFAULT_POLL_INTERVAL_MS;
+    this.timer = setInterval(() => void this.drain(), interval);
+    this.timer.unref();
+    console.log(`⚙️ Extraction job worker started (polling every ${interval}ms)`);
+
+    void this.drain();
+  }
+
+  static stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Process due jobs one at a time until none are left
+  private static async drain(): Promise<void> {
+    if (this.draining || !this.isAvailable() || process.env.JOBS_WORKER_ENABLED === 'false') {
+      return;
+    }
+
+    this.draining = true;
+    try {
+      await this.releaseStaleJobs();
+      for (let job = await this.claimNext(); job; job = await this.claimNext()) {
+        await this.process(job);
+      }
+    } catch (error) {
+      console.error('❌ Extraction job worker error:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private static claimNext(): Promise<IExtractionJob | null> {
+    const now = new Date();
+    return ExtractionJob.findOneAndUpdate(
+      { status: 'queued', runAfter: { $lte: now } },
+      {
+        $set: { status: 'running', lockedAt: now },
+        $inc: { attempts: 1 },
+        $min: { startedAt: now } // Keeps the first attempt's start time
+      },
+      { sort: { runAfter: 1, createdAt: 1 }, new: true }
+    );
+  }
+
+  private static async process(job: IExtractionJob): Promise<void> {
+    console.log(`⚙️ Running extraction job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const heartbeat = setInterval(() => void this.refreshLock(job), LOCK_REFRESH_MS);
+    heartbeat.unref();
+    try {
+      const outcome = await ExtractionPipeline.run(job.request);
+      await ExtractionJob.updateOne({ _id: job._id }, {
+        $set: { status: 'succeeded', result: StoredResult.encode(ExtractionPipeline.toResponse(outcome)), finishedAt: new Date() },
+        $unset: { lockedAt: 1, error: 1 }
+      });
+      console.log(`✅ Extraction job ${job.id} succeeded`);
+    } catch (error) {
+      const jobError = {
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+
+      if (!NON_RETRYABLE_ERRORS.includes(jobError.name) && job.attempts < job.maxAttempts) {
+        // Exponential backoff: 5s, 10s, 20s, ...
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+        await ExtractionJob.updateOne({ _id: job._id }, {
+          $set: { status: 'queued', runAfter: new Date(Date.now() + delay), error: jobError },
+          $unset: { lockedAt: 1 }
+        });
+        console.warn(`⚠️ Extraction job ${job.id} failed, retrying in ${delay / 1000}s:`, jobError.message);
+        return;
+      }
+
+      await ExtractionJob.updateOne({ _id: job._id }, {
+        $set: { status: 'failed', error: jobError, finishedAt: new Date() },
+        $unset: { lockedAt: 1 }
+      });
+      console.error(`❌ Extraction job ${job.id} failed:`, jobError.message);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Keeps a long extraction (e.g. a chunked one) from being taken for a dead worker's and run twice
+  private static async refreshLock(job: IExtractionJob): Promise<void> {
+    try {
+      await ExtractionJob.updateOne({ _id: job._id, status: 'running' }, { $set: { lockedAt: new Date() } });
+    } catch (error) {
+      console.warn(`⚠️ Failed to refresh the lock of extraction job ${job.id}:`, error);
+    }
+  }
+
+  private static async releaseStaleJobs(): Promise<void> {
+    const now = new Date();
+    const stale = { status: 'running', lockedAt: { $lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } };
+
+    await ExtractionJob.updateMany(
+      { ...stale, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+      { $set: { status: 'queued', runAfter: now }, $unset: { lockedAt: 1 } }
+    );
+    await ExtractionJob.updateMany(
+      stale,
+      {
+        $set: {
+          status: 'failed',
+          finishedAt: now,
+          error: { name: 'JobTimeoutError', message: 'The worker processing this job stopped responding' }
+        },
+        $unset: { lockedAt: 1 }
+      }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { AIService, type ExtractionResult } from './aiService.js';
+import { UploadService } from './uploadService.js';
+import { PdfTextLayout } from './pdfTextLayout.js';
+import { OcrService, type OcrReport } from './ocrService.js';
+import { InvoiceSplitter, type PageRange } from './invoiceSplitter.js';
+import { ProvenanceLocator, type ProvenanceMap } from './provenanceLocator.js';
+import { TableLayout } from './tableLayout.js';
+import { CacheService } from './cacheService.js';
+import type { PartialExtraction } from './partialExtraction.js';
+
+export interface ExtractionRequest {
+  fileId: string;
+  fileUrl?: string;  // URL returned by the upload, fetched when the configured storage does not have the file
+  provider?: string; // Defaults to EXTRACTION_PROVIDER
+  refresh?: boolean; // Skip the extraction cache
+}
+
+export interface ExtractedInvoice extends Omit<ExtractionResult, 'cached'> {
+  pageRange: PageRange;
+  provenance: ProvenanceMap;
+  cached: boolean;
+}
+
+export interface ExtractionOutcome {
+  invoices: ExtractedInvoice[];
+  ocr: OcrReport | null;
+}
+
+export type ExtractionStage = 'fetching' | 'parsing' | 'ocr' | 'extracting';
+
+// Reported while an extraction runs; invoiceIndex counts the invoices found in the PDF
+export type ExtractionProgress =
+  | { type: 'stage'; stage: ExtractionStage; message: string; invoiceIndex?: number; invoiceCount?: number }
+  | ({ type: 'partial'; invoiceIndex: number; pageRange: PageRange } & PartialExtraction)
+  | { type: 'invoice'; invoiceIndex: number; invoice: ExtractedInvoice };
+
+export type ProgressListener = (progress: ExtractionProgress) => void;
+
+/**
+ * The full extraction flow for one uploaded PDF: fetch, parse, OCR, split into invoices,
+ * extract each one and locate the values in the PDF. Shared by the synchronous route
+ * and the background job worker.
+ */
+export class ExtractionPipeline {
+  static async run(
+    { fileId, fileUrl, provider, refresh }: ExtractionRequest,
+    onProgress?: ProgressListener
+  ): Promise<ExtractionOutcome> {
+    onProgress?.({ type: 'stage', stage: 'fetching', message: 'Fetching the PDF' });
+    const pdfBuffer = await this.loadPdf(fileId, fileUrl);
+    return this.extractPdf(pdfBuffer, { fileId, provider, refresh }, onProgress);
+  }
+
+  /**
+   * Extract a PDF that is already in memory (the evaluation harness reads PDFs from disk)
+   */
+  static async extractPdf(
+    pdfBuffer: Buffer,
+    { fileId, provider, refresh }: Omit<ExtractionRequest, 'fileUrl'>,
+    onProgress?: ProgressListener
+  ): Promise<ExtractionOutcome> {
+    // Parse the PDF, keeping text positions for provenance
+    onProgress?.({ type: 'stage', stage: 'parsing', message: 'Reading the PDF text' });
+    const parsedPdf = await PdfTextLayout.parse(pdfBuffer);
+
+    // OCR pages that have no text layer (scanned or image-only PDFs)
+    const scannedPages = OcrService.isEnabled() ? OcrService.findPagesWithoutText(parsedPdf.pages) : [];
+    if (scannedPages.length > 0) {
+      onProgress?.({ type: 'stage', stage: 'ocr', message: `Running OCR on ${scannedPages.length} scanned page(s)` });
+    }
+    const { parsed: pdfData, report: ocr } = await OcrService.apply(pdfBuffer, parsedPdf);
+
+    if (!pdfData.text.trim()) {
+      throw Object.assign(
+        new Error('The PDF has no text layer and OCR could not read any text from it'),
+        { name: 'NoReadableTextError', ocr }
+      );
+    }
+
+    // A PDF may hold several invoices; extract each page range on its own.
+    // Segments run one at a time to stay within provider rate limits.
+    const segments = InvoiceSplitter.split(pdfData.pages);
+    if (segments.length > 1) {
+      console.log(`📑 Found ${segments.length} invoices in the PDF: ${segments.map(s => `${s.pageRange.start}-${s.pageRange.end}`).join(', ')}`);
+    }
+
+    const aiService = new AIService();
+    const pdfHash = CacheService.hashPdf(pdfBuffer);
+    const invoices: ExtractedInvoice[] = [];
+    for (const [invoiceIndex, segment] of segments.entries()) {
+      const { pageRange } = segment;
+      onProgress?.({
+        type: 'stage',
+        stage: 'extracting',
+        message: segments.length > 1
+          ? `Extracting invoice ${invoiceIndex + 1} of ${segments.length} (pages ${pageRange.start}-${pageRange.end})`
+          : 'Extracting invoice data',
+        invoiceIndex,
+        invoiceCount: segments.length
+      });
+
+      // Extract data using AI (cached per PDF content and page range)
+      const result = await aiService.extractDataFromPDF(segment.text, provider, {
+        source: { pdfHash, pages: `${pageRange.start}-${pageRange.end}`, fileId },
+        refresh,
+        // Rows and columns as laid out on the page, which the plain text loses
+        tables: TableLayout.detect(segment.pages),
+        pages: segment.pages,
+        // Providers only stream their response when there is a listener
+        onPartial: onProgress && (partial => onProgress({ type: 'partial', invoiceIndex, pageRange, ...partial }))
+      });
+
+      // Locate each extracted value in the PDF so the viewer can highlight it
+      const provenance = ProvenanceLocator.locate(result.data, segment.pages);
+
+      const invoice: ExtractedInvoice = {
+        pageRange,
+        data: result.data,
+        confidence: result.confidence,
+        provenance,
+        warnings: result.warnings,
+        locale: result.locale,
+        normalizationIssues: result.normalizationIssues,
+        provider: result.provider,
+        model: result.model,
+        fallbackReason: result.fallbackReason,
+        coverage: result.coverage,
+        cached: result.cached || false
+      };
+      invoices.push(invoice);
+      onProgress?.({ type: 'invoice', invoiceIndex, invoice });
+    }
+
+    return { invoices, ocr };
+  }
+
+  /**
+   * Response body for an extraction. The first invoice is also returned at the top level
+   * for single-invoice clients.
+   */
+  static toResponse({ invoices, ocr }: ExtractionOutcome) {
+    const [first] = invoices;
+    return {
+      ...first,
+      invoices,
+      ocr
+    };
+  }
+
+  private static async loadPdf(fileId: string, fileUrl?: string): Promise<Buffer> {
+    try {
+      return await UploadService.readFile(fileId);
+    } catch (error) {
+      if (!fileUrl || !(error instanceof Error && error.name === 'FileNotFoundError')) {
+        throw error;
+      }
+    }
+
+    // Files stored before STORAGE_DRIVER was changed are still fetched from the URL they were given
+    const response = await fetch(fileUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch PDF from URL: ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
@@ -0,0 +1,524 @@
+import { TaxCalculator, type TaxComponent } from 'invoice-rules';
+import type { RawExtractedData } from './aiService.js';
+import { BankDetails, type Remittance } from './bankDetails.js';
+import { Currency } from './currency.js';
+import type { ColumnRole, LayoutTable } from './tableLayout.js';
+
+type LineItem = RawExtractedData['invoice']['lineItems'][number];
+type Party = NonNullable<RawExtractedData['buyer']>;
+
+interface Found<T> {
+  value: T;
+  score: number; // How reliable the rule that found it is, 0..1
+}
+
+export interface HeuristicResult {
+  data: RawExtractedData;
+  confidence: Record<string, number>; // Keyed by field path, e.g. "invoice.total"
+}
+
+/**
+ * Deterministic, regex/layout based invoice extractor working on pdf-parse text.
+ * Used as an offline provider and as the fallback when the LLM is unavailable.
+ */
+
+const AMOUNT = String.raw`(?:[A-Z]{3}\s*)?[₹$€£¥]?\s*(-?\d{1,3}(?:,\d{2,3})+(?:\.\d+)?|-?\d+(?:\.\d+)?)`;
+const IDENTIFIER = String.raw`([A-Z0-9][A-Z0-9\-\/_.]*[A-Z0-9]|[A-Z0-9])`;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Headings of the buyer and ship-to address blocks, optionally followed by the name
+const BUYER_HEADING = /^(?:bill(?:ed)?\s+to|billing\s+address|invoice\s+to|sold\s+to|buyer(?:\s*\(bill\s+to\))?|customer)\s*(?:[:-]\s*(.*))?$/i;
+const SHIP_TO_HEADING = /^(?:ship(?:ped)?\s+to|shipping\s+address|deliver(?:y)?\s+(?:to|address)|consignee(?:\s*\(ship\s+to\))?)\s*(?:[:-]\s*(.*))?$/i;
+// Where an address block ends, when no other heading does
+const PARTY_BLOCK_END = /^(?:sold\s+by|seller|vendor|supplier|place\s+of|invoice|order|reference|dispatch|terms|description|s(?:l)?\.?\s*no)\b/i;
+const PARTY_TAX_ID = /\b(?:gstin(?:\/uin)?|gst\s*(?:registration\s*)?(?:no\b\.?|number)|vat\s*(?:no\b\.?|number|id)|tax\s*id)\s*[:#.-]?\s*([A-Z0-9][A-Z0-9-]{5,})/i;
+const MAX_PARTY_LINES = 8;
+
+// Lines that belong to the totals block and must never be read as line items
+const SUMMARY_LINE = /^\s*(sub\s*-?\s*total|total|grand\s+total|amount\s+due|balance\s+due|tax|vat|gst|igst|cgst|sgst|discount|shipping|round(?:ing)?\s*off)\b/i;
+
+export class HeuristicExtractor {
+  /**
+   * Extract invoice data from plain PDF text. Fields that cannot be found are left empty.
+   * Labelled matches ("Invoice No: ...") score higher than positional guesses or computed values.
+   * Line items come from the layout tables when there are any, else from the text.
+   */
+  static extract(text: string, tables: LayoutTable[] = []): HeuristicResult {
+    const lines = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+
+    const confidence: Record<string, number> = {};
+    const track = <T>(path: string, found: Found<T> | undefined): T | undefined => {
+      if (found && found.value !== undefined) {
+        confidence[path] = found.score;
+      }
+      return found?.value;
+    };
+    const labelled = <T>(value: T | undefined, score = 0.85): Found<T> | undefined =>
+      value === undefined ? undefined : { value, score };
+
+    const tableItems = this.lineItemsFromTables(tables);
+    const lineItems = tableItems.length > 0 ? tableItems : this.extractLineItems(lines);
+    lineItems.forEach(({ value, score }, index) => {
+      for (const field of Object.keys(value)) {
+        confidence[`invoice.lineItems.${index}.${field}`] = score;
+      }
+    });
+
+    const taxes = this.extractTaxes(lines);
+    taxes.forEach((tax, index) => {
+      for (const field of Object.keys(tax)) {
+        confidence[`invoice.taxes.${index}.${field}`] = 0.8;
+      }
+    });
+
+    const buyer = this.extractParty(lines, BUYER_HEADING);
+    const shipTo = this.extractParty(lines, SHIP_TO_HEADING);
+    for (const [party, value] of Object.entries({ buyer, shipTo })) {
+      for (const field of Object.keys(value ?? {})) {
+        confidence[`${party}.${field}`] = field === 'name' ? 0.75 : 0.7;
+      }
+    }
+
+    const remittance = this.extractRemittance(text, lines);
+    for (const field of Object.keys(remittance ?? {})) {
+      confidence[`invoice.remittance.${field}`] = 0.8;
+    }
+
+    const lineItemsTotal = lineItems.reduce((sum, item) => sum + item.value.total, 0);
+    const subtotal = labelled(this.findAmount(lines, /^sub\s*-?\s*total\b/i), 0.9)
+      ?? (lineItems.length > 0 ? { value: this.round(lineItemsTotal), score: 0.5 } : undefined);
+
+    const data: RawExtractedData = {
+      vendor: {
+        name: track('vendor.name', this.extractVendorName(lines)) || '',
+        address: track('vendor.address', labelled(this.findLabelValue(lines, /^(?:vendor\s+|seller\s+|supplier\s+)?address\s*[:-]\s*(.+)$/i))),
+        taxId: track('vendor.taxId', labelled(this.findMatch(text, new RegExp(String.raw`\b(?:tax\s*id|gstin|vat\s*(?:no\.?|number|id)|tin|ein)\b\s*[:#.\-]?\s*${IDENTIFIER}`, 'i'))))
+      },
+      buyer,
+      shipTo,
+      invoice: {
+        number: track('invoice.number', labelled(this.findMatch(text, new RegExp(String.raw`\b(?:invoice|inv|bill)\s*(?:no\b\.?|number|num\b|#)\s*[:#.\-]?\s*${IDENTIFIER}`, 'i')), 0.9)) || '',
+        date: track('invoice.date', labelled(this.findDate(lines, /^(?:invoice\s+date|date\s+of\s+issue|issue\s+date|bill\s+date|dated?)\s*[:-]?\s*(.+)$/i))) || '',
+        currency: track('invoice.currency', this.extractCurrency(text)),
+        subtotal: track('invoice.subtotal', subtotal),
+        taxPercent: track('invoice.taxPercent', labelled(this.combinedRate(taxes) ?? this.extractTaxPercent(lines), 0.8)),
+        taxes: taxes.length > 0 ? taxes : undefined,
+        reverseCharge: track('invoice.reverseCharge', labelled(this.extractReverseCharge(text), 0.8)),
+        total: track('invoice.total', this.extractTotal(lines)),
+        amountInWords: track('invoice.amountInWords', labelled(Currency.findAmountInWords(text)?.text, 0.8)),
+        poNumber: track('invoice.poNumber', labelled(this.findMatch(text, new RegExp(String.raw`\b(?:p\.?\s?o\.?|purchase\s+order)\s*(?:no\b\.?|number|num\b|#)\s*[:#.\-]?\s*${IDENTIFIER}`, 'i')))),
+        poDate: track('invoice.poDate', labelled(this.findDate(lines, /\b(?:p\.?\s?o\.?|purchase\s+order)\s*date\s*[:-]?\s*(.+)$/i))),
+        paymentTerms: track('invoice.paymentTerms', labelled(this.findLabelValue(lines, /^(?:payment\s+terms|terms\s+of\s+payment|terms)\s*[:-]\s*(.+)$/i))),
+        dueDate: track('invoice.dueDate', labelled(this.findDate(lines, /\b(?:due\s+date|payment\s+due(?:\s+date)?|due\s+by|pay\s+by)\s*[:-]?\s*(.+)$/i))),
+        remittance,
+        lineItems: lineItems.map(item => item.value)
+      }
+    };
+
+    return { data, confidence };
+  }
+
+  private static extractVendorName(lines: string[]): Found<string> | undefined {
+    const labelled = this.findLabelValue(lines, /^(?:company|vendor|seller|supplier|from|sold\s+by)(?:\s+name)?\s*[:-]\s*(.+)$/i);
+    if (labelled) {
+      return { value: labelled, score: 0.9 };
+    }
+
+    // Otherwise the first line that reads like a name rather than a document title or label
+    const candidate = lines.find(line =>
+      /[a-z]/i.test(line) &&
+      !/^(tax\s+)?invoice\b|^bill\b|^receipt\b|^original\b|^page\b/i.test(line) &&
+      !/[:#]/.test(line)
+    );
+    return candidate ? { value: candidate, score: 0.4 } : undefined;
+  }
+
+  /**
+   * A buyer or ship-to block: the heading, the name on the same or the next line, then
+   * address lines until the next heading. Labelled lines in the block are skipped,
+   * apart from the party's tax ID.
+   */
+  private static extractParty(lines: string[], heading: RegExp): Party | undefined {
+    const start = lines.findIndex(line => heading.test(line));
+    if (start === -1) {
+      return undefined;
+    }
+
+    const inline = lines[start].match(heading)?.[1]?.trim();
+    const block: string[] = inline ? [inline] : [];
+    for (const line of lines.slice(start + 1, start + 1 + MAX_PARTY_LINES)) {
+      if (BUYER_HEADING.test(line) || SHIP_TO_HEADING.test(line) || PARTY_BLOCK_END.test(line)) {
+        break;
+      }
+      block.push(line);
+    }
+
+    const [name, ...rest] = block;
+    if (!name || PARTY_TAX_ID.test(name)) {
+      return undefined;
+    }
+
+    const party: Party = { name };
+    const address: string[] = [];
+    for (const line of rest) {
+      const taxId = line.match(PARTY_TAX_ID);
+      if (taxId) {
+        party.taxId ??= taxId[1];
+      } else if (!line.includes(':') && !/^[+\d\s()-]{8,}$/.test(line)) {
+        // Phone numbers and other labelled details are not part of the address
+        address.push(line);
+      }
+    }
+    if (address.length > 0) {
+      party.address = address.join(', ');
+    }
+    return party;
+  }
+
+  // Symbols several currencies share are returned as printed, for LocaleNormalizer to settle by the vendor's country
+  private static extractCurrency(text: string): Found<string> | undefined {
+    const match = Currency.detect(text);
+    if (!match) {
+      return undefined;
+    }
+    return match.ambiguous
+      ? { value: match.printed, score: 0.5 }
+      : { value: match.code, score: Currency.isValid(match.printed) ? 0.8 : 0.6 };
+  }
+
+  private static extractTaxPercent(lines: string[]): number | undefined {
+    for (const line of lines) {
+      const match = line.match(/\b(?:tax(?:\s+rate)?|igst|cgst|sgst|gst|vat)\b[^%\d]*?(\d+(?:\.\d+)?)\s*%/i);
+      if (match) {
+        return parseFloat(match[1]);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Labelled tax lines such as "CGST @ 9%: 90.00", "VAT 20% 40.00" or "TDS 2%"
+   */
+  private static extractTaxes(lines: string[]): TaxComponent[] {
+    const pattern = new RegExp(
+      String.raw`^(cgst|sgst|utgst|igst|cess|vat|gst|tds|withholding(?:\s+tax)?)\b(?:\s*(?:@|at|rate|amount))?\s*[:\-]?\s*(?:(\d+(?:\.\d+)?)\s*%)?\s*[:\-]?\s*(?:${AMOUNT})?\s*$`,
+      'i'
+    );
+    const taxes: TaxComponent[] = [];
+
+    for (const line of lines) {
+      const match = line.match(pattern);
+      if (!match || (match[2] === undefined && match[3] === undefined)) {
+        continue;
+      }
+      const tax: TaxComponent = { type: TaxCalculator.normalizeType(match[1].replace(/\s+tax$/i, '')) };
+      if (match[2] !== undefined) {
+        tax.rate = parseFloat(match[2]);
+      }
+      if (match[3] !== undefined) {
+        tax.amount = this.parseAmount(match[3]);
+      }
+      taxes.push(tax);
+    }
+
+    return taxes;
+  }
+
+  // CGST 9% + SGST 9% is charged at 18%; withholding is not part of the rate
+  private static combinedRate(taxes: TaxComponent[]): number | undefined {
+    const rates = taxes.filter(tax => tax.type !== 'WITHHOLDING').map(tax => tax.rate);
+    return rates.length > 0 && rates.every((rate): rate is number => rate !== undefined)
+      ? this.round(rates.reduce((sum, rate) => sum + rate, 0))
+      : undefined;
+  }
+
+  private static extractReverseCharge(text: string): boolean | undefined {
+    const match = text.match(/reverse\s+charge\b[^\n]*?\b(yes|no|applicable|not\s+applicable)\b/i);
+    return match ? !/^no|not/i.test(match[1]) : undefined;
+  }
+
+  /**
+   * Bank details printed for payment, by their labels. Codes that fail their format
+   * check are kept so the reviewer sees them flagged rather than missing.
+   */
+  private static extractRemittance(text: string, lines: string[]): Remittance | undefined {
+    const remittance: Remittance = {
+      bankName: this.findLabelValue(lines, /^bank(?:\s+name)?\s*[:-]\s*(.+)$/i),
+      accountName: this.findLabelValue(lines, /^(?:account\s+name|a\/c\s+name|beneficiary(?:\s+name)?|account\s+holder(?:\s+name)?)\s*[:-]\s*(.+)$/i),
+      accountNumber: this.findMatch(text, /\b(?:account|a\/c)\s*(?:no\b\.?|number|#)\s*[:#.-]?\s*(\d[\d -]{4,}\d)/i)?.replace(/[\s-]/g, ''),
+      iban: this.findMatch(text, /\bIBAN\s*[:#.-]?\s*([A-Z]{2}\d{2}(?: ?[A-Z0-9]{1,4}){3,8})/i),
+      ifsc: this.findMatch(text, /\bIFSC(?:\s+code)?\s*[:#.-]?\s*([A-Z]{4}0[A-Z0-9]{6})\b/i),
+      swift: this.findMatch(text, /\b(?:SWIFT|BIC)(?:\s*\/\s*BIC)?(?:\s+code)?\s*[:#.-]?\s*([A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?)\b/i),
+      upiId: this.findMatch(text, /\bUPI(?:\s+ID)?\s*[:#.-]?\s*([a-z0-9][a-z0-9._-]+@[a-z][a-z0-9]+)/i)
+    };
+
+    const found = Object.fromEntries(Object.entries(remittance).filter(([, value]) => value !== undefined));
+    return Object.keys(found).length > 0 ? BankDetails.normalize(found) : undefined;
+  }
+
+  private static extractTotal(lines: string[]): Found<number> | undefined {
+    // Most specific labels first so "Total" does not win over "Grand Total"
+    const labels = [
+      /^grand\s+total\b/i,
+      /^(?:invoice\s+)?total\s+amount\b/i,
+      /^(?:total\s+)?amount\s+(?:due|payable)\b/i,
+      /^balance\s+due\b/i,
+      /^total\b/i
+    ];
+
+    for (const label of labels) {
+      const amount = this.findAmount(lines, label);
+      if (amount !== undefined) {
+        // A bare "Total" may still be a page or section total
+        return { value: amount, score: label === labels[labels.length - 1] ? 0.8 : 0.9 };
+      }
+    }
+    return undefined;
+  }
+
+  private static extractLineItems(lines: string[]): Array<Found<LineItem>> {
+    const items: Array<Found<LineItem>> = [];
+
+    // "1. Description - $150.00 per hour x 40 hours = $6,000.00"
+    const narrative = new RegExp(
+      String.raw`^(?:\d+[.)]\s*)?(.+?)\s+[-–:]\s+${AMOUNT}\s*(?:per\s+\w+\s*)?[x×*]\s*(\d+(?:\.\d+)?)\s*([a-z]+)?\s*=\s*${AMOUNT}\s*$`,
+      'i'
+    );
+    // "HSN: 3923" or "SAC Code - 998314" printed under an item's description
+    const itemCode = /^(?:hsn|sac|hsn\s*\/\s*sac)(?:\s+code)?\s*[:-]?\s*(\d{4,8})$/i;
+
+    for (const line of lines) {
+      if (SUMMARY_LINE.test(line)) {
+        continue;
+      }
+
+      const code = line.match(itemCode);
+      if (code && items.length > 0) {
+        items[items.length - 1].value.itemCode = code[1];
+        continue;
+      }
+
+      const match = line.match(narrative);
+      if (match) {
+        const item: LineItem = {
+          description: match[1].trim(),
+          unitPrice: this.parseAmount(match[2]),
+          quantity: parseFloat(match[3]),
+          total: this.parseAmount(match[5])
+        };
+        if (match[4]) {
+          item.unit = match[4];
+        }
+        items.push({ value: item, score: 0.85 });
+        continue;
+      }
+
+      // Column order is inferred for table rows, so they score lower
+      const row = this.parseTableRow(line);
+      if (row) {
+        items.push({ value: row, score: 0.7 });
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Line items from tables rebuilt from the PDF layout. Each cell's column is known there,
+   * so these score higher than table rows read from the text.
+   */
+  private static lineItemsFromTables(tables: LayoutTable[]): Array<Found<LineItem>> {
+    const items: Array<Found<LineItem>> = [];
+    // "HSN: 3923" printed inside the description cell
+    const inlineCode = /\b(?:hsn|sac|hsn\s*\/\s*sac)(?:\s+code)?\s*[:-]?\s*(\d{4,8})\b/i;
+
+    for (const { columns, rows } of tables) {
+      for (const row of rows) {
+        // The first amount column is the line's net amount when the table also prints a total with tax
+        const cell = (role: ColumnRole) => row[columns.findIndex(column => column.role === role)] ?? '';
+        const number = (role: ColumnRole) => (/\d/.test(cell(role)) ? this.parseAmount(cell(role)) : undefined);
+
+        let description = cell('description');
+        let itemCode = cell('itemCode') || undefined;
+        const code = description.match(inlineCode);
+        if (code) {
+          itemCode ??= code[1];
+          description = description.replace(code[0], '').replace(/\s+/g, ' ').trim();
+        }
+
+        const unitPrice = number('unitPrice');
+        const amount = number('amount');
+        const quantity = number('quantity') ?? (unitPrice && amount !== undefined ? this.round(amount / unitPrice) : 1);
+        const total = amount ?? (unitPrice !== undefined ? this.round(quantity * unitPrice) : undefined);
+        if (!description || total === undefined) {
+          continue;
+        }
+
+        const item: LineItem = {
+          description,
+          unitPrice: unitPrice ?? (quantity ? this.round(total / quantity) : total),
+          quantity,
+          total
+        };
+        // "500 pc" when the table has no unit column of its own
+        const unit = cell('unit') || cell('quantity').match(/\d\s*([a-z]+)\.?$/i)?.[1];
+        if (itemCode) {
+          item.itemCode = itemCode;
+        }
+        if (unit) {
+          item.unit = unit;
+        }
+        const discount = number('discount');
+        if (discount) {
+          if (cell('discount').includes('%')) {
+            item.discountPercent = discount;
+          } else {
+            item.discountAmount = discount;
+          }
+        }
+        const taxRate = number('taxRate');
+        if (taxRate !== undefined) {
+          item.taxRate = taxRate;
+        }
+        const taxAmount = number('taxAmount');
+        if (taxAmount !== undefined) {
+          item.taxAmount = taxAmount;
+        }
+        items.push({ value: item, score: 0.8 });
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Tabular rows: a description followed by numeric columns, where two of the
+   * last three numbers multiply to the third (qty x rate = amount, in any order).
+   */
+  private static parseTableRow(line: string): LineItem | undefined {
+    const match = line.match(/^(?:\d+[.)]?\s+)?(.*?[a-z].*?)\s+((?:[₹$€£¥]?\s*-?[\d,]+(?:\.\d+)?\s+){2,}[₹$€£¥]?\s*-?[\d,]+(?:\.\d+)?)\s*$/i);
+    if (!match) {
+      return undefined;
+    }
+
+    const numbers = match[2].trim().split(/\s+(?=[₹$€£¥]?\s*-?\d)/).map(value => this.parseAmount(value));
+    const [a, b, total] = numbers.slice(-3);
+    if (!this.approximatelyEqual(a * b, total) || total === 0) {
+      return undefined;
+    }
+
+    // Quantities are usually the smaller, whole-number column
+    const aIsQuantity = Number.isInteger(a) && (!Number.isInteger(b) || a <= b);
+    return {
+      description: match[1].trim(),
+      unitPrice: aIsQuantity ? b : a,
+      quantity: aIsQuantity ? a : b,
+      total
+    };
+  }
+
+  private static findLabelValue(lines: string[], pattern: RegExp): string | undefined {
+    for (const line of lines) {
+      const match = line.match(pattern);
+      if (match && match[1].trim()) {
+        return match[1].trim();
+      }
+    }
+    return undefined;
+  }
+
+  private static findMatch(text: string, pattern: RegExp): string | undefined {
+    const match = text.match(pattern);
+    return match ? match[1] : undefined;
+  }
+
+  private static findAmount(lines: string[], label: RegExp): number | undefined {
+    const amountPattern = new RegExp(`${AMOUNT}\\s*$`, 'i');
+    for (const line of lines) {
+      if (!label.test(line)) {
+        continue;
+      }
+      const match = line.match(amountPattern);
+      if (match) {
+        return this.parseAmount(match[1]);
+      }
+    }
+    return undefined;
+  }
+
+  private static findDate(lines: string[], label: RegExp): string | undefined {
+    for (const line of lines) {
+      const match = line.match(label);
+      if (match) {
+        const date = this.parseDate(match[1]);
+        if (date) {
+          return date;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Normalise common date formats to YYYY-MM-DD. Numeric dates are read as
+   * DD/MM/YYYY (or MM/DD/YYYY for order "MDY") unless only the other reading is valid.
+   */
+  static parseDate(value: string, order: 'DMY' | 'MDY' = 'DMY'): string | undefined {
+    const iso = value.match(/(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (iso) {
+      return this.formatDate(+iso[1], +iso[2], +iso[3]);
+    }
+
+    const numeric = value.match(/(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+    if (numeric) {
+      let [day, month] = order === 'MDY' ? [+numeric[2], +numeric[1]] : [+numeric[1], +numeric[2]];
+      if (month > 12 && day <= 12) {
+        [day, month] = [month, day];
+      }
+      return this.formatDate(this.expandYear(+numeric[3]), month, day);
+    }
+
+    const dayFirst = value.match(/(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,})\.?,?[\s-]+(\d{2,4})/i);
+    if (dayFirst) {
+      return this.formatDate(this.expandYear(+dayFirst[3]), this.monthIndex(dayFirst[2]), +dayFirst[1]);
+    }
+
+    const monthFirst = value.match(/([a-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/i);
+    if (monthFirst) {
+      return this.formatDate(+monthFirst[3], this.monthIndex(monthFirst[1]), +monthFirst[2]);
+    }
+
+    return undefined;
+  }
+
+  private static formatDate(year: number, month: number, day: number): string | undefined {
+    if (!month || month < 1 || month > 12 || day < 1 || day > 31) {
+      return undefined;
+    }
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private static expandYear(year: number): number {
+    return year < 100 ? 2000 + year : year;
+  }
+
+  private static monthIndex(name: string): number {
+    return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+  }
+
+  static parseAmount(value: string): number {
+    return parseFloat(value.replace(/[^\d.-]/g, '')) || 0;
+  }
+
+  private static approximatelyEqual(a: number, b: number): boolean {
+    return Math.abs(a - b) <= Math.max(0.01, Math.abs(b) * 0.001);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvoiceSplitter } from './invoiceSplitter.js';
+import type { PageLayout } from './pdfTextLayout.js';
+
+const pages = (...texts: string[]): PageLayout[] =>
+  texts.map((text, index) => ({ pageNumber: index + 1, width: 595, height: 842, text, items: [] }));
+
+const ranges = (texts: string[]) => InvoiceSplitter.split(pages(...texts)).map(({ pageRange }) => `${pageRange.start}-${pageRange.end}`);
+
+const invoicePage = (number: string, date: string) => [
+  'Acme Supplies Pvt Ltd',
+  'TAX INVOICE',
+  `Invoice No: ${number}`,
+  `Invoice Date: ${date}`,
+  'Description Qty Rate Amount',
+  'Printer paper 10 250.00 2,500.00'
+].join('\n');
+
+describe('InvoiceSplitter.split', () => {
+  it('keeps a single invoice in one segment', () => {
+    assert.deepEqual(ranges([invoicePage('INV-1001', '01/03/2024')]), ['1-1']);
+  });
+
+  it('starts a new invoice at a page with another invoice number and its own header', () => {
+    assert.deepEqual(ranges([invoicePage('INV-1001', '01/03/2024'), invoicePage('INV-1002', '02/03/2024')]), ['1-1', '2-2']);
+  });
+
+  it('keeps a continuation page that prints a reference number with its invoice', () => {
+    const continuation = [
+      'Continued from previous page',
+      'Against Bill No: ORD-55210',
+      'Toner cartridge 2 1,800.00 3,600.00',
+      'Subtotal 6,100.00',
+      'Total 7,198.00'
+    ].join('\n');
+
+    assert.deepEqual(ranges([invoicePage('INV-1001', '01/03/2024'), continuation]), ['1-2']);
+  });
+
+  it('follows page markers over invoice numbers', () => {
+    assert.deepEqual(ranges([
+      `${invoicePage('INV-1001', '01/03/2024')}\nPage 1 of 2`,
+      `${invoicePage('INV-1002', '01/03/2024')}\nPage 2 of 2`,
+      `${invoicePage('INV-1003', '05/03/2024')}\nPage 1 of 1`
+    ]), ['1-2', '3-3']);
+  });
+
+  it('joins the text of the pages of each invoice', () => {
+    const [segment] = InvoiceSplitter.split(pages('first page', 'second page'));
+
+    assert.equal(segment.text, '\n\nfirst page\n\nsecond page');
+    assert.equal(segment.pages.length, 2);
+  });
+});
@@ -0,0 +1,68 @@
+import { HeuristicExtractor } from './heuristicExtractor.js';
+import { PdfTextLayout, type PageLayout } from './pdfTextLayout.js';
+
+export interface PageRange {
+  start: number; // 1-based, inclusive
+  end: number;
+}
+
+export interface InvoiceSegment {
+  pageRange: PageRange;
+  pages: PageLayout[];
+  text: string; // Text of just these pages, in pdf-parse's format
+}
+
+// "Page 1 of 3", "Page 2/3"
+const PAGE_MARKER = /\bpage\s+(\d+)\s*(?:of|\/)\s*(\d+)\b/i;
+// "INVOICE" or "Tax Invoice" on a line of its own
+const INVOICE_TITLE = /^\s*(?:tax\s+|commercial\s+|proforma\s+)?invoice\s*$/im;
+
+export class InvoiceSplitter {
+  /**
+   * Group the pages of a PDF into invoices. A page starts a new invoice when it is
+   * marked "Page 1 of N", follows a page marked "Page N of N", or, without page markers,
+   * carries a different invoice number than the invoice so far and an invoice header (an
+   * "Invoice" title, an invoice date or the vendor's tax ID). Pages without any of these
+   * continue the current invoice, so a regular single-invoice PDF yields one segment, even
+   * when a continuation page prints an order or reference number.
+   */
+  static split(pages: PageLayout[]): InvoiceSegment[] {
+    const groups: Array<{ pages: PageLayout[]; number?: string; complete: boolean }> = [];
+
+    for (const page of pages) {
+      const current = groups[groups.length - 1];
+      const marker = page.text.match(PAGE_MARKER);
+      const { number, header } = this.readHeader(page.text);
+      const complete = !!marker && marker[1] === marker[2];
+
+      const startsInvoice = !current || current.complete || (marker
+        ? Number(marker[1]) === 1
+        : header && !!number && !!current.number && number !== current.number);
+
+      if (startsInvoice) {
+        groups.push({ pages: [page], number, complete });
+      } else {
+        current.pages.push(page);
+        current.number = current.number || number;
+        current.complete = complete;
+      }
+    }
+
+    return groups.map(group => ({
+      pageRange: {
+        start: group.pages[0].pageNumber,
+        end: group.pages[group.pages.length - 1].pageNumber
+      },
+      pages: group.pages,
+      text: PdfTextLayout.joinText(group.pages)
+    }));
+  }
+
+  private static readHeader(text: string): { number?: string; header: boolean } {
+    const { vendor, invoice } = HeuristicExtractor.extract(text).data;
+    return {
+      number: invoice.number ? invoice.number.toUpperCase() : undefined,
+      header: INVOICE_TITLE.test(text) || !!invoice.date || !!vendor.taxId
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocaleNormalizer, type NormalizationResult } from './localeNormalizer.js';
+
+const invoiceOf = (result: NormalizationResult) => (result.data as { invoice: Record<string, unknown> }).invoice;
+const codes = (result: NormalizationResult) => result.issues.map(issue => `${issue.code} ${issue.path}`);
+
+describe('LocaleNormalizer.detect', () => {
+  it('takes the conventions from the dates and amounts printed on the invoice', () => {
+    const locale = LocaleNormalizer.detect({}, 'Invoice date 25/03/2024\nTotal 1.234,56');
+
+    assert.equal(locale.dateOrder, 'DMY');
+    assert.equal(locale.dateOrderSource, 'text');
+    assert.equal(locale.decimalSeparator, ',');
+    assert.equal(locale.decimalSource, 'text');
+  });
+
+  it('reads month-first dates from the text', () => {
+    assert.equal(LocaleNormalizer.detect({}, 'Date: 03/25/2024').dateOrder, 'MDY');
+  });
+
+  it('falls back to the vendor country from its tax ID or address', () => {
+    const german = LocaleNormalizer.detect({ vendor: { taxId: 'DE123456789' } }, '');
+    assert.equal(german.country, 'DE');
+    assert.equal(german.decimalSeparator, ',');
+    assert.equal(german.decimalSource, 'country');
+
+    const american = LocaleNormalizer.detect({ vendor: { address: '1 Main St, Springfield, IL, USA' } }, '');
+    assert.equal(american.country, 'US');
+    assert.equal(american.dateOrder, 'MDY');
+    assert.equal(american.dateOrderSource, 'country');
+  });
+
+  it('falls back to the currency, then to day first with a decimal point', () => {
+    const euro = LocaleNormalizer.detect({ invoice: { currency: 'BRL' } }, '');
+    assert.equal(euro.decimalSeparator, ',');
+    assert.equal(euro.decimalSource, 'currency');
+
+    const unknown = LocaleNormalizer.detect({}, '');
+    assert.equal(unknown.dateOrder, 'DMY');
+    assert.equal(unknown.decimalSeparator, '.');
+    assert.equal(unknown.dateOrderSource, 'default');
+  });
+});
+
+describe('LocaleNormalizer.parseNumber', () => {
+  it('reads numbers with either decimal separator', () => {
+    assert.equal(LocaleNormalizer.parseNumber('1.234,56', ','), 1234.56);
+    assert.equal(LocaleNormalizer.parseNumber('1,234.56', '.'), 1234.56);
+    assert.equal(LocaleNormalizer.parseNumber('1,00,000.00', '.'), 100000);
+  });
+
+  it('ignores currency symbols and spaced thousands', () => {
+    assert.equal(LocaleNormalizer.parseNumber('€ 12 500,50', ','), 12500.5);
+    assert.equal(LocaleNormalizer.parseNumber('USD -19.99', '.'), -19.99);
+  });
+
+  it('is undefined without digits', () => {
+    assert.equal(LocaleNormalizer.parseNumber('n/a', '.'), undefined);
+  });
+});
+
+describe('LocaleNormalizer.isIsoDate and toDate', () => {
+  it('accepts only real calendar dates', () => {
+    assert.equal(LocaleNormalizer.isIsoDate('2024-02-29'), true);
+    assert.equal(LocaleNormalizer.isIsoDate('2023-02-29'), false);
+    assert.equal(LocaleNormalizer.isIsoDate('2024-13-01'), false);
+    assert.equal(LocaleNormalizer.isIsoDate('29/02/2024'), false);
+  });
+
+  it('turns a date into midnight UTC', () => {
+    assert.equal(LocaleNormalizer.toDate('2024-03-25')?.toISOString(), '2024-03-25T00:00:00.000Z');
+    assert.equal(LocaleNormalizer.toDate('2024-02-30'), undefined);
+    assert.equal(LocaleNormalizer.toDate(undefined), undefined);
+  });
+});
+
+describe('LocaleNormalizer.normalize', () => {
+  it('rewrites dates and numbers by the invoice conventions', () => {
+    const result = LocaleNormalizer.normalize(
+      { vendor: { taxId: 'DE123456789' }, invoice: { date: '25.03.2024', total: '1.234,56', currency: '€', lineItems: [{ unitPrice: '12,50' }] } },
+      'Rechnungsdatum 25.03.2024\nGesamt 1.234,56 €'
+    );
+
+    assert.deepEqual(invoiceOf(result), { date: '2024-03-25', total: 1234.56, currency: 'EUR', lineItems: [{ unitPrice: 12.5 }] });
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('swaps day and month the provider read the wrong way round', () => {
+    const result = LocaleNormalizer.normalize(
+      { invoice: { date: '2024-04-03', dueDate: '2024-04-18' } },
+      'Invoice date 04/03/2024\nDue 18/04/2024'
+    );
+
+    assert.equal(invoiceOf(result).date, '2024-03-04');
+    assert.deepEqual(codes(result), ['DATE_REORDERED invoice.date']);
+  });
+
+  it('reports dates that read either way without anything to settle the order', () => {
+    const result = LocaleNormalizer.normalize({ invoice: { date: '04/03/2024' } }, 'Invoice date 04/03/2024');
+
+    assert.equal(invoiceOf(result).date, '2024-03-04');
+    assert.deepEqual(codes(result), ['AMBIGUOUS_DATE invoice.date']);
+  });
+
+  it('keeps dates that are not dates and reports them', () => {
+    const result = LocaleNormalizer.normalize({ invoice: { date: 'on receipt' } }, '');
+
+    assert.equal(invoiceOf(result).date, 'on receipt');
+    assert.deepEqual(codes(result), ['INVALID_DATE invoice.date']);
+  });
+
+  it('reports amounts that could be thousands or decimals', () => {
+    const result = LocaleNormalizer.normalize({ invoice: { total: '1.234' } }, '');
+
+    assert.equal(invoiceOf(result).total, 1.234);
+    assert.deepEqual(codes(result), ['AMBIGUOUS_NUMBER invoice.total']);
+  });
+
+  it('resolves the currency and reports names that are not currencies', () => {
+    assert.equal(invoiceOf(LocaleNormalizer.normalize({ invoice: { currency: 'usd' } }, '')).currency, 'USD');
+
+    const result = LocaleNormalizer.normalize({ invoice: { currency: 'Gold coins' } }, '');
+    assert.equal(invoiceOf(result).currency, 'INR');
+    assert.deepEqual(codes(result), ['UNKNOWN_CURRENCY invoice.currency']);
+  });
+
+  it('leaves responses without an invoice alone', () => {
+    const result = LocaleNormalizer.normalize('not json', '');
+
+    assert.equal(result.data, 'not json');
+    assert.deepEqual(result.issues, []);
+  });
+});
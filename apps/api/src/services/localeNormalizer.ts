@@ -0,0 +1,362 @@
+import { HeuristicExtractor } from './heuristicExtractor.js';
+import { Currency, DEFAULT_CURRENCY } from './currency.js';
+
+export type DateOrder = 'DMY' | 'MDY';
+export type DecimalSeparator = '.' | ',';
+// What decided a convention: the document's own formatting, the vendor's country, the currency, or nothing
+export type LocaleSource = 'text' | 'country' | 'currency' | 'default';
+
+export interface DetectedLocale {
+  country?: string; // ISO 3166 code of the vendor, from its tax ID or address
+  dateOrder: DateOrder;
+  dateOrderSource: LocaleSource;
+  decimalSeparator: DecimalSeparator;
+  decimalSource: LocaleSource;
+}
+
+export type NormalizationCode =
+  | 'AMBIGUOUS_DATE' | 'DATE_REORDERED' | 'INVALID_DATE' | 'AMBIGUOUS_NUMBER' | 'AMBIGUOUS_CURRENCY' | 'UNKNOWN_CURRENCY';
+
+export interface NormalizationIssue {
+  code: NormalizationCode;
+  path: string;            // e.g. "invoice.date"
+  message: string;
+  original: string;        // As printed or as returned by the provider
+  value?: string | number; // What it was normalized to
+}
+
+export interface NormalizationResult {
+  data: unknown; // The provider's response with dates as YYYY-MM-DD, numbers as numbers and an ISO 4217 currency
+  locale: DetectedLocale;
+  issues: NormalizationIssue[];
+}
+
+const DATE_FIELDS = ['date', 'poDate', 'dueDate'];
+const NUMBER_FIELDS = new Set([
+  'subtotal', 'taxPercent', 'total', 'rate', 'taxableAmount', 'amount',
+  'unitPrice', 'quantity', 'discountPercent', 'discountAmount', 'taxRate', 'taxAmount'
+]);
+
+// Countries writing the month first, and those using a decimal comma; the rest are day first with a decimal point
+const MONTH_FIRST = new Set(['US', 'PH']);
+const DECIMAL_COMMA = new Set([
+  'AR', 'AT', 'BE', 'BG', 'BR', 'CL', 'CO', 'CZ', 'DE', 'DK', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'ID', 'IT', 'NL', 'NO', 'PL', 'PT', 'RO', 'RU', 'SE', 'SI', 'SK', 'TR', 'VN'
+]);
+
+// Countries named at the end of an address
+const COUNTRY_NAMES: Array<[RegExp, string]> = [
+  [/\bindia$/i, 'IN'],
+  [/\b(?:usa|u\.s\.a\.?|united states(?: of america)?)$/i, 'US'],
+  [/\b(?:uk|united kingdom|england|scotland|wales)$/i, 'GB'],
+  [/\b(?:germany|deutschland)$/i, 'DE'],
+  [/\bfrance$/i, 'FR'],
+  [/\b(?:spain|españa)$/i, 'ES'],
+  [/\b(?:italy|italia)$/i, 'IT'],
+  [/\b(?:netherlands|nederland)$/i, 'NL'],
+  [/\b(?:belgium|belgique|belgië)$/i, 'BE'],
+  [/\b(?:austria|österreich)$/i, 'AT'],
+  [/\b(?:switzerland|schweiz|suisse)$/i, 'CH'],
+  [/\b(?:poland|polska)$/i, 'PL'],
+  [/\bportugal$/i, 'PT'],
+  [/\bireland$/i, 'IE'],
+  [/\bsweden$/i, 'SE'],
+  [/\b(?:brazil|brasil)$/i, 'BR'],
+  [/\bcanada$/i, 'CA'],
+  [/\baustralia$/i, 'AU'],
+  [/\bsingapore$/i, 'SG'],
+  [/\b(?:uae|united arab emirates)$/i, 'AE'],
+  [/\bphilippines$/i, 'PH']
+];
+
+const NUMERIC_DATE = /(?<![\d.,/-])(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?![\d/.-]\d)/g;
+// "1.234,56" or "12,50"; "1,234.56", "1,00,000.00" or "12.50" - never part of a date
+const COMMA_DECIMAL = /(?<![\d.,/-])\d{1,3}(?:\.\d{3})*,\d{2}(?![\d.,/-]?\d)/g;
+const POINT_DECIMAL = /(?<![\d.,/-])\d{1,3}(?:,\d{2,3})*\.\d{2}(?![\d.,/-]?\d)/g;
+
+const ORDER_NAMES: Record<DateOrder, string> = { DMY: 'day/month', MDY: 'month/day' };
+
+/**
+ * Reads dates and numbers in the provider's response by the conventions of the invoice:
+ * those its own text shows (a "25/03" date, "1.234,56" amounts), else those of the vendor's
+ * country or currency. The currency is resolved to its ISO 4217 code. Dates and currency
+ * symbols that cannot be read unambiguously are reported.
+ */
+export class LocaleNormalizer {
+  static normalize(raw: unknown, pdfText: string): NormalizationResult {
+    const issues: NormalizationIssue[] = [];
+    if (!this.isObject(raw) || !this.isObject(raw.invoice)) {
+      return { data: raw, locale: this.detect(raw, pdfText), issues };
+    }
+
+    const { code: currency, defaulted } = this.normalizeCurrency(raw.invoice.currency, this.vendorCountry(raw.vendor), pdfText, issues);
+    const invoice: Record<string, unknown> = { ...raw.invoice, currency };
+    // The default currency says nothing about how the vendor writes dates and amounts
+    const locale = this.detect({ ...raw, invoice: { ...invoice, currency: defaulted ? undefined : currency } }, pdfText);
+    for (const field of DATE_FIELDS) {
+      if (typeof invoice[field] === 'string' && invoice[field]) {
+        invoice[field] = this.normalizeDate(invoice[field] as string, `invoice.${field}`, locale, pdfText, issues);
+      }
+    }
+
+    return {
+      data: { ...raw, invoice: this.normalizeNumbers(invoice, 'invoice', locale, issues) },
+      locale,
+      issues
+    };
+  }
+
+  static detect(raw: unknown, pdfText: string): DetectedLocale {
+    const data = this.isObject(raw) ? raw : {};
+    const vendor = this.isObject(data.vendor) ? data.vendor : {};
+    const invoice = this.isObject(data.invoice) ? data.invoice : {};
+
+    const country = this.vendorCountry(vendor);
+    const currency = typeof invoice.currency === 'string' ? Currency.resolve(invoice.currency, country)?.code : undefined;
+    const currencyCountry = currency ? Currency.countryOf(currency) : undefined;
+    const conventionsOf = country ?? currencyCountry;
+    const conventionsSource: LocaleSource = country ? 'country' : currencyCountry ? 'currency' : 'default';
+
+    const dateOrder = this.dateOrderInText(pdfText);
+    const decimalSeparator = this.decimalInText(pdfText);
+    return {
+      country,
+      dateOrder: dateOrder ?? (conventionsOf && MONTH_FIRST.has(conventionsOf) ? 'MDY' : 'DMY'),
+      dateOrderSource: dateOrder ? 'text' : conventionsSource,
+      decimalSeparator: decimalSeparator ?? (conventionsOf && DECIMAL_COMMA.has(conventionsOf) ? ',' : '.'),
+      decimalSource: decimalSeparator ? 'text' : conventionsSource
+    };
+  }
+
+  /**
+   * Number written with the given decimal separator, ignoring currency symbols and
+   * thousands separators; undefined when there are no digits
+   */
+  static parseNumber(value: string, decimalSeparator: DecimalSeparator): number | undefined {
+    const digits = value.match(/-?\d[\d.,'\s]*/)?.[0];
+    if (!digits) {
+      return undefined;
+    }
+    const cleaned = decimalSeparator === ','
+      ? digits.replace(/[^\d,-]/g, '').replace(',', '.')
+      : digits.replace(/[^\d.-]/g, '');
+    const number = parseFloat(cleaned);
+    return Number.isNaN(number) ? undefined : number;
+  }
+
+  static isIsoDate(value: string): boolean {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      return false;
+    }
+    const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+    return date.getUTCMonth() === +match[2] - 1 && date.getUTCDate() === +match[3];
+  }
+
+  // YYYY-MM-DD as a Date at midnight UTC
+  static toDate(value: string | undefined): Date | undefined {
+    return value && this.isIsoDate(value) ? new Date(`${value}T00:00:00.000Z`) : undefined;
+  }
+
+  private static normalizeDate(
+    value: string,
+    path: string,
+    locale: DetectedLocale,
+    pdfText: string,
+    issues: NormalizationIssue[]
+  ): string {
+    const trimmed = value.trim();
+
+    if (this.isIsoDate(trimmed)) {
+      // Find how the date was printed, to check the provider read day and month the right way round
+      const printed = this.ambiguousTokens(pdfText).filter(token => this.readings(token).includes(trimmed));
+      if (printed.length === 0 || printed.some(token => HeuristicExtractor.parseDate(token, locale.dateOrder) === trimmed && locale.dateOrderSource !== 'default')) {
+        return trimmed;
+      }
+
+      const [token] = printed;
+      if (locale.dateOrderSource === 'default') {
+        issues.push(this.ambiguous(path, token, trimmed));
+        return trimmed;
+      }
+
+      const reordered = HeuristicExtractor.parseDate(token, locale.dateOrder)!;
+      issues.push({
+        code: 'DATE_REORDERED',
+        path,
+        message: `"${token}" read as ${ORDER_NAMES[locale.dateOrder]} (${this.describeSource(locale)}): ${reordered}, not ${trimmed}`,
+        original: token,
+        value: reordered
+      });
+      return reordered;
+    }
+
+    const parsed = HeuristicExtractor.parseDate(trimmed, locale.dateOrder);
+    if (!parsed || !this.isIsoDate(parsed)) {
+      issues.push({ code: 'INVALID_DATE', path, message: `"${trimmed}" is not a date`, original: trimmed });
+      return trimmed;
+    }
+    if (locale.dateOrderSource === 'default' && this.readings(trimmed).length > 1) {
+      issues.push(this.ambiguous(path, trimmed, parsed));
+    }
+    return parsed;
+  }
+
+  private static normalizeNumbers(value: Record<string, unknown>, path: string, locale: DetectedLocale, issues: NormalizationIssue[]): Record<string, unknown> {
+    const normalized: Record<string, unknown> = {};
+
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = `${path}.${key}`;
+      if (Array.isArray(item)) {
+        normalized[key] = item.map((entry, index) =>
+          this.isObject(entry) ? this.normalizeNumbers(entry, `${itemPath}.${index}`, locale, issues) : entry
+        );
+      } else if (NUMBER_FIELDS.has(key) && typeof item === 'string') {
+        const number = this.parseNumber(item, locale.decimalSeparator);
+        normalized[key] = number ?? item;
+
+        // "1.234" is a thousand and more, or one and a bit, depending on the locale
+        if (number !== undefined && locale.decimalSource === 'default' && /^[^\d]*\d{1,3}[.,]\d{3}[^\d]*$/.test(item)) {
+          issues.push({
+            code: 'AMBIGUOUS_NUMBER',
+            path: itemPath,
+            message: `"${item}" could be ${this.parseNumber(item, '.')} or ${this.parseNumber(item, ',')}; read as ${number}`,
+            original: item,
+            value: number
+          });
+        }
+      } else {
+        normalized[key] = item;
+      }
+    }
+
+    return normalized;
+  }
+
+  // Numeric dates such as "04/03/2024" that read as a valid date either way round
+  private static ambiguousTokens(pdfText: string): string[] {
+    return [...pdfText.matchAll(NUMERIC_DATE)]
+      .filter(match => +match[1] <= 12 && +match[2] <= 12 && match[1] !== match[2])
+      .map(match => match[0]);
+  }
+
+  private static readings(token: string): string[] {
+    const readings = [HeuristicExtractor.parseDate(token, 'DMY'), HeuristicExtractor.parseDate(token, 'MDY')];
+    return [...new Set(readings.filter((reading): reading is string => !!reading && this.isIsoDate(reading)))];
+  }
+
+  private static ambiguous(path: string, token: string, value: string): NormalizationIssue {
+    const [dayFirst, monthFirst] = [HeuristicExtractor.parseDate(token, 'DMY'), HeuristicExtractor.parseDate(token, 'MDY')];
+    return {
+      code: 'AMBIGUOUS_DATE',
+      path,
+      message: `"${token}" could be ${dayFirst} (day/month) or ${monthFirst} (month/day); check which the vendor uses`,
+      original: token,
+      value
+    };
+  }
+
+  // Dates such as 25/03/2024 (day first) or 03/25/2024 (month first) settle the order
+  private static dateOrderInText(pdfText: string): DateOrder | undefined {
+    let dayFirst = 0;
+    let monthFirst = 0;
+    for (const [, first, second] of pdfText.matchAll(NUMERIC_DATE)) {
+      if (+first > 12 && +second <= 12) {
+        dayFirst++;
+      } else if (+second > 12 && +first <= 12) {
+        monthFirst++;
+      }
+    }
+    if (dayFirst === monthFirst) {
+      return undefined;
+    }
+    return dayFirst > monthFirst ? 'DMY' : 'MDY';
+  }
+
+  private static decimalInText(pdfText: string): DecimalSeparator | undefined {
+    const commas = pdfText.match(COMMA_DECIMAL)?.length ?? 0;
+    const points = pdfText.match(POINT_DECIMAL)?.length ?? 0;
+    if (commas === points) {
+      return undefined;
+    }
+    return commas > points ? ',' : '.';
+  }
+
+  /**
+   * ISO 4217 code for the currency as returned ("$", "Rs.", "usd"), or else as the text prints it,
+   * the vendor's country uses, or the default. Symbols that several currencies share and names
+   * that are not currencies are reported. `defaulted` when nothing pointed to a currency.
+   */
+  private static normalizeCurrency(
+    value: unknown,
+    country: string | undefined,
+    pdfText: string,
+    issues: NormalizationIssue[]
+  ): { code: string; defaulted: boolean } {
+    const path = 'invoice.currency';
+    const printed = typeof value === 'string' ? value.trim() : '';
+    const resolved = printed ? Currency.resolve(printed, country) : undefined;
+    const match = resolved ?? Currency.detect(pdfText, country);
+    const countryCurrency = Currency.forCountry(country);
+    const code = match?.code ?? countryCurrency ?? DEFAULT_CURRENCY;
+
+    if (printed && !resolved) {
+      issues.push({ code: 'UNKNOWN_CURRENCY', path, message: `"${printed}" is not an ISO 4217 currency; read as ${code}`, original: printed, value: code });
+    } else if (match?.ambiguous) {
+      issues.push({
+        code: 'AMBIGUOUS_CURRENCY',
+        path,
+        message: `"${match.printed}" could be ${match.candidates.join(', ')}; read as ${code} - check the vendor's currency`,
+        original: match.printed,
+        value: code
+      });
+    }
+    return { code, defaulted: !match && !countryCurrency };
+  }
+
+  private static vendorCountry(vendor: unknown): string | undefined {
+    return this.isObject(vendor) ? this.countryFromTaxId(vendor.taxId) ?? this.countryFromAddress(vendor.address) : undefined;
+  }
+
+  private static countryFromTaxId(taxId: unknown): string | undefined {
+    if (typeof taxId !== 'string') {
+      return undefined;
+    }
+    const compact = taxId.toUpperCase().replace(/[\s.-]/g, '');
+    if (/^\d{2}[A-Z]{5}\d{4}[A-Z][0-9A-Z]Z[0-9A-Z]$/.test(compact)) {
+      return 'IN'; // GSTIN
+    }
+    if (/^\d{2}-\d{7}$/.test(taxId.trim())) {
+      return 'US'; // EIN
+    }
+    // EU VAT numbers start with the country code (Greece uses "EL")
+    const vat = compact.match(/^(AT|BE|BG|CY|CZ|DE|DK|EE|EL|ES|FI|FR|GB|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK)[0-9A-Z]{8,12}$/);
+    if (vat) {
+      return vat[1] === 'EL' ? 'GR' : vat[1];
+    }
+    return undefined;
+  }
+
+  private static countryFromAddress(address: unknown): string | undefined {
+    if (typeof address !== 'string') {
+      return undefined;
+    }
+    const end = address.trim().replace(/[\s.,]*\d*[\s.,]*$/, '');
+    return COUNTRY_NAMES.find(([pattern]) => pattern.test(end))?.[1];
+  }
+
+  private static describeSource(locale: DetectedLocale): string {
+    switch (locale.dateOrderSource) {
+      case 'text':
+        return 'as other dates on the invoice';
+      case 'country':
+        return `vendor in ${locale.country}`;
+      default:
+        return 'usual for the currency';
+    }
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,170 @@
+import path from 'path';
+import { createRequire } from 'module';
+import type { PageLayout, ParsedPdf, TextItemBox } from './pdfTextLayout.js';
+import { PdfTextLayout } from './pdfTextLayout.js';
+
+export interface OcrPageReport {
+  page: number;       // 1-based
+  confidence: number; // Tesseract's mean word confidence, 0..1
+}
+
+export interface OcrReport {
+  pages: OcrPageReport[];
+  averageConfidence: number | null;
+  error?: string; // Set when OCR was needed but could not run
+}
+
+// Pages with fewer printable characters than this are treated as scanned images
+const DEFAULT_MIN_TEXT_CHARS = 20;
+// Render scale for rasterizing (1 = 72 DPI); 2-3 gives Tesseract enough detail
+const DEFAULT_RENDER_SCALE = 2.5;
+
+export class OcrService {
+  static isEnabled(): boolean {
+    return process.env.OCR_ENABLED !== 'false';
+  }
+
+  /**
+   * Page numbers whose text layer is missing or too sparse to extract from
+   */
+  static findPagesWithoutText(pages: PageLayout[]): number[] {
+    const minChars = parseInt(process.env.OCR_MIN_TEXT_CHARS || '', 10) || DEFAULT_MIN_TEXT_CHARS;
+    return pages
+      .filter(page => page.text.replace(/\s/g, '').length < minChars)
+      .map(page => page.pageNumber);
+  }
+
+  /**
+   * Rasterize pages without a text layer and replace their text and text items with
+   * OCR output, so extraction and provenance work the same as for digital PDFs.
+   * Returns the parsed PDF unchanged (with a report) when no page needs OCR or OCR fails.
+   */
+  static async apply(buffer: Buffer, parsed: ParsedPdf): Promise<{ parsed: ParsedPdf; report: OcrReport | null }> {
+    const pageNumbers = this.isEnabled() ? this.findPagesWithoutText(parsed.pages) : [];
+    if (pageNumbers.length === 0) {
+      return { parsed, report: null };
+    }
+
+    console.log(`🔍 Running OCR on ${pageNumbers.length} page(s) without a text layer: ${pageNumbers.join(', ')}`);
+
+    try {
+      const ocrPages = await this.recognizePages(buffer, pageNumbers);
+      const pages = parsed.pages.map(page => ocrPages.get(page.pageNumber)?.layout || page);
+      const reports = [...ocrPages.values()].map(({ layout, confidence }) => ({ page: layout.pageNumber, confidence }));
+
+      return {
+        parsed: { ...parsed, pages, text: PdfTextLayout.joinText(pages) },
+        report: {
+          pages: reports,
+          averageConfidence: reports.length > 0
+            ? Math.round(reports.reduce((sum, report) => sum + report.confidence, 0) / reports.length * 100) / 100
+            : null
+        }
+      };
+    } catch (error) {
+      console.warn('⚠️ OCR failed, continuing with the PDF text layer only:', error);
+      return {
+        parsed,
+        report: {
+          pages: [],
+          averageConfidence: null,
+          error: error instanceof Error ? error.message : 'Unknown OCR error'
+        }
+      };
+    }
+  }
+
+  private static async recognizePages(buffer: Buffer, pageNumbers: number[]): Promise<Map<number, { layout: PageLayout; confidence: number }>> {
+    // Heavy dependencies are only loaded when a scanned page actually shows up
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const { createCanvas } = await import('@napi-rs/canvas');
+    const { createWorker } = await import('tesseract.js');
+
+    const scale = parseFloat(process.env.OCR_RENDER_SCALE || '') || DEFAULT_RENDER_SCALE;
+    // Without the bundled fonts and CMaps, text in non-embedded fonts renders blank in Node
+    const pdfjsRoot = path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'));
+    const document = await pdfjs.getDocument({
+      data: new Uint8Array(buffer),
+      standardFontDataUrl: path.join(pdfjsRoot, 'standard_fonts') + path.sep,
+      cMapUrl: path.join(pdfjsRoot, 'cmaps') + path.sep,
+      cMapPacked: true,
+      verbosity: 0
+    }).promise;
+    const results = new Map<number, { layout: PageLayout; confidence: number }>();
+    let worker: Awaited<ReturnType<typeof createWorker>> | undefined;
+
+    try {
+      const lang = process.env.OCR_LANG || 'eng';
+      const langPath = this.resolveLangPath(lang);
+
+      // Languages are loaded through reinitialize() rather than createWorker(), because
+      // createWorker() never settles when the language data fails to load
+      worker = await createWorker([], 1, {
+        ...(langPath && { langPath }),
+        ...(process.env.OCR_CACHE_PATH ? { cachePath: process.env.OCR_CACHE_PATH } : { cacheMethod: 'none' }),
+        // Without a handler tesseract.js rethrows worker errors outside this promise chain
+        errorHandler: (error: unknown) => console.warn('⚠️ Tesseract worker error:', error)
+      });
+      await worker.reinitialize(lang, 1);
+
+      for (const pageNumber of pageNumbers) {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        await page.render({
+          canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+          viewport
+        }).promise;
+
+        const { data } = await worker.recognize(canvas.toBuffer('image/png'), {}, { text: true, blocks: true });
+
+        // Tesseract boxes are in rendered pixels; convert back to PDF points
+        const items: TextItemBox[] = (data.blocks || [])
+          .flatMap(block => block.paragraphs)
+          .flatMap(paragraph => paragraph.lines)
+          .filter(line => line.text.trim())
+          .map(line => ({
+            str: line.text.trim(),
+            x: line.bbox.x0 / scale,
+            y: line.bbox.y0 / scale,
+            width: (line.bbox.x1 - line.bbox.x0) / scale,
+            height: (line.bbox.y1 - line.bbox.y0) / scale
+          }));
+
+        results.set(pageNumber, {
+          layout: {
+            pageNumber,
+            width: viewport.width / scale,
+            height: viewport.height / scale,
+            text: items.map(item => item.str).join('\n'),
+            items
+          },
+          confidence: Math.round(data.confidence) / 100
+        });
+        page.cleanup();
+      }
+    } finally {
+      await worker?.terminate();
+      await document.destroy();
+    }
+
+    return results;
+  }
+
+  /**
+   * OCR_LANG_PATH if set, else the language data bundled via @tesseract.js-data so OCR
+   * works offline. Returns undefined to let tesseract.js download from its CDN.
+   */
+  private static resolveLangPath(lang: string): string | undefined {
+    if (process.env.OCR_LANG_PATH) {
+      return process.env.OCR_LANG_PATH;
+    }
+
+    try {
+      const require = createRequire(import.meta.url);
+      return path.join(path.dirname(require.resolve(`@tesseract.js-data/${lang}/package.json`)), '4.0.0_best_int');
+    } catch {
+      return undefined;
+    }
+  }
+}
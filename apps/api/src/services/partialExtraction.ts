@@ -0,0 +1,179 @@
+/**
+ * Reads extraction JSON while the provider is still streaming it, so the vendor and each
+ * line item can be shown as soon as they are complete. Values are unvalidated previews;
+ * the final result is parsed and validated as usual.
+ */
+
+export type PartialExtraction =
+  | { kind: 'vendor'; vendor: Record<string, unknown> }
+  | { kind: 'lineItem'; index: number; lineItem: Record<string, unknown> };
+
+const LITERAL = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses the complete part of a JSON prefix. Members cut off mid-value are left out, and
+ * containers whose closing bracket has been read are remembered as complete.
+ */
+class PrefixParser {
+  private pos = 0;
+  private closed = new WeakSet<object>();
+
+  constructor(private text: string) {}
+
+  isComplete(value: object): boolean {
+    return this.closed.has(value);
+  }
+
+  // Returns undefined when the value is cut off (or malformed) before it could be read
+  parseValue(): unknown {
+    this.skipWhitespace();
+    switch (this.text[this.pos]) {
+      case undefined:
+        return undefined;
+      case '{':
+        return this.parseObject();
+      case '[':
+        return this.parseArray();
+      case '"':
+        return this.parseString();
+      default:
+        return this.parseLiteral();
+    }
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    this.pos++;
+
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === '}') {
+        this.pos++;
+        this.closed.add(object);
+        return object;
+      }
+      if (char === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const key = this.parseString();
+      this.skipWhitespace();
+      if (key === undefined || this.text[this.pos] !== ':') {
+        return object;
+      }
+      this.pos++;
+
+      const value = this.parseValue();
+      if (value === undefined) {
+        return object;
+      }
+      object[key] = value;
+    }
+  }
+
+  private parseArray(): unknown[] {
+    const array: unknown[] = [];
+    this.pos++;
+
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === ']') {
+        this.pos++;
+        this.closed.add(array);
+        return array;
+      }
+      if (char === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const value = this.parseValue();
+      if (value === undefined) {
+        return array;
+      }
+      array.push(value);
+    }
+  }
+
+  private parseString(): string | undefined {
+    if (this.text[this.pos] !== '"') {
+      return undefined;
+    }
+
+    for (let end = this.pos + 1; end < this.text.length; end++) {
+      if (this.text[end] === '\\') {
+        end++;
+      } else if (this.text[end] === '"') {
+        const value = JSON.parse(this.text.slice(this.pos, end + 1)) as string;
+        this.pos = end + 1;
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private parseLiteral(): unknown {
+    const match = LITERAL.exec(this.text.slice(this.pos));
+    // A literal running to the end of the text may still be growing (e.g. "12" of "125")
+    if (!match || this.pos + match[0].length >= this.text.length) {
+      return undefined;
+    }
+    this.pos += match[0].length;
+    return JSON.parse(match[0]);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+}
+
+export class PartialExtractionTracker {
+  private text = '';
+  private vendorSent = false;
+  private lineItemsSent = 0;
+
+  /**
+   * Add a streamed chunk of the response; returns the parts that became complete with it
+   */
+  push(chunk: string): PartialExtraction[] {
+    this.text += chunk;
+
+    // Skip any markdown fence or preamble before the JSON
+    const start = this.text.indexOf('{');
+    if (start === -1) {
+      return [];
+    }
+
+    const parser = new PrefixParser(this.text.slice(start));
+    const root = parser.parseValue();
+    if (!isObject(root)) {
+      return [];
+    }
+
+    const updates: PartialExtraction[] = [];
+    if (!this.vendorSent && isObject(root.vendor) && parser.isComplete(root.vendor)) {
+      this.vendorSent = true;
+      updates.push({ kind: 'vendor', vendor: root.vendor });
+    }
+
+    const lineItems = isObject(root.invoice) && Array.isArray(root.invoice.lineItems) ? root.invoice.lineItems : [];
+    while (this.lineItemsSent < lineItems.length) {
+      const lineItem = lineItems[this.lineItemsSent];
+      if (!isObject(lineItem) || !parser.isComplete(lineItem)) {
+        break;
+      }
+      updates.push({ kind: 'lineItem', index: this.lineItemsSent, lineItem });
+      this.lineItemsSent++;
+    }
+
+    return updates;
+  }
+}
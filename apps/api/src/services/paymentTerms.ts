@@ -0,0 +1,49 @@
+/**
+ * Reads payment terms as printed ("Net 30 days", "Due on receipt", "45 days EOM") so a due
+ * date can be scheduled when the invoice does not state one.
+ */
+
+export interface ParsedTerms {
+  days: number;
+  endOfMonth: boolean; // Days count from the end of the invoice month ("EOM")
+}
+
+const IMMEDIATE = /\b(?:due\s+(?:up)?on\s+receipt|on\s+receipt|immediate(?:ly)?|cash\s+on\s+delivery|cod|advance)\b/i;
+// "Net 30", "NET30", "30 days", "within 15 days", "payable in 45 days"
+const NET_DAYS = /\b(?:net\s*(\d{1,3})|(\d{1,3})\s*(?:calendar\s+)?days?)\b/i;
+const END_OF_MONTH = /\b(?:eom|end\s+of\s+(?:the\s+)?month)\b/i;
+
+export class PaymentTerms {
+  static parse(terms: string): ParsedTerms | undefined {
+    if (IMMEDIATE.test(terms)) {
+      return { days: 0, endOfMonth: false };
+    }
+
+    const match = terms.match(NET_DAYS);
+    if (!match) {
+      return undefined;
+    }
+    return { days: parseInt(match[1] ?? match[2], 10), endOfMonth: END_OF_MONTH.test(terms) };
+  }
+
+  /**
+   * Due date (YYYY-MM-DD) for an invoice date and payment terms, or undefined when either
+   * cannot be read
+   */
+  static dueDate(invoiceDate: string | undefined, terms: string | undefined): string | undefined {
+    const parsed = terms ? this.parse(terms) : undefined;
+    const date = invoiceDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!parsed || !date) {
+      return undefined;
+    }
+
+    // UTC keeps the arithmetic clear of daylight-saving shifts
+    const start = parsed.endOfMonth
+      ? Date.UTC(+date[1], +date[2], 0)
+      : Date.UTC(+date[1], +date[2] - 1, +date[3]);
+    if (Number.isNaN(start)) {
+      return undefined;
+    }
+    return new Date(start + parsed.days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * PDF text extraction that keeps pdf.js text positions alongside the plain text
+ */
+
+export interface TextItemBox {
+  str: string;
+  x: number;      // PDF points from the left edge
+  y: number;      // PDF points from the top edge (top of the glyph box)
+  width: number;
+  height: number;
+}
+
+export interface PageLayout {
+  pageNumber: number; // 1-based
+  width: number;
+  height: number;
+  text: string;
+  items: TextItemBox[];
+}
+
+export interface ParsedPdf {
+  text: string;
+  numpages: number;
+  pages: PageLayout[];
+}
+
+// The subset of pdf.js' PDFPageProxy used here (pdf-parse bundles pdf.js 1.10)
+interface PdfTextItem {
+  str: string;
+  width: number;
+  height: number;
+  transform: number[];
+}
+
+interface PdfPageProxy {
+  pageNumber: number;
+  getViewport(scale: number): { width: number; height: number };
+  getTextContent(options: object): Promise<{ items: PdfTextItem[] }>;
+}
+
+export class PdfTextLayout {
+  /**
+   * Parse a PDF into the same text pdf-parse produces, plus per-page text item boxes
+   */
+  static async parse(buffer: Buffer): Promise<ParsedPdf> {
+    // Dynamically import pdf-parse to avoid initialization issues
+    const pdf = (await import('pdf-parse')).default;
+    const pages: PageLayout[] = [];
+
+    const result = await pdf(buffer, {
+      pagerender: (pageData: PdfPageProxy) => this.renderPage(pageData, pages)
+    });
+
+    pages.sort((a, b) => a.pageNumber - b.pageNumber);
+    return { text: result.text, numpages: result.numpages, pages };
+  }
+
+  /**
+   * Rebuild the document text from page texts, in pdf-parse's format
+   */
+  static joinText(pages: PageLayout[]): string {
+    return pages.map(page => `\n\n${page.text}`).join('');
+  }
+
+  private static async renderPage(page: PdfPageProxy, pages: PageLayout[]): Promise<string> {
+    const viewport = page.getViewport(1.0);
+    const textContent = await page.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false
+    });
+
+    const layout: PageLayout = {
+      pageNumber: page.pageNumber,
+      width: viewport.width,
+      height: viewport.height,
+      text: '',
+      items: textContent.items.map(item => {
+        const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+        return {
+          str: item.str,
+          x: item.transform[4],
+          y: viewport.height - item.transform[5] - height,
+          width: item.width,
+          height
+        };
+      })
+    };
+    pages.push(layout);
+
+    // Same line joining as pdf-parse's default renderer, so the prompt text is unchanged
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      if (lastY === item.transform[5] || !lastY) {
+        text += item.str;
+      } else {
+        text += '\n' + item.str;
+      }
+      lastY = item.transform[5];
+    }
+
+    layout.text = text;
+    return text;
+  }
+}
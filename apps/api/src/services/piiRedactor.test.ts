@@ -0,0 +1,115 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PiiRedactor } from './piiRedactor.js';
+
+const ENV_KEYS = ['PII_REDACTION_ENABLED', 'PII_REDACTION_RULES', 'PII_REDACTION_PATTERNS'];
+
+const redact = (text: string) => PiiRedactor.fromEnv().redact(text);
+
+describe('PiiRedactor', () => {
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      delete process.env[key];
+    }
+  });
+
+  describe('IBANs', () => {
+    it('masks a spaced IBAN followed by text on the same line', () => {
+      assert.equal(redact('IBAN: DE89 3704 0044 0532 0130 00 BANK TRANSFER ONLY'), 'IBAN: [IBAN_1] BANK TRANSFER ONLY');
+      assert.equal(redact('IBAN GB29 NWBK 6016 1331 9268 19 Sort code 60-16-13'), 'IBAN [IBAN_1] Sort code 60-16-13');
+      assert.equal(redact('BE68 5390 0754 7034 Bank'), '[IBAN_1] Bank');
+    });
+
+    it('masks a compact IBAN', () => {
+      assert.equal(redact('Pay to DE89370400440532013000.'), 'Pay to [IBAN_1].');
+    });
+
+    it('leaves values that fail the IBAN check digits', () => {
+      assert.equal(redact('Ref DE00 3704 0044 0532 0130 00'), 'Ref DE00 3704 0044 0532 0130 00');
+    });
+  });
+
+  describe('cards', () => {
+    it('masks numbers that pass the Luhn check', () => {
+      assert.equal(redact('Card 4111 1111 1111 1111 expires 2027'), 'Card [CARD_1] expires 2027');
+    });
+
+    it('leaves other long numbers', () => {
+      assert.equal(redact('Order 4111 1111 1111 1112'), 'Order 4111 1111 1111 1112');
+    });
+
+    it('checks the Luhn digit and length', () => {
+      assert.equal(PiiRedactor.passesLuhn('4111-1111-1111-1111'), true);
+      assert.equal(PiiRedactor.passesLuhn('4111 1111 1111 1112'), false);
+      assert.equal(PiiRedactor.passesLuhn('4111 1111 11'), false);
+    });
+  });
+
+  describe('other rules', () => {
+    it('masks emails before the UPI IDs they look like', () => {
+      assert.equal(redact('billing@acme.com or acme@okaxis'), '[EMAIL_1] or [UPI_ID_1]');
+    });
+
+    it('masks capitalised names only', () => {
+      assert.equal(redact('Attn: John Smith'), 'Attn: [PERSON_NAME_1]');
+      assert.equal(redact('Attn: accounts department'), 'Attn: accounts department');
+    });
+
+    it('masks only the number after an account label', () => {
+      assert.equal(redact('A/c No: 123456789012'), 'A/c No: [ACCOUNT_NUMBER_1]');
+    });
+  });
+
+  describe('restore', () => {
+    it('gives a value the same placeholder wherever it appears', () => {
+      const redactor = PiiRedactor.fromEnv();
+
+      assert.equal(redactor.redact('From billing@acme.com'), 'From [EMAIL_1]');
+      assert.equal(redactor.redact('Reply to billing@acme.com'), 'Reply to [EMAIL_1]');
+      assert.deepEqual(redactor.redactions.map(entry => [entry.placeholder, entry.occurrences]), [['[EMAIL_1]', 2]]);
+    });
+
+    it('puts the values back and notes where they went', () => {
+      const redactor = PiiRedactor.fromEnv();
+      redactor.redact('IBAN: DE89 3704 0044 0532 0130 00 BANK\nbilling@acme.com');
+
+      const restored = redactor.restore({ vendor: { email: '[EMAIL_1]' }, invoice: { remittance: { iban: '[IBAN_1]' } } });
+
+      assert.deepEqual(restored, { vendor: { email: 'billing@acme.com' }, invoice: { remittance: { iban: 'DE89 3704 0044 0532 0130 00' } } });
+      assert.deepEqual(redactor.redactions.map(entry => entry.restoredTo), [['vendor.email'], ['invoice.remittance.iban']]);
+    });
+  });
+
+  describe('mask', () => {
+    it('masks a known value no rule recognises, and the same value in text redacted later', () => {
+      const redactor = PiiRedactor.fromEnv();
+
+      assert.equal(redactor.mask('accountNumber', '50200012345678'), '[ACCOUNT_NUMBER_1]');
+      assert.equal(redactor.redact('Pay into 50200012345678'), 'Pay into [ACCOUNT_NUMBER_1]');
+      assert.deepEqual(redactor.restore({ accountNumber: '[ACCOUNT_NUMBER_1]' }), { accountNumber: '50200012345678' });
+    });
+
+    it('changes nothing when disabled', () => {
+      process.env.PII_REDACTION_ENABLED = 'false';
+
+      assert.equal(PiiRedactor.fromEnv().mask('iban', 'DE89370400440532013000'), 'DE89370400440532013000');
+    });
+  });
+
+  describe('configuration', () => {
+    it('changes nothing when disabled', () => {
+      process.env.PII_REDACTION_ENABLED = 'false';
+
+      assert.equal(PiiRedactor.fromEnv().isActive, false);
+      assert.equal(redact('billing@acme.com'), 'billing@acme.com');
+    });
+
+    it('applies only the selected rules and the custom patterns', () => {
+      process.env.PII_REDACTION_RULES = 'email';
+      process.env.PII_REDACTION_PATTERNS = JSON.stringify([{ name: 'customerId', pattern: 'CUST-\\d+' }]);
+
+      assert.deepEqual(PiiRedactor.fromEnv().ruleNames, ['email', 'customerId']);
+      assert.equal(redact('CUST-42 billing@acme.com 4111 1111 1111 1111'), '[CUSTOMER_ID_1] [EMAIL_1] 4111 1111 1111 1111');
+    });
+  });
+});
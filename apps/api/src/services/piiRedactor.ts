@@ -0,0 +1,272 @@
+import mongoose from 'mongoose';
+import { RedactionAudit, type RedactionAuditEntry, type RedactionEntry } from '../models/RedactionAudit.js';
+import { BankDetails } from './bankDetails.js';
+
+/**
+ * Masks personal and payment data before invoice text is sent to an external provider,
+ * and puts the values back into the provider's response
+ */
+
+export interface RedactionRule {
+  name: string;
+  patterns: RegExp[];  // Global; where a pattern has a capture group only the group is masked
+  validate?: (value: string) => boolean;
+}
+
+// A rule configured in PII_REDACTION_PATTERNS
+interface CustomRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+// Applied in this order, so emails are masked before the UPI IDs they look like
+const BUILT_IN_RULES: RedactionRule[] = [
+  {
+    name: 'email',
+    patterns: [/\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi]
+  },
+  {
+    name: 'upiId',
+    patterns: [/\b[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}\b(?![.@])/gi]
+  },
+  {
+    // Printed in groups of four, which keeps a following word on the same line out of the match
+    name: 'iban',
+    patterns: [/\b[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]{4}){2,7}(?:[ ]?[A-Z0-9]{1,3})?\b/g],
+    validate: value => BankDetails.isValidIban(value)
+  },
+  {
+    name: 'accountNumber',
+    patterns: [/\b(?:a\/c|acc(?:oun)?t|acct)\.?\s*(?:no\b\.?|number|#)?\s*[:.-]?\s*(\d[\d -]{5,}\d)\b/gi]
+  },
+  {
+    name: 'card',
+    patterns: [/\b\d(?:[ -]?\d){12,18}\b/g],
+    validate: value => PiiRedactor.passesLuhn(value)
+  },
+  {
+    name: 'phone',
+    patterns: [
+      /\b(?:phone|tel(?:ephone)?|mobile|mob|cell|ph|fax|whatsapp|contact\s+no)\b\.?\s*(?:no\b\.?|number)?\s*[:.-]?\s*(\+?\d[\d\s().-]{6,}\d)/gi,
+      /(?<![\w+])\+\d{1,3}[\s-]?\(?\d{1,4}\)?(?:[\s-]?\d{2,5}){2,4}(?!\d)/g
+    ]
+  },
+  {
+    name: 'personName',
+    patterns: [/\b(?:attn|attention|contact\s+person|contact\s+name|prepared\s+by|sales\s*person|representative)\b\.?[ \t]*[:-][ \t]*((?:(?:mr|mrs|ms|dr)\.? )?[a-z][a-z'’-]+(?: [a-z][a-z'’.-]+){0,3})/gi],
+    // Names are capitalised; "Attn: accounts department" is not a person
+    validate: value => value.split(' ').every(word => /^[A-Z]/.test(word))
+  }
+];
+
+export class PiiRedactor {
+  private placeholders = new Map<string, string>(); // Original value to placeholder
+  private entries = new Map<string, RedactionEntry>(); // By placeholder
+  private counts = new Map<string, number>(); // Placeholders per rule, for numbering
+
+  constructor(private rules: RedactionRule[] = []) {}
+
+  /**
+   * A redactor with the configured rules, or one that changes nothing when
+   * PII_REDACTION_ENABLED is false
+   */
+  static fromEnv(): PiiRedactor {
+    if (process.env.PII_REDACTION_ENABLED === 'false') {
+      return new PiiRedactor();
+    }
+
+    const selected = process.env.PII_REDACTION_RULES?.split(',').map(name => name.trim()).filter(Boolean);
+    const builtIn = selected ? BUILT_IN_RULES.filter(rule => selected.includes(rule.name)) : BUILT_IN_RULES;
+    return new PiiRedactor([...builtIn, ...this.customRules()]);
+  }
+
+  // Card numbers carry a Luhn check digit, which most other long numbers fail
+  static passesLuhn(value: string): boolean {
+    const digits = value.replace(/\D/g, '');
+    if (digits.length < 13 || digits.length > 19) {
+      return false;
+    }
+    let sum = 0;
+    for (let index = 0; index < digits.length; index++) {
+      let digit = Number(digits[digits.length - 1 - index]);
+      if (index % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) {
+          digit -= 9;
+        }
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  // Audit records are stored in MongoDB; without it they are only logged
+  static isAuditAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  static async record(entry: RedactionAuditEntry): Promise<void> {
+    if (!this.isAuditAvailable()) {
+      console.log(`🔒 Redacted ${entry.redactions.length} value(s) before calling ${entry.provider}: ${entry.redactions.map(redaction => redaction.placeholder).join(', ') || 'none'}`);
+      return;
+    }
+
+    try {
+      await RedactionAudit.create(entry);
+    } catch (error) {
+      // A lost audit entry must not fail the extraction itself
+      console.warn('⚠️ Failed to record redactions:', error);
+    }
+  }
+
+  static async list(filter: { fileId?: string; limit: number }): Promise<RedactionAuditEntry[]> {
+    return RedactionAudit.find(filter.fileId ? { fileId: filter.fileId } : {})
+      .sort({ timestamp: -1 })
+      .limit(filter.limit)
+      .select('-_id -__v')
+      .lean<RedactionAuditEntry[]>();
+  }
+
+  get isActive(): boolean {
+    return this.rules.length > 0;
+  }
+
+  get ruleNames(): string[] {
+    return this.rules.map(rule => rule.name);
+  }
+
+  get redactions(): RedactionEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Replace sensitive values with placeholders such as "[EMAIL_1]". The same value always
+   * gets the same placeholder, and values masked earlier are masked wherever they appear.
+   */
+  redact(text: string): string {
+    let redacted = text;
+    for (const rule of this.rules) {
+      for (const pattern of rule.patterns) {
+        redacted = redacted.replace(pattern, (match: string, group?: unknown) => {
+          const found = typeof group === 'string' ? group : match;
+          const value = rule.validate ? this.validPrefix(rule, found) : found;
+          if (!value?.trim()) {
+            return match;
+          }
+          return match.replace(value, this.placeholderFor(rule.name, value));
+        });
+      }
+    }
+
+    for (const [value, placeholder] of this.placeholders) {
+      redacted = redacted.split(value).join(placeholder);
+    }
+    return redacted;
+  }
+
+  /**
+   * Mask a value known to be sensitive, whatever its format (a corrected account number
+   * no rule would recognise). Where it appears in text redacted later, it is masked too.
+   */
+  mask(rule: string, value: string): string {
+    return this.isActive && value.trim() ? this.placeholderFor(rule, value) : value;
+  }
+
+  /**
+   * Redact every string in a value (table cells, earlier corrections)
+   */
+  redactValue<T>(value: T): T {
+    return this.walk(value, text => this.redact(text)) as T;
+  }
+
+  /**
+   * Put the original values back into a parsed response, noting which fields they went into
+   */
+  restore<T>(value: T): T {
+    return this.walk(value, (text, path) => this.restoreText(text, path), '') as T;
+  }
+
+  // Streamed previews are restored without being counted
+  restorePreview<T>(value: T): T {
+    return this.walk(value, text => this.restoreText(text)) as T;
+  }
+
+  /**
+   * The value, or failing that its longest valid prefix that ends before a space, for matches
+   * that ran on into the text after the value ("DE89 3704 0044 0532 0130 00 BANK")
+   */
+  private validPrefix(rule: RedactionRule, value: string): string | undefined {
+    for (let end = value.length; end > 0; end = value.lastIndexOf(' ', end - 1)) {
+      const candidate = value.slice(0, end).trimEnd();
+      if (rule.validate!(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  private restoreText(text: string, path?: string): string {
+    if (!text.includes('[')) {
+      return text;
+    }
+
+    let restored = text;
+    for (const [value, placeholder] of this.placeholders) {
+      if (restored.includes(placeholder)) {
+        restored = restored.split(placeholder).join(value);
+        const entry = this.entries.get(placeholder)!;
+        if (path && !entry.restoredTo.includes(path)) {
+          entry.restoredTo.push(path);
+        }
+      }
+    }
+    return restored;
+  }
+
+  private placeholderFor(rule: string, value: string): string {
+    const existing = this.placeholders.get(value);
+    if (existing) {
+      this.entries.get(existing)!.occurrences++;
+      return existing;
+    }
+
+    const count = (this.counts.get(rule) ?? 0) + 1;
+    this.counts.set(rule, count);
+    const placeholder = `[${rule.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}_${count}]`;
+    this.placeholders.set(value, placeholder);
+    this.entries.set(placeholder, { rule, placeholder, occurrences: 1, restoredTo: [] });
+    return placeholder;
+  }
+
+  private walk(value: unknown, transform: (text: string, path?: string) => string, path?: string): unknown {
+    const child = (key: string | number) => path === undefined ? undefined : path ? `${path}.${key}` : String(key);
+    if (typeof value === 'string') {
+      return transform(value, path);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.walk(item, transform, child(index)));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.walk(item, transform, child(key))]));
+    }
+    return value;
+  }
+
+  private static customRules(): RedactionRule[] {
+    const configured = process.env.PII_REDACTION_PATTERNS;
+    if (!configured) {
+      return [];
+    }
+
+    try {
+      return (JSON.parse(configured) as CustomRule[]).map(({ name, pattern, flags = '' }) => ({
+        name,
+        patterns: [new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`)]
+      }));
+    } catch (error) {
+      console.warn('⚠️ Ignoring invalid PII_REDACTION_PATTERNS:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+}
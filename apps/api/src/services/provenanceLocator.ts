@@ -0,0 +1,206 @@
+import { ConfidenceScorer } from './confidenceScorer.js';
+import { HeuristicExtractor } from './heuristicExtractor.js';
+import type { PageLayout } from './pdfTextLayout.js';
+
+export interface BoundingBox {
+  x: number;      // Fractions of the page size (0..1), top-left origin,
+  y: number;      // so the viewer can scale them to any render size
+  width: number;
+  height: number;
+}
+
+export interface FieldProvenance {
+  page: number;   // 1-based
+  text: string;   // The matched text span as printed in the PDF
+  bbox: BoundingBox;
+}
+
+// Keyed by field path, e.g. "vendor.name" or "invoice.lineItems.0.total"
+export type ProvenanceMap = Record<string, FieldProvenance>;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface IndexedPage {
+  layout: PageLayout;
+  text: string;   // Item strings joined by single spaces, lowercased
+  original: string;
+  itemSpans: Array<Span & { index: number }>;
+  numbers: Array<Span & { value: number }>;
+  dates: Array<Span & { value: string }>;
+}
+
+interface Match {
+  page: IndexedPage;
+  span: Span;
+  bbox: BoundingBox;
+}
+
+const LINE_ITEM_FIELD = /^(invoice\.lineItems\.\d+)\.(\w+)$/;
+
+export class ProvenanceLocator {
+  /**
+   * Find where each extracted value is printed in the PDF. Values are matched against
+   * the pdf.js text items: strings by normalised text, numbers and dates by parsed value.
+   * Line item numbers are searched on the same row as their description first.
+   */
+  static locate(data: object, pages: PageLayout[]): ProvenanceMap {
+    const indexed = pages.map(page => this.indexPage(page));
+    const anchors = new Map<string, Match>();
+    const provenance: ProvenanceMap = {};
+
+    for (const [path, value] of Object.entries(ConfidenceScorer.flatten(data))) {
+      if (value === undefined || value === null || value === '' || typeof value === 'boolean') {
+        continue;
+      }
+
+      const lineItem = path.match(LINE_ITEM_FIELD);
+      const anchor = lineItem ? anchors.get(lineItem[1]) : undefined;
+      const match = this.findMatch(value, indexed, anchor);
+      if (!match) {
+        continue;
+      }
+
+      if (lineItem && lineItem[2] === 'description') {
+        anchors.set(lineItem[1], match);
+      }
+
+      provenance[path] = {
+        page: match.page.layout.pageNumber,
+        text: match.page.original.slice(match.span.start, match.span.end),
+        bbox: match.bbox
+      };
+    }
+
+    return provenance;
+  }
+
+  private static indexPage(layout: PageLayout): IndexedPage {
+    let original = '';
+    const itemSpans: IndexedPage['itemSpans'] = [];
+
+    layout.items.forEach((item, index) => {
+      const str = item.str.replace(/\s+/g, ' ').trim();
+      if (!str) {
+        return;
+      }
+      if (original) {
+        original += ' ';
+      }
+      itemSpans.push({ index, start: original.length, end: original.length + str.length });
+      original += str;
+    });
+
+    const text = original.toLowerCase();
+    const numbers: IndexedPage['numbers'] = [];
+    const dates: IndexedPage['dates'] = [];
+
+    for (const token of text.matchAll(/-?\d[\d,]*(?:\.\d+)?/g)) {
+      numbers.push({
+        start: token.index!,
+        end: token.index! + token[0].length,
+        value: this.round(HeuristicExtractor.parseAmount(token[0]))
+      });
+    }
+
+    for (const token of text.matchAll(/\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}|\d{1,2}(?:st|nd|rd|th)?[\s-]+[a-z]{3,}\.?,?[\s-]+\d{2,4}|[a-z]{3,}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4}/g)) {
+      // Both readings of ambiguous numeric dates, as either may have been extracted
+      const values = new Set([HeuristicExtractor.parseDate(token[0]), HeuristicExtractor.parseDate(token[0], 'MDY')]);
+      for (const value of values) {
+        if (value) {
+          dates.push({ start: token.index!, end: token.index! + token[0].length, value });
+        }
+      }
+    }
+
+    return { layout, text, original, itemSpans, numbers, dates };
+  }
+
+  private static findMatch(value: unknown, pages: IndexedPage[], anchor?: Match): Match | undefined {
+    const candidates: Match[] = [];
+
+    for (const page of pages) {
+      for (const span of this.findSpans(value, page)) {
+        const bbox = this.spanBox(page, span);
+        if (bbox) {
+          candidates.push({ page, span, bbox });
+        }
+      }
+    }
+
+    if (anchor) {
+      const sameRow = candidates.find(candidate =>
+        candidate.page === anchor.page &&
+        Math.abs(candidate.bbox.y - anchor.bbox.y) < Math.max(anchor.bbox.height, candidate.bbox.height)
+      );
+      if (sameRow) {
+        return sameRow;
+      }
+    }
+
+    return candidates[0];
+  }
+
+  private static findSpans(value: unknown, page: IndexedPage): Span[] {
+    if (typeof value === 'number') {
+      const rounded = this.round(value);
+      return page.numbers.filter(token => token.value === rounded);
+    }
+
+    const needle = String(value).replace(/\s+/g, ' ').trim().toLowerCase();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(needle)) {
+      const dates = page.dates.filter(token => token.value === needle);
+      if (dates.length > 0) {
+        return dates;
+      }
+    }
+
+    const spans: Span[] = [];
+    for (let start = page.text.indexOf(needle); start !== -1; start = page.text.indexOf(needle, start + 1)) {
+      spans.push({ start, end: start + needle.length });
+    }
+    return spans;
+  }
+
+  /**
+   * Union of the boxes of every text item the span touches, as page fractions.
+   * Partially covered items are narrowed in proportion to the characters matched.
+   */
+  private static spanBox(page: IndexedPage, span: Span): BoundingBox | undefined {
+    const boxes = page.itemSpans
+      .filter(item => item.start < span.end && item.end > span.start)
+      .map(item => {
+        const box = page.layout.items[item.index];
+        const length = item.end - item.start;
+        const from = (Math.max(span.start, item.start) - item.start) / length;
+        const to = (Math.min(span.end, item.end) - item.start) / length;
+        return { ...box, x: box.x + box.width * from, width: box.width * (to - from) };
+      });
+
+    if (boxes.length === 0 || !page.layout.width || !page.layout.height) {
+      return undefined;
+    }
+
+    const left = Math.min(...boxes.map(box => box.x));
+    const top = Math.min(...boxes.map(box => box.y));
+    const right = Math.max(...boxes.map(box => box.x + box.width));
+    const bottom = Math.max(...boxes.map(box => box.y + box.height));
+
+    return {
+      x: this.round4(left / page.layout.width),
+      y: this.round4(top / page.layout.height),
+      width: this.round4((right - left) / page.layout.width),
+      height: this.round4((bottom - top) / page.layout.height)
+    };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private static round4(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,59 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ExtractionProvider, ProviderRequest, ProviderResponse } from './types.js';
+
+export class GeminiProvider implements ExtractionProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  readonly source = 'model';
+  private gemini: GoogleGenerativeAI;
+
+  constructor() {
+    this.model = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
+    this.gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+  }
+
+  isConfigured(): boolean {
+    return Boolean(process.env.GEMINI_API_KEY);
+  }
+
+  async extract({ prompt, onChunk }: ProviderRequest): Promise<ProviderResponse> {
+    const model = this.gemini.getGenerativeModel({ model: this.model });
+    
+    try {
+      let response;
+      if (onChunk) {
+        const result = await model.generateContentStream(prompt);
+        for await (const chunk of result.stream) {
+          onChunk(chunk.text());
+        }
+        response = await result.response;
+      } else {
+        const result = await model.generateContent(prompt);
+        response = await result.response;
+      }
+
+      return {
+        text: response.text(),
+        usage: {
+          inputTokens: response.usageMetadata?.promptTokenCount,
+          outputTokens: response.usageMetadata?.candidatesTokenCount
+        }
+      };
+    } catch (error: any) {
+      // Handle quota exceeded errors specifically
+      if (error.message && error.message.includes('429 Too Many Requests')) {
+        const quotaError = new Error('Gemini API quota exceeded. You have reached the free tier limit of 50 requests per day. Please try again tomorrow or upgrade to a paid plan.');
+        quotaError.name = 'QuotaExceededError';
+        throw quotaError;
+      }
+      
+      // Handle other API errors
+      if (error.message && error.message.includes('API key')) {
+        throw new Error('Invalid or missing Gemini API key. Please check your GEMINI_API_KEY environment variable.');
+      }
+      
+      // Re-throw other errors
+      throw error;
+    }
+  }
+}
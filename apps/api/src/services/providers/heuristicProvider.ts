@@ -0,0 +1,20 @@
+import { HeuristicExtractor } from '../heuristicExtractor.js';
+import type { ExtractionProvider, ProviderRequest, ProviderResponse } from './types.js';
+
+/**
+ * Offline provider: no network, no API key, deterministic output
+ */
+export class HeuristicProvider implements ExtractionProvider {
+  readonly name = 'heuristic';
+  readonly model = 'regex-v1';
+  readonly source = 'heuristic';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async extract({ pdfText, tables }: ProviderRequest): Promise<ProviderResponse> {
+    const { data, confidence } = HeuristicExtractor.extract(pdfText, tables);
+    return { text: JSON.stringify({ ...data, confidence }) };
+  }
+}
@@ -0,0 +1,124 @@
+import type { ExtractionProvider, ProviderRequest, ProviderResponse } from './types.js';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// One server-sent event of a streamed completion
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+  usage?: ChatCompletionResponse['usage']; // Only on the last chunk
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API:
+ * OpenAI itself, or a local llama.cpp / Ollama / vLLM server via OPENAI_BASE_URL
+ */
+export class OpenAICompatibleProvider implements ExtractionProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly source = 'model';
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor() {
+    this.model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    this.baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = process.env.OPENAI_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    // Local servers usually need no key, so a custom base URL is enough
+    return Boolean(this.apiKey || process.env.OPENAI_BASE_URL);
+  }
+
+  async extract({ prompt, onChunk }: ProviderRequest): Promise<ProviderResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        ...(onChunk && { stream: true, stream_options: { include_usage: true } })
+      })
+    });
+
+    if (response.status === 429) {
+      const quotaError = new Error(`OpenAI-compatible API quota exceeded at ${this.baseUrl}. Please try again later.`);
+      quotaError.name = 'QuotaExceededError';
+      throw quotaError;
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Invalid or missing OpenAI-compatible API key. Please check your OPENAI_API_KEY environment variable.');
+    }
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible request failed: ${response.status} ${response.statusText}`);
+    }
+
+    if (onChunk && response.body) {
+      return this.readStream(response.body, onChunk);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      usage: {
+        inputTokens: data.usage?.prompt_tokens,
+        outputTokens: data.usage?.completion_tokens
+      }
+    };
+  }
+
+  // Collect a streamed completion, passing each piece of content on as it arrives
+  private async readStream(body: ReadableStream<Uint8Array>, onChunk: (text: string) => void): Promise<ProviderResponse> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let text = '';
+    let usage: ChatCompletionChunk['usage'];
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data || data === '[DONE]') {
+          continue;
+        }
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) {
+          text += content;
+          onChunk(content);
+        }
+        usage = chunk.usage || usage;
+      }
+    }
+
+    return {
+      text,
+      usage: {
+        inputTokens: usage?.prompt_tokens,
+        outputTokens: usage?.completion_tokens
+      }
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import type { ExtractionProvider, ProviderFactory } from './types.js';
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenAICompatibleProvider } from './openaiCompatibleProvider.js';
+import { HeuristicProvider } from './heuristicProvider.js';
+
+export interface ProviderSummary {
+  name: string;
+  model: string;
+  configured: boolean;
+  isDefault: boolean;
+}
+
+const factories = new Map<string, ProviderFactory>();
+
+export class ProviderRegistry {
+  /**
+   * Register a provider factory under a name usable in extract requests
+   */
+  static register(name: string, factory: ProviderFactory): void {
+    factories.set(name, factory);
+  }
+
+  /**
+   * Provider used when a request does not name one (EXTRACTION_PROVIDER, else gemini)
+   */
+  static getDefaultName(): string {
+    return process.env.EXTRACTION_PROVIDER || 'gemini';
+  }
+
+  static has(name: string): boolean {
+    return factories.has(name);
+  }
+
+  /**
+   * Create the named provider, falling back to the configured default
+   */
+  static get(name?: string): ExtractionProvider {
+    const providerName = name || this.getDefaultName();
+    const factory = factories.get(providerName);
+
+    if (!factory) {
+      const error = new Error(`Unknown extraction provider "${providerName}". Available providers: ${[...factories.keys()].join(', ')}`);
+      error.name = 'UnknownProviderError';
+      throw error;
+    }
+
+    return factory();
+  }
+
+  static list(): ProviderSummary[] {
+    const defaultName = this.getDefaultName();
+    return [...factories.keys()].map(name => {
+      const provider = this.get(name);
+      return {
+        name,
+        model: provider.model,
+        configured: provider.isConfigured(),
+        isDefault: name === defaultName
+      };
+    });
+  }
+}
+
+// Built-in providers
+ProviderRegistry.register('gemini', () => new GeminiProvider());
+ProviderRegistry.register('openai', () => new OpenAICompatibleProvider());
+ProviderRegistry.register('heuristic', () => new HeuristicProvider());
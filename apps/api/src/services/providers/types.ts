@@ -0,0 +1,32 @@
+import type { LayoutTable } from '../tableLayout.js';
+
+/**
+ * Contract shared by every extraction backend (hosted LLMs, local servers, offline extractors)
+ */
+
+export interface ProviderUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface ProviderRequest {
+  prompt: string;  // Full extraction prompt, for LLM-backed providers
+  pdfText: string; // Raw PDF text, for providers that work on the text directly
+  tables?: LayoutTable[]; // Line-item tables rebuilt from the PDF layout, when the text came from a PDF
+  onChunk?: (text: string) => void; // Streaming providers pass each piece of the response as it arrives
+}
+
+export interface ProviderResponse {
+  text: string; // Raw response, expected to hold the extraction JSON
+  usage?: ProviderUsage;
+}
+
+export interface ExtractionProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly source: 'model' | 'heuristic'; // Reported as the source of each extracted field
+  isConfigured(): boolean;
+  extract(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+export type ProviderFactory = () => ExtractionProvider;
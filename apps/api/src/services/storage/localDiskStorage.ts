@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { fileURLToPath } from 'url';
+import { fileNotFoundError, type StorageAdapter, type StoredObject } from './types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// apps/api/uploads, from both src/ and dist/
+const DEFAULT_DIRECTORY = path.resolve(__dirname, '../../../uploads');
+
+// Keys are file names, optionally in folders; nothing that could leave the directory
+const VALID_KEY = /^[\w-][\w.-]*(?:\/[\w-][\w.-]*)*$/;
+
+/**
+ * Keeps uploads in a local directory, so the API works offline. Files are served by
+ * GET /api/files/:key behind an HMAC-signed, expiring link.
+ */
+export class LocalDiskStorage implements StorageAdapter {
+  readonly name = 'local';
+  private directory: string;
+
+  // Without STORAGE_SIGNING_SECRET links only work until the API restarts
+  private static generatedSecret?: string;
+
+  constructor() {
+    this.directory = path.resolve(process.env.STORAGE_LOCAL_DIR || DEFAULT_DIRECTORY);
+
+    if (!process.env.STORAGE_SIGNING_SECRET) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('Local storage needs STORAGE_SIGNING_SECRET in production, or file links would break on every restart');
+      }
+      console.warn('⚠️ STORAGE_SIGNING_SECRET is not set; file links will stop working when the API restarts');
+    }
+  }
+
+  async put(key: string, data: Buffer): Promise<StoredObject> {
+    const filePath = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+    return { key, size: data.length };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.pathFor(key);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      throw fileNotFoundError(key);
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    this.pathFor(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const baseUrl = (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/+$/, '');
+    return `${baseUrl}/api/files/${encodeURIComponent(key)}?expires=${expires}&signature=${LocalDiskStorage.signature(key, expires)}`;
+  }
+
+  /**
+   * Whether a link's signature matches its key and it has not expired
+   */
+  static verify(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+    const expected = Buffer.from(this.signature(key, expires));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  private static signature(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.secret()).update(`${key}\n${expires}`).digest('hex');
+  }
+
+  private static secret(): string {
+    if (process.env.STORAGE_SIGNING_SECRET) {
+      return process.env.STORAGE_SIGNING_SECRET;
+    }
+    this.generatedSecret ??= crypto.randomBytes(32).toString('hex');
+    return this.generatedSecret;
+  }
+
+  private pathFor(key: string): string {
+    if (!VALID_KEY.test(key)) {
+      throw fileNotFoundError(key);
+    }
+    return path.join(this.directory, key);
+  }
+}
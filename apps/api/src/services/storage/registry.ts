@@ -0,0 +1,53 @@
+import type { StorageAdapter, StorageFactory } from './types.js';
+import { LocalDiskStorage } from './localDiskStorage.js';
+import { VercelBlobStorage } from './vercelBlobStorage.js';
+import { S3Storage } from './s3Storage.js';
+
+// Signed links are handed to the browser with uploads and invoices; S3 accepts at most seven days
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const factories = new Map<string, StorageFactory>();
+const adapters = new Map<string, StorageAdapter>(); // Created on first use
+
+export class StorageRegistry {
+  static register(driver: string, factory: StorageFactory): void {
+    factories.set(driver, factory);
+  }
+
+  /**
+   * Configured driver (STORAGE_DRIVER): Vercel Blob when BLOB_READ_WRITE_TOKEN is set, else local disk
+   */
+  static getDriverName(): string {
+    return process.env.STORAGE_DRIVER || (process.env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : 'local');
+  }
+
+  /**
+   * The adapter of a driver, by default the configured one. Files written before
+   * STORAGE_DRIVER was changed are deleted through the driver that wrote them.
+   */
+  static get(driver = this.getDriverName()): StorageAdapter {
+    const existing = adapters.get(driver);
+    if (existing) {
+      return existing;
+    }
+
+    const factory = factories.get(driver);
+    if (!factory) {
+      throw new Error(`Unknown storage driver "${driver}". Available drivers: ${[...factories.keys()].join(', ')}`);
+    }
+
+    const adapter = factory();
+    adapters.set(driver, adapter);
+    console.log(`🗄️ Using the ${driver} storage driver`);
+    return adapter;
+  }
+
+  static signedUrlTtl(): number {
+    return parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS || '', 10) || DEFAULT_SIGNED_URL_TTL_SECONDS;
+  }
+}
+
+// Built-in drivers
+StorageRegistry.register('local', () => new LocalDiskStorage());
+StorageRegistry.register('vercel-blob', () => new VercelBlobStorage());
+StorageRegistry.register('s3', () => new S3Storage());
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { fileNotFoundError, type StorageAdapter, type StoredObject } from './types.js';
+
+// Longest expiry S3 accepts for a presigned URL
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+const sha256 = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+// URI encoding as AWS Signature Version 4 expects it: everything but A-Z a-z 0-9 - _ . ~
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Keeps uploads in an S3-compatible bucket: AWS S3, or MinIO and similar servers via
+ * S3_ENDPOINT. Requests are signed with AWS Signature Version 4.
+ */
+export class S3Storage implements StorageAdapter {
+  readonly name = 's3';
+  private bucket: string;
+  private region: string;
+  private endpoint: string;
+  private pathStyle: boolean;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+
+  constructor() {
+    this.bucket = process.env.S3_BUCKET || '';
+    this.region = process.env.S3_REGION || 'us-east-1';
+    this.endpoint = (process.env.S3_ENDPOINT || `https://s3.${this.region}.amazonaws.com`).replace(/\/+$/, '');
+    // MinIO and most self-hosted servers only serve buckets as a path segment
+    this.pathStyle = process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE !== 'false'
+      : Boolean(process.env.S3_ENDPOINT);
+    this.accessKeyId = process.env.S3_ACCESS_KEY_ID || '';
+    this.secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || '';
+
+    if (!this.bucket || !this.accessKeyId || !this.secretAccessKey) {
+      throw new Error('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<StoredObject> {
+    const response = await this.request('PUT', key, data, { 'content-type': contentType });
+    if (!response.ok) {
+      throw await this.requestError('store', key, response);
+    }
+    return { key, size: data.length };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      throw fileNotFoundError(key);
+    }
+    if (!response.ok || !response.body) {
+      throw await this.requestError('fetch', key, response);
+    }
+    return Readable.fromWeb(response.body as WebReadableStream);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw await this.requestError('delete', key, response);
+    }
+  }
+
+  // A presigned GET URL, valid for at most seven days
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return this.presign(key, expiresInSeconds, new Date());
+  }
+
+  private presign(key: string, expiresInSeconds: number, now: Date): string {
+    const { host, path } = this.location(key);
+    const { amzDate, scope } = this.scope(now);
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(Math.max(Math.floor(expiresInSeconds), 1), MAX_PRESIGN_SECONDS)),
+      'X-Amz-SignedHeaders': 'host'
+    };
+    const signature = this.signature('GET', path, query, { host }, 'UNSIGNED-PAYLOAD', now);
+    return `${this.origin(host)}${path}?${this.canonicalQuery({ ...query, 'X-Amz-Signature': signature })}`;
+  }
+
+  private async request(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    const now = new Date();
+    const { host, path } = this.location(key);
+    const payloadHash = sha256(body ?? '');
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': this.scope(now).amzDate
+    };
+    // fetch sets the Host header itself, but it is signed like the others
+    const signedHeaders = { ...headers, host };
+    const signature = this.signature(method, path, {}, signedHeaders, payloadHash, now);
+    return fetch(`${this.origin(host)}${path}`, {
+      method,
+      headers: {
+        ...headers,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${this.scope(now).scope}, SignedHeaders=${Object.keys(signedHeaders).sort().join(';')}, Signature=${signature}`
+      },
+      body: body && new Uint8Array(body)
+    });
+  }
+
+  /**
+   * Signature Version 4 of a request: the canonical request is hashed into the string to sign,
+   * which is signed with a key derived from the secret, date, region and service
+   */
+  private signature(
+    method: string,
+    path: string,
+    query: Record<string, string>,
+    headers: Record<string, string>,
+    payloadHash: string,
+    now: Date
+  ): string {
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    const canonicalRequest = [
+      method,
+      path,
+      this.canonicalQuery(query),
+      names.map(name => `${name}:${lowerCased[name].trim().replace(/\s+/g, ' ')}\n`).join(''),
+      names.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const { amzDate, dateStamp, scope } = this.scope(now);
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.secretAccessKey}`, dateStamp), this.region)
+    );
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private scope(now: Date): { amzDate: string; dateStamp: string; scope: string } {
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+    return { amzDate, dateStamp, scope: `${dateStamp}/${this.region}/s3/aws4_request` };
+  }
+
+  private canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+  }
+
+  // Host and encoded path of an object, with the bucket in the path or in the host name
+  private location(key: string): { host: string; path: string } {
+    const endpoint = new URL(this.endpoint);
+    const objectPath = key.split('/').map(encodeRfc3986).join('/');
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+    return this.pathStyle
+      ? { host: endpoint.host, path: `${basePath}/${encodeRfc3986(this.bucket)}/${objectPath}` }
+      : { host: `${this.bucket}.${endpoint.host}`, path: `${basePath}/${objectPath}` };
+  }
+
+  private origin(host: string): string {
+    return `${new URL(this.endpoint).protocol}//${host}`;
+  }
+
+  private async requestError(action: string, key: string, response: Response): Promise<Error> {
+    const detail = (await response.text().catch(() => '')).match(/<Message>([^<]*)<\/Message>/)?.[1];
+    return new Error(`Failed to ${action} ${key} in S3 bucket ${this.bucket}: ${response.status} ${detail || response.statusText}`);
+  }
+}
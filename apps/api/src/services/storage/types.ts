@@ -0,0 +1,23 @@
+import type { Readable } from 'stream';
+
+/**
+ * Contract shared by every place uploaded PDFs can be kept (local disk, Vercel Blob, S3-compatible stores)
+ */
+
+export interface StoredObject {
+  key: string;  // e.g. "<fileId>.pdf"
+  size: number; // Bytes
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<StoredObject>;
+  getStream(key: string): Promise<Readable>; // Throws a FileNotFoundError when nothing is stored under the key
+  delete(key: string): Promise<void>;        // Deleting a missing key is not an error
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>; // A URL a browser can load the file from
+}
+
+export type StorageFactory = () => StorageAdapter;
+
+export const fileNotFoundError = (key: string): Error =>
+  Object.assign(new Error(`No stored file "${key}". Please upload the file first.`), { name: 'FileNotFoundError' });
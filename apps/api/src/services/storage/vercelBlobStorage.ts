@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { put, head, del, BlobNotFoundError } from '@vercel/blob';
+import { fileNotFoundError, type StorageAdapter, type StoredObject } from './types.js';
+
+/**
+ * Keeps uploads in Vercel Blob (BLOB_READ_WRITE_TOKEN). Blobs are public, so their
+ * URL is the signed URL and does not expire.
+ */
+export class VercelBlobStorage implements StorageAdapter {
+  readonly name = 'vercel-blob';
+
+  async put(key: string, data: Buffer, contentType: string): Promise<StoredObject> {
+    await put(key, data, { access: 'public', contentType });
+    return { key, size: data.length };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const response = await fetch(await this.urlOf(key));
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch ${key} from Vercel Blob: ${response.status} ${response.statusText}`);
+    }
+    return Readable.fromWeb(response.body as WebReadableStream);
+  }
+
+  async delete(key: string): Promise<void> {
+    await del(key);
+  }
+
+  async signedUrl(key: string): Promise<string> {
+    return this.urlOf(key);
+  }
+
+  private async urlOf(key: string): Promise<string> {
+    try {
+      return (await head(key)).url;
+    } catch (error) {
+      throw error instanceof BlobNotFoundError ? fileNotFoundError(key) : error;
+    }
+  }
+}
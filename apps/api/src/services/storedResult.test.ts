@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StoredResult } from './storedResult.js';
+
+const invoice = {
+  data: { invoice: { number: 'INV-1' } },
+  confidence: {
+    'invoice.number': { score: 0.9, source: 'text' },
+    'invoice.lineItems.0.total': { score: 0.6, source: 'computed' }
+  },
+  provenance: {
+    'invoice.number': { page: 1, text: 'INV-1', bbox: { x: 10, y: 20, width: 30, height: 8 } }
+  }
+};
+
+const hasDottedKey = (value: unknown): boolean =>
+  typeof value === 'object' && value !== null &&
+  Object.entries(value).some(([key, item]) => key.includes('.') || hasDottedKey(item));
+
+describe('StoredResult', () => {
+  it('stores maps keyed by field path as lists of entries', () => {
+    const stored = StoredResult.encode({ ...invoice, invoices: [invoice], ocr: null });
+
+    assert.equal(hasDottedKey(stored), false);
+    assert.deepEqual(stored.confidence, [
+      { path: 'invoice.number', score: 0.9, source: 'text' },
+      { path: 'invoice.lineItems.0.total', score: 0.6, source: 'computed' }
+    ]);
+  });
+
+  it('reads them back as maps', () => {
+    const result = { ...invoice, invoices: [invoice], ocr: null };
+
+    assert.deepEqual(StoredResult.decode(StoredResult.encode(result)), result);
+  });
+
+  it('reads results stored as maps as they are', () => {
+    assert.deepEqual(StoredResult.decode(invoice), invoice);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Extraction results as kept in MongoDB (the extraction cache and finished jobs). Confidence and
+ * provenance maps are keyed by field paths such as "invoice.lineItems.0.total", which MongoDB
+ * would read as nested fields, so they are stored as lists of `{ path, ...field }` entries.
+ */
+
+type StoredEntry = { path: string } & Record<string, unknown>;
+
+// Maps keyed by field path, at the top level of a result and of each of its invoices
+const PATH_KEYED = new Set(['confidence', 'provenance']);
+
+export class StoredResult {
+  static encode<T extends object>(result: T): Record<string, unknown> {
+    return this.map(result, value =>
+      this.isObject(value) ? Object.entries(value).map(([path, field]) => ({ path, ...(field as object) })) : value
+    );
+  }
+
+  /**
+   * Back to maps keyed by field path. Results stored before they were encoded are returned as they are.
+   */
+  static decode<T>(stored: Record<string, unknown>): T {
+    return this.map(stored, value =>
+      Array.isArray(value)
+        ? Object.fromEntries((value as StoredEntry[]).map(({ path, ...field }) => [path, field]))
+        : value
+    ) as T;
+  }
+
+  private static map(result: object, convert: (value: unknown) => unknown): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(result).map(([key, value]) => {
+      if (key === 'invoices' && Array.isArray(value)) {
+        return [key, value.map(invoice => this.isObject(invoice) ? this.map(invoice, convert) : invoice)];
+      }
+      return [key, PATH_KEYED.has(key) ? convert(value) : value];
+    }));
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
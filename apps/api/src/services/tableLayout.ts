@@ -0,0 +1,265 @@
+import type { PageLayout, TextItemBox } from './pdfTextLayout.js';
+
+/**
+ * Rebuilds line-item tables from pdf.js text positions, so each cell keeps the column it was printed in
+ */
+
+export type ColumnRole =
+  | 'index'
+  | 'description'
+  | 'itemCode'
+  | 'quantity'
+  | 'unit'
+  | 'unitPrice'
+  | 'discount'
+  | 'taxRate'
+  | 'taxType'
+  | 'taxAmount'
+  | 'amount'
+  | 'other';
+
+export interface TableColumn {
+  header: string;   // Header label as printed, stacked header lines joined top to bottom
+  role: ColumnRole;
+  left: number;     // PDF points from the left edge
+  right: number;
+}
+
+export interface LayoutTable {
+  page: number;       // 1-based
+  columns: TableColumn[];
+  rows: string[][];   // One cell per column, '' where the row has nothing in it
+}
+
+interface VisualLine {
+  top: number;
+  bottom: number;
+  center: number;
+  items: TextItemBox[]; // Left to right
+}
+
+// Checked in order, so "Tax Amount" is a tax amount rather than an amount and "Unit Price" is not a unit
+const COLUMN_ROLES: Array<[ColumnRole, RegExp]> = [
+  ['other', /\b(?:pkgs?|packages?)\b/i],
+  ['index', /^(?:s\.?\s*no\.?|sl\.?\s*no\.?|sr\.?\s*no\.?|no\.?|#|sl\.?|sr\.?|item\s+no\.?)$/i],
+  ['taxType', /\btax\s+type\b/i],
+  ['taxRate', /\b(?:tax|gst|vat|igst|cgst|sgst)\s*(?:rate|%)|^(?:tax|gst|vat)\s*%$/i],
+  ['taxAmount', /\b(?:tax|gst|vat)\s+amount\b|^(?:igst|cgst|sgst|gst|vat|tax)$/i],
+  ['discount', /\bdisc(?:ount)?\.?\b/i],
+  ['itemCode', /\b(?:hsn|sac|sku|code)\b/i],
+  ['quantity', /\b(?:qty|quantity|hours|hrs)\b/i],
+  ['unitPrice', /\b(?:unit\s+price|rate|price|mrp)\b/i],
+  ['unit', /^(?:unit|uom|per)$/i],
+  ['description', /\b(?:description|particulars|item|product|goods|services|details)\b/i],
+  ['amount', /\b(?:amount|total|value)\b/i]
+];
+
+// Words seen in line-item table headers; a line made only of these is read as a header line
+const HEADER_WORDS = new Set([
+  'sl', 'sr', 's', 'no', 'item', 'items', 'description', 'of', 'goods', 'services', 'particulars', 'product',
+  'details', 'kind', 'pkgs', 'packages', 'hsn', 'sac', 'sku', 'code', 'qty', 'quantity', 'hours', 'hrs',
+  'unit', 'units', 'uom', 'per', 'price', 'rate', 'mrp', 'disc', 'discount', 'net', 'gross', 'taxable',
+  'tax', 'type', 'gst', 'igst', 'cgst', 'sgst', 'vat', 'amount', 'amt', 'total', 'value', 'and'
+]);
+
+// Labels of the totals block rows that follow the table body
+const SUMMARY_CELL = /^\s*(?:sub\s*-?\s*total|total|grand\s+total|amount\s+due|balance\s+due|tax|vat|gst|igst|cgst|sgst|discount|shipping|round(?:ing)?\s*off|less)\b/i;
+
+// The body ends at a vertical gap this many line heights tall
+const MAX_ROW_GAP = 4;
+
+export class TableLayout {
+  /**
+   * Find line-item tables on the given pages: a header naming a description and an amount
+   * column, and the rows below it up to the totals block
+   */
+  static detect(pages: PageLayout[]): LayoutTable[] {
+    const tables: LayoutTable[] = [];
+    for (const page of pages) {
+      const lines = this.visualLines(page.items);
+      let index = 0;
+      while (index < lines.length) {
+        const header = this.headerAt(lines, index);
+        if (!header) {
+          index++;
+          continue;
+        }
+        const { rows, end } = this.bodyRows(lines, header.end, header.columns);
+        if (rows.length > 0) {
+          tables.push({ page: page.pageNumber, columns: header.columns, rows });
+        }
+        index = end;
+      }
+    }
+    return tables;
+  }
+
+  /**
+   * Render tables as pipe-separated text for the extraction prompt
+   */
+  static format(tables: LayoutTable[]): string {
+    const row = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+    return tables
+      .map(table => [`Page ${table.page}:`, row(table.columns.map(column => column.header)), ...table.rows.map(row)].join('\n'))
+      .join('\n\n');
+  }
+
+  /**
+   * Group text items into lines by their vertical centers
+   */
+  private static visualLines(items: TextItemBox[]): VisualLine[] {
+    const center = (item: TextItemBox) => item.y + item.height / 2;
+    const sorted = items.filter(item => item.str.trim()).sort((a, b) => center(a) - center(b));
+
+    const lines: VisualLine[] = [];
+    for (const item of sorted) {
+      const line = lines[lines.length - 1];
+      const height = line ? Math.min(item.height, line.bottom - line.top) : 0;
+      if (line && center(item) - line.center <= Math.max(height / 2, 1)) {
+        line.items.push(item);
+        line.top = Math.min(line.top, item.y);
+        line.bottom = Math.max(line.bottom, item.y + item.height);
+        line.center = line.items.reduce((sum, lineItem) => sum + center(lineItem), 0) / line.items.length;
+      } else {
+        lines.push({ top: item.y, bottom: item.y + item.height, center: center(item), items: [item] });
+      }
+    }
+
+    for (const line of lines) {
+      line.items.sort((a, b) => a.x - b.x);
+    }
+    return lines;
+  }
+
+  /**
+   * A header band starting at lines[index]: consecutive header-word lines, merged into columns
+   * wherever their labels overlap horizontally
+   */
+  private static headerAt(lines: VisualLine[], index: number): { columns: TableColumn[]; end: number } | undefined {
+    let end = index;
+    while (
+      end < lines.length &&
+      this.isHeaderLine(lines[end]) &&
+      (end === index || lines[end].top - lines[end - 1].bottom <= 1.5 * (lines[end - 1].bottom - lines[end - 1].top))
+    ) {
+      end++;
+    }
+    if (end === index) {
+      return undefined;
+    }
+
+    const columns: Array<{ labels: string[]; left: number; right: number }> = [];
+    for (const line of lines.slice(index, end)) {
+      for (const item of line.items) {
+        const right = item.x + item.width;
+        const column = columns.find(candidate => this.overlap(candidate.left, candidate.right, item.x, right) > 0);
+        if (column) {
+          column.labels.push(item.str.trim());
+          column.left = Math.min(column.left, item.x);
+          column.right = Math.max(column.right, right);
+        } else {
+          columns.push({ labels: [item.str.trim()], left: item.x, right });
+        }
+      }
+    }
+
+    const tableColumns = columns
+      .sort((a, b) => a.left - b.left)
+      .map(({ labels, left, right }) => {
+        const header = labels.join(' ').replace(/\s+/g, ' ');
+        return { header, role: this.roleOf(header), left, right };
+      });
+
+    const roles = new Set(tableColumns.map(column => column.role));
+    if (!roles.has('description') || !roles.has('amount') || roles.size < 3) {
+      return undefined;
+    }
+    return { columns: tableColumns, end };
+  }
+
+  private static isHeaderLine(line: VisualLine): boolean {
+    const text = line.items.map(item => item.str).join(' ');
+    const words = text.toLowerCase().split(/[^a-z%#]+/).filter(Boolean);
+    return !/\d/.test(text) && words.length > 0 && words.every(word => HEADER_WORDS.has(word) || word === '%' || word === '#');
+  }
+
+  private static roleOf(header: string): ColumnRole {
+    return COLUMN_ROLES.find(([, pattern]) => pattern.test(header))?.[0] ?? 'other';
+  }
+
+  /**
+   * Rows below a header, up to the totals block or a gap. Each row starts at a line with a serial
+   * number (or, without a serial column, an amount); lines in between continue the row above.
+   */
+  private static bodyRows(
+    lines: VisualLine[],
+    start: number,
+    columns: TableColumn[]
+  ): { rows: string[][]; end: number } {
+    const indexColumn = columns.findIndex(column => column.role === 'index');
+    const anchorColumn = indexColumn >= 0 ? indexColumn : columns.findIndex(column => column.role === 'amount');
+
+    const rows: string[][][] = [];
+    let pending: string[][] = [];
+    let end = start;
+    for (; end < lines.length; end++) {
+      const line = lines[end];
+      const previous = lines[end - 1];
+      if (line.top - previous.bottom > MAX_ROW_GAP * (previous.bottom - previous.top) || this.isHeaderLine(line)) {
+        break;
+      }
+
+      const cells: string[][] = columns.map(() => []);
+      for (const item of line.items) {
+        cells[this.columnFor(item, columns)].push(item.str.trim());
+      }
+      const isAnchor = /\d/.test(cells[anchorColumn].join(' '));
+      const label = cells.find(cell => cell.length > 0)?.join(' ') ?? '';
+      if (!isAnchor && SUMMARY_CELL.test(label)) {
+        break;
+      }
+
+      if (isAnchor) {
+        // Description lines printed above the row's numbers belong to the first row
+        const row = rows.length === 0 && pending.length > 0 ? pending : columns.map(() => []);
+        pending = [];
+        cells.forEach((cell, column) => row[column].push(...cell));
+        rows.push(row);
+      } else if (rows.length > 0) {
+        cells.forEach((cell, column) => rows[rows.length - 1][column].push(...cell));
+      } else {
+        if (pending.length === 0) {
+          pending = columns.map(() => []);
+        }
+        cells.forEach((cell, column) => pending[column].push(...cell));
+      }
+    }
+
+    return {
+      rows: rows.map(row => row.map(cell => cell.join(' ').replace(/\s+/g, ' ').trim())),
+      end
+    };
+  }
+
+  /**
+   * The column a cell overlaps most, or the nearest one when it overlaps none
+   */
+  private static columnFor(item: TextItemBox, columns: TableColumn[]): number {
+    const right = item.x + item.width;
+    let best = 0;
+    let bestScore = -Infinity;
+    columns.forEach((column, index) => {
+      const overlap = this.overlap(column.left, column.right, item.x, right);
+      const score = overlap > 0 ? overlap : -Math.min(Math.abs(column.left - right), Math.abs(item.x - column.right));
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  private static overlap(left: number, right: number, otherLeft: number, otherRight: number): number {
+    return Math.min(right, otherRight) - Math.max(left, otherLeft);
+  }
+}
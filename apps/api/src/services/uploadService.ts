@@ -1,17 +1,17 @@
 import multer from 'multer';
+import mongoose from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs/promises';
-import { fileURLToPath } from 'url';
-import { put } from '@vercel/blob';
+import { buffer } from 'stream/consumers';
+import { unzipSync } from 'fflate';
+import { StorageRegistry } from './storage/registry.js';
+import { fileNotFoundError } from './storage/types.js';
+import { Upload, type UploadRecord } from '../models/Upload.js';
+import { Invoice } from '../models/Invoice.js';
+import { ExtractionJob } from '../models/ExtractionJob.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Use Vercel Blob for both development and production
-// This allows testing the full functionality locally
-
-// Configure multer for file uploads - always use memory storage for Vercel Blob
+// Uploads are kept in memory until they are handed to the configured storage
 const storage = multer.memoryStorage();
 
 // File filter for PDFs only
@@ -23,39 +23,250 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
   }
 };
 
+const MAX_PDF_SIZE = 25 * 1024 * 1024;
+
 export const upload = multer({
   storage,
   fileFilter,
   limits: {
-    fileSize: 25 * 1024 * 1024, // 25MB limit
+    fileSize: MAX_PDF_SIZE, // 25MB limit
   }
 });
 
+// Guards against ZIP bombs: total uncompressed size of the PDFs taken from one archive
+const MAX_ARCHIVE_CONTENT_SIZE = 250 * 1024 * 1024;
+
+export const MAX_BATCH_FILES = 50;
+
+// A deletion lock older than this was left by a delete that failed, and no longer counts
+const DELETE_LOCK_MS = 10 * 60 * 1000;
+
+// Batch uploads also accept ZIP archives of PDFs
+const batchFileFilter = (req: Express.Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (file.mimetype === 'application/pdf' || UploadService.isZipFile(file)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only PDF and ZIP files are allowed'));
+  }
+};
+
+// A batch can be several GB, so its files are written to the temp directory and read one at a time
+export const batchUpload = multer({
+  storage: multer.diskStorage({}),
+  fileFilter: batchFileFilter,
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB limit, for ZIP archives
+    files: MAX_BATCH_FILES
+  }
+});
+
+// A PDF to store: an uploaded file or one taken from a ZIP archive
+export interface PdfFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
 export class UploadService {
-  static async saveFile(file: Express.Multer.File): Promise<{ fileId: string; fileName: string; fileUrl: string }> {
-    // Always use Vercel Blob for both development and production
-    const fileName = `${uuidv4()}${path.extname(file.originalname)}`;
-    const blob = await put(fileName, file.buffer, {
-      access: 'public',
-      contentType: 'application/pdf'
+  static isZipFile(file: Express.Multer.File): boolean {
+    return ['application/zip', 'application/x-zip-compressed'].includes(file.mimetype) || /\.zip$/i.test(file.originalname);
+  }
+
+  /**
+   * The PDFs inside a ZIP archive, in archive order. Folders, macOS metadata and
+   * non-PDF entries are skipped.
+   */
+  static extractPdfsFromZip(archive: Buffer): PdfFile[] {
+    let contentSize = 0;
+    const entries = unzipSync(new Uint8Array(archive), {
+      filter: entry => {
+        const baseName = path.basename(entry.name);
+        if (!/\.pdf$/i.test(baseName) || baseName.startsWith('._') || entry.name.startsWith('__MACOSX/')) {
+          return false;
+        }
+        if (entry.originalSize > MAX_PDF_SIZE) {
+          throw new Error(`${entry.name} is larger than the 25MB limit`);
+        }
+        contentSize += entry.originalSize;
+        if (contentSize > MAX_ARCHIVE_CONTENT_SIZE) {
+          throw new Error('The archive contents are larger than the 250MB limit');
+        }
+        return true;
+      }
     });
-    
+
+    return Object.entries(entries)
+      .filter(([, data]) => Buffer.from(data.subarray(0, 5)).toString('latin1') === '%PDF-')
+      .map(([name, data]) => ({ originalname: path.basename(name), buffer: Buffer.from(data) }));
+  }
+
+  // Remove the temp files of a batch upload once it is handled
+  static async discardTempFiles(files: Express.Multer.File[]): Promise<void> {
+    await Promise.all(files.map(file => fs.rm(file.path, { force: true })));
+  }
+
+  // The upload registry is stored in MongoDB; without it uploads are not recorded
+  static isRegistryAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  static async saveFile(file: PdfFile): Promise<{ fileId: string; fileName: string; fileUrl: string }> {
+    const fileId = uuidv4();
+    const key = this.keyFor(fileId);
+    const storage = StorageRegistry.get();
+    const { size } = await storage.put(key, file.buffer, 'application/pdf');
+    await this.register({ fileId, fileName: file.originalname, key, driver: StorageRegistry.getDriverName(), size });
+
     return {
-      fileId: fileName.replace(path.extname(fileName), ''),
+      fileId,
       fileName: file.originalname,
-      fileUrl: blob.url
+      fileUrl: await storage.signedUrl(key, StorageRegistry.signedUrlTtl())
     };
   }
 
-  static async getFilePath(fileId: string): Promise<string> {
-    // File URLs are now stored in the database
-    // This method is kept for backward compatibility but should not be used
-    throw new Error('File URL should be retrieved from database - use fileUrl field instead');
+  /**
+   * Fresh links to uploads, signed by the driver that stored each one. Invoices keep only the
+   * fileId, as a saved link would expire. Uploads that cannot be signed are left out.
+   */
+  static async signedUrls(fileIds: string[]): Promise<Map<string, string>> {
+    const ids = [...new Set(fileIds)];
+    const records = this.isRegistryAvailable() ? await Upload.find({ fileId: { $in: ids } }).lean<UploadRecord[]>() : [];
+    const byFileId = new Map(records.map(record => [record.fileId, record]));
+    const ttl = StorageRegistry.signedUrlTtl();
+
+    const urls = new Map<string, string>();
+    await Promise.all(ids.map(async fileId => {
+      const record = byFileId.get(fileId);
+      try {
+        urls.set(fileId, await StorageRegistry.get(record?.driver).signedUrl(record?.key ?? this.keyFor(fileId), ttl));
+      } catch (error) {
+        if (!(error instanceof Error && error.name === 'FileNotFoundError')) {
+          console.warn(`⚠️ Failed to sign a link to upload ${fileId}:`, error);
+        }
+      }
+    }));
+    return urls;
+  }
+
+  /**
+   * The stored PDF of an upload, read from the storage that holds it. Throws a FileNotFoundError when the storage does not have it.
+   */
+  static async readFile(fileId: string): Promise<Buffer> {
+    const record = this.isRegistryAvailable() ? await Upload.findOne({ fileId }).lean() : null;
+    return buffer(await StorageRegistry.get(record?.driver).getStream(record?.key ?? this.keyFor(fileId)));
   }
 
+  /**
+   * Delete an upload from the storage that holds it, and its registry record
+   */
   static async deleteFile(fileId: string): Promise<void> {
-    // File deletion would require the blob URL from the database
-    // This would need to be implemented with the Vercel Blob delete API
-    console.log('File deletion should be handled via Vercel Blob API using the stored fileUrl');
+    const record = this.isRegistryAvailable() ? await Upload.findOne({ fileId }).lean() : null;
+    await StorageRegistry.get(record?.driver).delete(record?.key ?? this.keyFor(fileId));
+    if (record) {
+      await Upload.deleteOne({ fileId });
+    }
+  }
+
+  /**
+   * Mark an upload as used by a saved invoice. False when it is being deleted, in which case
+   * the invoice must not keep it. Uploads missing from the registry are not swept, so they count as claimed.
+   */
+  static async claim(fileId: string): Promise<boolean> {
+    if (!this.isRegistryAvailable()) {
+      return true;
+    }
+
+    const claimed = await Upload.findOneAndUpdate(
+      { fileId, ...this.notBeingDeleted() },
+      { $set: { claimed: true }, $unset: { deletingAt: 1 } }
+    );
+    return claimed !== null || !(await Upload.exists({ fileId }));
+  }
+
+  /**
+   * Delete an upload nothing refers to any more, e.g. after its invoice was deleted.
+   * Returns whether it was deleted.
+   */
+  static async deleteIfUnclaimed(fileId: string): Promise<boolean> {
+    if ((await this.claimedFileIds([fileId])).has(fileId)) {
+      return false;
+    }
+    // Released before deleting, so the sweeper retries if the delete fails
+    if (this.isRegistryAvailable()) {
+      await Upload.updateOne({ fileId }, { $set: { claimed: false } });
+    }
+    return this.deleteUnlessClaimed(fileId);
+  }
+
+  /**
+   * Delete an unclaimed upload. It is locked first, so an invoice saved from then on cannot
+   * claim it, and its invoices and jobs are checked again right before the file is deleted.
+   * Returns whether it was deleted.
+   */
+  static async deleteUnlessClaimed(fileId: string): Promise<boolean> {
+    if (this.isRegistryAvailable()) {
+      const locked = await Upload.findOneAndUpdate(
+        { fileId, claimed: { $ne: true }, ...this.notBeingDeleted() },
+        { $set: { deletingAt: new Date() } }
+      );
+      // Claimed, or being deleted by someone else
+      if (!locked && await Upload.exists({ fileId })) {
+        return false;
+      }
+    }
+
+    try {
+      if ((await this.claimedFileIds([fileId])).has(fileId)) {
+        await this.unlock(fileId);
+        return false;
+      }
+      await this.deleteFile(fileId);
+      return true;
+    } catch (error) {
+      await this.unlock(fileId).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * The given uploads that are still in use: saved as an invoice (a PDF holding several
+   * invoices stays until the last is deleted), or waiting for or running an extraction job
+   */
+  static async claimedFileIds(fileIds: string[]): Promise<Set<string>> {
+    const [invoiceFileIds, jobFileIds] = await Promise.all([
+      Invoice.distinct('fileId', { fileId: { $in: fileIds } }),
+      ExtractionJob.distinct('request.fileId', { status: { $in: ['queued', 'running'] }, 'request.fileId': { $in: fileIds } })
+    ]);
+    return new Set<string>([...invoiceFileIds, ...jobFileIds]);
+  }
+
+  private static notBeingDeleted() {
+    return { $or: [{ deletingAt: { $exists: false } }, { deletingAt: { $lt: new Date(Date.now() - DELETE_LOCK_MS) } }] };
+  }
+
+  private static async unlock(fileId: string): Promise<void> {
+    if (this.isRegistryAvailable()) {
+      await Upload.updateOne({ fileId }, { $unset: { deletingAt: 1 } });
+    }
+  }
+
+  private static async register(upload: Omit<UploadRecord, 'createdAt'>): Promise<void> {
+    if (!this.isRegistryAvailable()) {
+      return;
+    }
+
+    try {
+      await Upload.create(upload);
+    } catch (error) {
+      // The file is stored and usable; it is only left out of orphan sweeps
+      console.warn(`⚠️ Failed to record upload ${upload.fileId}:`, error);
+    }
+  }
+
+  // File IDs come from requests, so they are checked before becoming a storage key
+  private static keyFor(fileId: string): string {
+    if (!/^[\w-]+$/.test(fileId)) {
+      throw fileNotFoundError(fileId);
+    }
+    return `${fileId}.pdf`;
   }
 }
@@ -0,0 +1,143 @@
+import { Upload, type UploadRecord } from '../models/Upload.js';
+import { UploadService } from './uploadService.js';
+
+export interface SweptUpload {
+  fileId: string;
+  fileName: string;
+  driver: string;
+  size: number;
+  createdAt: Date;
+  error?: string; // Why the upload could not be deleted
+}
+
+export interface SweepReport {
+  dryRun: boolean;     // Nothing was deleted; `removed` lists what would have been
+  olderThan: Date;     // Uploads stored before this were checked
+  scanned: number;
+  claimed: number;     // Still used by an invoice or an unfinished extraction job
+  removed: SweptUpload[];
+  failed: SweptUpload[];
+}
+
+// Matches how long finished extraction jobs (and the results of batch uploads) are kept
+const DEFAULT_MAX_AGE_HOURS = 7 * 24;
+const DEFAULT_INTERVAL_MINUTES = 60;
+// Uploads whose claims are looked up together
+const BATCH_SIZE = 200;
+
+/**
+ * Deletes uploads that were never saved as an invoice, or whose invoices were all deleted,
+ * once they are older than UPLOAD_ORPHAN_MAX_AGE_HOURS. Only uploads in the registry are swept.
+ */
+export class UploadSweeper {
+  private static timer: NodeJS.Timeout | undefined;
+  private static sweeping = false;
+
+  static maxAgeHours(): number {
+    return parseInt(process.env.UPLOAD_ORPHAN_MAX_AGE_HOURS || '', 10) || DEFAULT_MAX_AGE_HOURS;
+  }
+
+  /**
+   * Sweep on a schedule. Set UPLOAD_SWEEP_ENABLED=false to turn it off, or
+   * UPLOAD_SWEEP_DRY_RUN=true to only log what would be deleted.
+   */
+  static start(): void {
+    if (this.timer || process.env.UPLOAD_SWEEP_ENABLED === 'false') {
+      return;
+    }
+
+    const interval = parseInt(process.env.UPLOAD_SWEEP_INTERVAL_MINUTES || '', 10) || DEFAULT_INTERVAL_MINUTES;
+    this.timer = setInterval(() => void this.scheduledSweep(), interval * 60 * 1000);
+    this.timer.unref();
+    console.log(`🧹 Upload sweeper started (every ${interval} min, uploads older than ${this.maxAgeHours()}h)`);
+
+    void this.scheduledSweep();
+  }
+
+  static stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Find unclaimed uploads older than the given age and delete them, or with dryRun only report them
+   */
+  static async sweep({ dryRun = false, maxAgeHours = this.maxAgeHours() }: { dryRun?: boolean; maxAgeHours?: number } = {}): Promise<SweepReport> {
+    const report: SweepReport = {
+      dryRun,
+      olderThan: new Date(Date.now() - maxAgeHours * 60 * 60 * 1000),
+      scanned: 0,
+      claimed: 0,
+      removed: [],
+      failed: []
+    };
+
+    let batch: UploadRecord[] = [];
+    const cursor = Upload.find({ createdAt: { $lt: report.olderThan } }).sort({ createdAt: 1 }).lean<UploadRecord>().cursor();
+    for await (const upload of cursor) {
+      batch.push(upload);
+      if (batch.length === BATCH_SIZE) {
+        await this.sweepBatch(batch, report);
+        batch = [];
+      }
+    }
+    await this.sweepBatch(batch, report);
+
+    return report;
+  }
+
+  private static async sweepBatch(uploads: UploadRecord[], report: SweepReport): Promise<void> {
+    if (uploads.length === 0) {
+      return;
+    }
+
+    report.scanned += uploads.length;
+    const claimed = await UploadService.claimedFileIds(uploads.map(upload => upload.fileId));
+    report.claimed += claimed.size;
+
+    for (const { fileId, fileName, driver, size, createdAt } of uploads) {
+      if (claimed.has(fileId)) {
+        continue;
+      }
+
+      const swept: SweptUpload = { fileId, fileName, driver, size, createdAt };
+      if (report.dryRun) {
+        report.removed.push(swept);
+        continue;
+      }
+
+      try {
+        // Claimed since the batch was checked: an invoice was saved from it meanwhile
+        if (await UploadService.deleteUnlessClaimed(fileId)) {
+          report.removed.push(swept);
+        } else {
+          report.claimed++;
+        }
+      } catch (error) {
+        report.failed.push({ ...swept, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  }
+
+  private static async scheduledSweep(): Promise<void> {
+    if (this.sweeping || !UploadService.isRegistryAvailable()) {
+      return;
+    }
+
+    this.sweeping = true;
+    try {
+      const report = await this.sweep({ dryRun: process.env.UPLOAD_SWEEP_DRY_RUN === 'true' });
+      if (report.removed.length > 0 || report.failed.length > 0) {
+        const action = report.dryRun ? 'Would delete' : 'Deleted';
+        console.log(`🧹 ${action} ${report.removed.length} unclaimed upload(s) stored before ${report.olderThan.toISOString()}: ${report.removed.map(upload => upload.fileId).join(', ')}`);
+      }
+      for (const upload of report.failed) {
+        console.warn(`⚠️ Failed to delete upload ${upload.fileId}: ${upload.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Upload sweep error:', error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import mongoose from 'mongoose';
+import { UsageRecord, type UsageEntry, type UsageOutcome } from '../models/UsageRecord.js';
+import type { ExtractionProvider, ProviderResponse } from './providers/types.js';
+
+export interface UsageWindow {
+  used: number;
+  limit: number | null;     // null when the window is not limited
+  remaining: number | null;
+  resetAt: string;          // ISO timestamp when the window frees up again
+}
+
+export interface UsageReport {
+  provider: string;
+  daily: UsageWindow;       // Calendar day in UTC
+  perMinute: UsageWindow;   // Rolling 60 seconds
+  tokens: { input: number; output: number }; // Today
+  calls: Record<UsageOutcome, number>;       // Today, by outcome
+}
+
+// A ledger entry written before its call, so concurrent calls see each other
+interface Reservation {
+  entry: UsageEntry;
+  id?: mongoose.Types.ObjectId; // Unset when the entry is kept in memory
+}
+
+export interface UsageLimits {
+  daily: number | null;
+  perMinute: number | null;
+}
+
+// Built-in limits for providers with a known free tier; others are unlimited unless configured
+const DEFAULT_LIMITS: Record<string, UsageLimits> = {
+  gemini: { daily: 50, perMinute: 15 }
+};
+
+const MINUTE_MS = 60 * 1000;
+// A call still pending after this was never settled (its request crashed or was killed) and no longer counts
+const PENDING_TIMEOUT_MS = 10 * MINUTE_MS;
+
+// Settled calls that reached the provider and count against its limits, as do pending calls
+const SETTLED_OUTCOMES: UsageOutcome[] = ['success', 'quota_exceeded', 'error'];
+
+export class UsageTracker {
+  // Used instead of MongoDB when there is no database connection (limits then apply per process)
+  private static memory: UsageEntry[] = [];
+
+  /**
+   * Limits for a provider: <PROVIDER>_DAILY_LIMIT / <PROVIDER>_PER_MINUTE_LIMIT, then
+   * USAGE_DAILY_LIMIT / USAGE_PER_MINUTE_LIMIT, then the built-in defaults.
+   * A limit of 0 turns the limit off.
+   */
+  static getLimits(providerName: string): UsageLimits {
+    const prefix = providerName.toUpperCase();
+    const defaults = DEFAULT_LIMITS[providerName] || { daily: null, perMinute: null };
+    return {
+      daily: this.parseLimit(process.env[`${prefix}_DAILY_LIMIT`] ?? process.env.USAGE_DAILY_LIMIT, defaults.daily),
+      perMinute: this.parseLimit(process.env[`${prefix}_PER_MINUTE_LIMIT`] ?? process.env.USAGE_PER_MINUTE_LIMIT, defaults.perMinute)
+    };
+  }
+
+  /**
+   * Call a provider through the ledger: reserve an entry, enforce the limits, then settle the
+   * entry with the call's tokens, latency and outcome. Offline providers are recorded but never limited.
+   */
+  static async run(provider: ExtractionProvider, call: () => Promise<ProviderResponse>): Promise<ProviderResponse> {
+    const reservation = await this.reserve({
+      provider: provider.name,
+      providerModel: provider.model,
+      timestamp: new Date(),
+      latencyMs: 0,
+      outcome: 'pending'
+    });
+    if (provider.source === 'model') {
+      await this.checkLimits(provider, reservation);
+    }
+
+    const startedAt = Date.now();
+    try {
+      const response = await call();
+      await this.settle(reservation, {
+        inputTokens: response.usage?.inputTokens,
+        outputTokens: response.usage?.outputTokens,
+        latencyMs: Date.now() - startedAt,
+        outcome: 'success'
+      });
+      return response;
+    } catch (error) {
+      await this.settle(reservation, {
+        latencyMs: Date.now() - startedAt,
+        outcome: error instanceof Error && error.name === 'QuotaExceededError' ? 'quota_exceeded' : 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  static async getUsage(providerName: string): Promise<UsageReport> {
+    const now = new Date();
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const minuteStart = new Date(now.getTime() - MINUTE_MS);
+    const limits = this.getLimits(providerName);
+
+    const today = await this.findSince(providerName, dayStart < minuteStart ? dayStart : minuteStart);
+    const counted = (since: Date) => today.filter(entry => entry.timestamp >= since && this.isCounted(entry, now.getTime()));
+    const dailyCalls = counted(dayStart);
+    const minuteCalls = counted(minuteStart);
+    const todayEntries = today.filter(entry => entry.timestamp >= dayStart);
+
+    const calls = { pending: 0, success: 0, quota_exceeded: 0, error: 0, rejected: 0 } as Record<UsageOutcome, number>;
+    todayEntries.filter(entry => !this.isAbandoned(entry, now.getTime())).forEach(entry => calls[entry.outcome]++);
+
+    // The rolling window frees a slot when its oldest call is a minute old
+    const oldestInMinute = minuteCalls.reduce<Date | undefined>(
+      (oldest, entry) => !oldest || entry.timestamp < oldest ? entry.timestamp : oldest,
+      undefined
+    );
+
+    return {
+      provider: providerName,
+      daily: this.window(dailyCalls.length, limits.daily, new Date(dayStart.getTime() + 24 * 60 * MINUTE_MS)),
+      perMinute: this.window(minuteCalls.length, limits.perMinute, new Date((oldestInMinute || now).getTime() + MINUTE_MS)),
+      tokens: {
+        input: todayEntries.reduce((sum, entry) => sum + (entry.inputTokens || 0), 0),
+        output: todayEntries.reduce((sum, entry) => sum + (entry.outputTokens || 0), 0)
+      },
+      calls
+    };
+  }
+
+  /**
+   * Reject the call when its reservation is beyond a limit. Reservations are ranked by
+   * their ledger order, so of concurrent calls only those within the limit go ahead.
+   */
+  private static async checkLimits(provider: ExtractionProvider, reservation: Reservation): Promise<void> {
+    const now = Date.now();
+    const limits = this.getLimits(provider.name);
+    const windows = [
+      ['per-minute', limits.perMinute, new Date(now - MINUTE_MS)],
+      ['daily', limits.daily, new Date(new Date(now).setUTCHours(0, 0, 0, 0))]
+    ] as const;
+
+    for (const [label, limit, since] of windows) {
+      if (limit === null || await this.rank(provider.name, since, reservation) <= limit) {
+        continue;
+      }
+
+      const usage = await this.getUsage(provider.name);
+      const window = label === 'daily' ? usage.daily : usage.perMinute;
+      const message = `${provider.name} ${label} limit of ${limit} requests reached. Try again after ${window.resetAt}.`;
+      await this.settle(reservation, { outcome: 'rejected', error: message });
+      throw Object.assign(new Error(message), { name: 'QuotaExceededError', resetAt: new Date(window.resetAt) });
+    }
+  }
+
+  private static async reserve(entry: UsageEntry): Promise<Reservation> {
+    if (mongoose.connection.readyState === 1) {
+      try {
+        const { _id } = await UsageRecord.create(entry);
+        return { entry, id: _id as mongoose.Types.ObjectId };
+      } catch (error) {
+        // Losing a ledger entry must not fail the extraction itself
+        console.warn('⚠️ Failed to record provider usage:', error);
+      }
+    }
+
+    this.pruneMemory();
+    this.memory.push(entry);
+    return { entry };
+  }
+
+  private static async settle(reservation: Reservation, result: Partial<UsageEntry>): Promise<void> {
+    Object.assign(reservation.entry, result);
+    if (!reservation.id) {
+      return;
+    }
+
+    try {
+      await UsageRecord.updateOne({ _id: reservation.id }, { $set: result });
+    } catch (error) {
+      console.warn('⚠️ Failed to record provider usage:', error);
+    }
+  }
+
+  // Counted calls in the window up to and including the reservation
+  private static async rank(providerName: string, since: Date, reservation: Reservation): Promise<number> {
+    const now = Date.now();
+    const inWindow = (entry: UsageEntry) =>
+      entry.provider === providerName && entry.timestamp >= since && this.isCounted(entry, now);
+    const memoryEnd = reservation.id ? this.memory.length : this.memory.indexOf(reservation.entry) + 1;
+    const fromMemory = this.memory.slice(0, memoryEnd).filter(inWindow).length;
+    if (mongoose.connection.readyState !== 1) {
+      return fromMemory;
+    }
+
+    try {
+      const stored = await UsageRecord.countDocuments({
+        provider: providerName,
+        timestamp: { $gte: since },
+        $or: [
+          { outcome: { $in: SETTLED_OUTCOMES } },
+          { outcome: 'pending', timestamp: { $gte: new Date(now - PENDING_TIMEOUT_MS) } }
+        ],
+        // ObjectIds order the reservations of every API instance the same way
+        ...(reservation.id && { _id: { $lte: reservation.id } })
+      });
+      return stored + fromMemory;
+    } catch (error) {
+      console.warn('⚠️ Failed to read provider usage:', error);
+      return fromMemory;
+    }
+  }
+
+  private static async findSince(providerName: string, since: Date): Promise<UsageEntry[]> {
+    const fromMemory = this.memory.filter(entry => entry.provider === providerName && entry.timestamp >= since);
+    if (mongoose.connection.readyState !== 1) {
+      return fromMemory;
+    }
+
+    try {
+      const stored = await UsageRecord.find({ provider: providerName, timestamp: { $gte: since } })
+        .select('provider providerModel timestamp inputTokens outputTokens latencyMs outcome')
+        .lean<UsageEntry[]>();
+      return [...stored, ...fromMemory];
+    } catch (error) {
+      console.warn('⚠️ Failed to read provider usage:', error);
+      return fromMemory;
+    }
+  }
+
+  private static isCounted(entry: UsageEntry, now: number): boolean {
+    return SETTLED_OUTCOMES.includes(entry.outcome) || (entry.outcome === 'pending' && !this.isAbandoned(entry, now));
+  }
+
+  private static isAbandoned(entry: UsageEntry, now: number): boolean {
+    return entry.outcome === 'pending' && entry.timestamp.getTime() < now - PENDING_TIMEOUT_MS;
+  }
+
+  private static pruneMemory(): void {
+    const cutoff = Date.now() - 24 * 60 * MINUTE_MS;
+    this.memory = this.memory.filter(entry => entry.timestamp.getTime() >= cutoff);
+  }
+
+  private static window(used: number, limit: number | null, resetAt: Date): UsageWindow {
+    return {
+      used,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      resetAt: resetAt.toISOString()
+    };
+  }
+
+  private static parseLimit(value: string | undefined, fallback: number | null): number | null {
+    const limit = parseInt(value || '', 10);
+    if (Number.isNaN(limit)) {
+      return fallback;
+    }
+    return limit > 0 ? limit : null;
+  }
+}
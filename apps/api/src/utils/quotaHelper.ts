@@ -14,7 +14,21 @@ export class QuotaHelper {
    * Get quota information and suggestions based on error type
    */
   static getQuotaInfo(error: Error): QuotaInfo {
-    if (error.message.includes('429 Too Many Requests')) {
+    // Local usage limits know exactly when they reset
+    if ('resetAt' in error && error.resetAt instanceof Date) {
+      return {
+        isQuotaExceeded: true,
+        retryAfter: error.resetAt.toISOString(),
+        suggestions: [
+          'Wait until the usage limit resets',
+          'Raise <PROVIDER>_DAILY_LIMIT / <PROVIDER>_PER_MINUTE_LIMIT if your plan allows more requests',
+          'Check GET /api/extract/quota for current usage'
+        ],
+        upgradeUrl: 'https://ai.google.dev/pricing'
+      };
+    }
+
+    if (error.message.includes('429 Too Many Requests') || error.message.includes('quota exceeded')) {
       return {
         isQuotaExceeded: true,
         retryAfter: '24 hours',
@@ -49,21 +63,6 @@ export class QuotaHelper {
     };
   }
 
-  /**
-   * Get current quota usage estimate (approximate)
-   */
-  static getQuotaUsageEstimate(): { used: number; limit: number; remaining: number } {
-    // This is a rough estimate - in a real app, you'd track this properly
-    const freeTierLimit = 50;
-    const estimatedUsed = Math.floor(Math.random() * freeTierLimit); // Placeholder
-    
-    return {
-      used: estimatedUsed,
-      limit: freeTierLimit,
-      remaining: freeTierLimit - estimatedUsed
-    };
-  }
-
   /**
    * Check if we should use fallback mode
    */
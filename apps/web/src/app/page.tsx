@@ -10,12 +10,26 @@ import { Trash2, Eye, Search } from 'lucide-react';
 import { toast } from 'sonner';
 import PDFViewer from '@/components/PDFViewer';
 import InvoiceForm from '@/components/InvoiceForm';
+import BatchQueue from '@/components/BatchQueue';
+import type { BatchFile, ExtractionCoverage, FieldConfidence, FieldProvenance, NormalizationIssue, PageRange, ReconciliationWarning } from '@/lib/extraction';
+import { applyProgressEvent, initialExtractionProgress, streamExtraction, type ExtractionProgress } from '@/lib/extractionStream';
+import { TaxCalculator, type TaxComponent } from 'invoice-rules';
+import { describeTax } from '@/lib/taxes';
+import type { Remittance } from '@/lib/payments';
+import { formatDate } from '@/lib/dates';
+import { currencySymbol } from '@/lib/currency';
 import axios from 'axios';
 
 interface LineItem {
   description: string;
+  itemCode?: string; // HSN/SAC or item code
+  unit?: string;
   unitPrice: number;
   quantity: number;
+  discountPercent?: number;
+  discountAmount?: number;
+  taxRate?: number;
+  taxAmount?: number;
   total: number;
 }
 
@@ -25,19 +39,28 @@ interface InvoiceFormData {
     address?: string;
     taxId?: string;
   };
+  buyer?: Vendor;
+  shipTo?: Vendor;
   invoice: {
     number: string;
     date: string;
     currency?: string;
     subtotal?: number;
     taxPercent?: number;
+    taxes?: TaxComponent[];
+    reverseCharge?: boolean;
     total?: number;
+    amountInWords?: string;
     poNumber?: string;
     poDate?: string;
+    paymentTerms?: string;
+    dueDate?: string;
+    remittance?: Remittance;
     lineItems: LineItem[];
   };
 }
 
+// Also the shape of the buyer and ship-to parties
 interface Vendor {
   name: string;
   address?: string;
@@ -50,9 +73,15 @@ interface InvoiceData {
   currency?: string;
   subtotal?: number;
   taxPercent?: number;
+  taxes?: TaxComponent[];
+  reverseCharge?: boolean;
   total?: number;
+  amountInWords?: string;
   poNumber?: string;
   poDate?: string;
+  paymentTerms?: string;
+  dueDate?: string; // Computed from the payment terms when the invoice does not state it
+  remittance?: Remittance;
   lineItems: LineItem[];
 }
 
@@ -60,24 +89,55 @@ interface Invoice {
   _id: string;
   fileId: string;
   fileName: string;
-  fileUrl?: string; // For production (Vercel Blob URL)
+  fileUrl?: string; // Link to the PDF, signed by the API each time the invoice is read
+  pageRange?: PageRange; // Pages of the file the invoice was extracted from
   vendor: Vendor;
+  buyer?: Vendor;
+  shipTo?: Vendor;
   invoice: InvoiceData;
   createdAt: string;
   updatedAt?: string;
 }
 
+// One invoice found by POST /api/extract (a PDF may hold several)
+interface ExtractedInvoice {
+  pageRange: PageRange;
+  data: InvoiceFormData;
+  confidence?: Record<string, FieldConfidence>;
+  provenance?: Record<string, FieldProvenance>;
+  normalizationIssues?: NormalizationIssue[];
+  provider?: string;
+  model?: string;
+  fallbackReason?: string;
+  cached?: boolean;
+  coverage?: ExtractionCoverage;
+}
+
+const formatPageRange = ({ start, end }: PageRange) =>
+  start === end ? `page ${start}` : `pages ${start}-${end}`;
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
 export default function Dashboard() {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [buyerFilter, setBuyerFilter] = useState(''); // Buyer entity name; empty for all
+  const [buyers, setBuyers] = useState<string[]>([]);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isViewerOpen, setIsViewerOpen] = useState(false);
-  const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [currentFileName, setCurrentFileName] = useState<string | null>(null);
   const [uploadedFileId, setUploadedFileId] = useState<string | null>(null);
   const [uploadedFileUrl, setUploadedFileUrl] = useState<string | null>(null);
+  const [extractionConfidence, setExtractionConfidence] = useState<Record<string, FieldConfidence> | null>(null);
+  const [extractionProvenance, setExtractionProvenance] = useState<Record<string, FieldProvenance> | null>(null);
+  const [activeHighlight, setActiveHighlight] = useState<FieldProvenance | null>(null);
+  const [normalizationIssues, setNormalizationIssues] = useState<NormalizationIssue[]>([]);
+  const [extractedInvoices, setExtractedInvoices] = useState<ExtractedInvoice[]>([]);
+  const [activeInvoiceIndex, setActiveInvoiceIndex] = useState(0);
+  const [activeBatchJobId, setActiveBatchJobId] = useState<string | null>(null);
+  const [savedBatchJobIds, setSavedBatchJobIds] = useState<string[]>([]);
   const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState<ExtractionProgress | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [loading, setLoading] = useState(false);
   const [mounted, setMounted] = useState(false);
@@ -94,11 +154,16 @@ export default function Dashboard() {
     }
   }, [mounted]);
 
-  const loadInvoices = async () => {
+  // Invoices billed to one buyer entity, or all of them
+  const loadInvoices = async (buyer?: string) => {
     try {
       setLoading(true);
-      const response = await axios.get(`${API_BASE_URL}/invoices`);
+      const [response, buyersResponse] = await Promise.all([
+        axios.get(`${API_BASE_URL}/invoices`, { params: buyer ? { buyer } : undefined }),
+        axios.get(`${API_BASE_URL}/invoices/buyers`)
+      ]);
       setInvoices(response.data.data.invoices);
+      setBuyers(buyersResponse.data.data);
     } catch (error) {
       console.error('Error loading invoices:', error);
       toast.error('Failed to load invoices');
@@ -109,7 +174,8 @@ export default function Dashboard() {
 
   const handleFileSelect = async (file: File) => {
     try {
-      setCurrentFile(file);
+      setCurrentFileName(file.name);
+      setActiveBatchJobId(null);
       
       const formData = new FormData();
       formData.append('pdf', file);
@@ -122,6 +188,7 @@ export default function Dashboard() {
       
       setUploadedFileId(response.data.data.fileId);
       setUploadedFileUrl(response.data.data.fileUrl || null);
+      setExtractedInvoices([]);
       toast.success('PDF uploaded successfully');
     } catch (error) {
       console.error('Error uploading file:', error);
@@ -129,6 +196,65 @@ export default function Dashboard() {
     }
   };
 
+  // Load one of the extracted invoices into the form
+  const showExtractedInvoice = (extracted: ExtractedInvoice[], index: number) => {
+    const current = extracted[index];
+    setActiveInvoiceIndex(index);
+    setSelectedInvoice(current ? {
+      _id: '',
+      fileId: uploadedFileId || '',
+      fileName: currentFileName || '',
+      pageRange: current.pageRange,
+      vendor: current.data.vendor,
+      buyer: current.data.buyer,
+      shipTo: current.data.shipTo,
+      invoice: current.data.invoice,
+      createdAt: new Date().toISOString()
+    } : null);
+    setExtractionConfidence(current?.confidence || null);
+    setExtractionProvenance(current?.provenance || null);
+    setNormalizationIssues(current?.normalizationIssues || []);
+    setActiveHighlight(null);
+  };
+
+  // Show a finished extraction in the form and tell the user how it went
+  const loadExtraction = (extracted: ExtractedInvoice[]) => {
+    console.log('Dashboard: Setting extracted data:', extracted);
+    setExtractedInvoices(extracted);
+    showExtractedInvoice(extracted, 0);
+
+    const fallbackReason = extracted.find(item => item.fallbackReason)?.fallbackReason;
+    const failedChunks = extracted.flatMap(item => item.coverage?.chunks.filter(chunk => chunk.error) ?? []);
+    if (fallbackReason) {
+      // The offline extractor stood in for the AI provider - values need a closer review
+      toast.warning(`Used offline extraction: ${fallbackReason}. Please review the values.`);
+    } else if (extracted.some(item => item.coverage && !item.coverage.complete)) {
+      // Header fields came through, but line items from some pages are missing
+      toast.warning(failedChunks.length > 0
+        ? `Line items could not be extracted from ${failedChunks.map(chunk => formatPageRange(chunk.pageRange)).join(', ')}. Please add them before saving.`
+        : 'The invoice was not extracted completely. Please review the values.');
+    } else if (extracted.length > 1) {
+      toast.success(`Found ${extracted.length} invoices in this PDF - review and save each one`);
+    } else {
+      toast.success(extracted.every(item => item.cached) ? 'Data loaded from a previous extraction' : 'Data extracted successfully');
+    }
+  };
+
+  // Open a batch file whose background extraction has finished
+  const handleReviewBatchFile = async (file: BatchFile) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/extract/jobs/${file.jobId}`);
+      setUploadedFileId(file.fileId || null);
+      setUploadedFileUrl(file.fileUrl || null);
+      setCurrentFileName(file.fileName);
+      setActiveBatchJobId(file.jobId || null);
+      loadExtraction(response.data.data.result.invoices);
+    } catch (error) {
+      console.error('Error loading batch extraction:', error);
+      toast.error('Failed to load the extracted data');
+    }
+  };
+
   const handleExtract = async () => {
     if (!uploadedFileId) {
       toast.error('Please upload a PDF first');
@@ -137,31 +263,28 @@ export default function Dashboard() {
 
     try {
       setIsExtracting(true);
-      const response = await axios.post(`${API_BASE_URL}/extract`, {
+      setExtractionProgress(initialExtractionProgress);
+
+      // Stream the extraction so each stage and partial result shows up as it happens
+      const result = await streamExtraction<{ invoices: ExtractedInvoice[] }>(`${API_BASE_URL}/extract/stream`, {
         fileId: uploadedFileId,
-        model: 'gemini', // Only use Gemini (free)
-        fileUrl: uploadedFileUrl // Pass the Vercel Blob URL
-      });
+        // Provider is chosen server-side (EXTRACTION_PROVIDER) unless set here
+        ...(process.env.NEXT_PUBLIC_EXTRACTION_PROVIDER && { provider: process.env.NEXT_PUBLIC_EXTRACTION_PROVIDER }),
+        fileUrl: uploadedFileUrl, // Used when the API's storage no longer has the file
+        // Extracting the same upload again means the cached result was not good enough
+        refresh: extractedInvoices.length > 0
+      }, event => setExtractionProgress(current => applyProgressEvent(current || initialExtractionProgress, event)));
       
       // Update the form with extracted data
-      const extractedData = {
-        _id: '',
-        fileId: uploadedFileId,
-        fileName: currentFile?.name || '',
-        vendor: response.data.data.vendor,
-        invoice: response.data.data.invoice,
-        createdAt: new Date().toISOString()
-      };
-      
-      console.log('Dashboard: Setting extracted data:', extractedData);
-      setSelectedInvoice(extractedData);
-      
-      toast.success('Data extracted successfully');
+      loadExtraction(result.invoices);
     } catch (error) {
       console.error('Error extracting data:', error);
-      toast.error('Failed to extract data from PDF');
+      toast.error(error instanceof Error && error.message
+        ? `Failed to extract data from PDF: ${error.message}`
+        : 'Failed to extract data from PDF');
     } finally {
       setIsExtracting(false);
+      setExtractionProgress(null);
     }
   };
 
@@ -171,25 +294,56 @@ export default function Dashboard() {
       
       const invoiceData = {
         fileId: uploadedFileId || selectedInvoice?.fileId,
-        fileName: currentFile?.name || selectedInvoice?.fileName,
-        fileUrl: uploadedFileUrl || selectedInvoice?.fileUrl,
+        fileName: currentFileName || selectedInvoice?.fileName,
+        // The pages the invoice was extracted from, even once the other invoices of the file are saved
+        pageRange: selectedInvoice?.pageRange,
         ...data
       };
 
-      if (selectedInvoice?._id) {
+      // New invoices send what was extracted, so the API can learn from the reviewer's corrections
+      const extracted = selectedInvoice?._id ? undefined : extractedInvoices[activeInvoiceIndex];
+
+      const response = selectedInvoice?._id
         // Update existing invoice
-        await axios.put(`${API_BASE_URL}/invoices/${selectedInvoice._id}`, invoiceData);
-        toast.success('Invoice updated successfully');
-      } else {
+        ? await axios.put(`${API_BASE_URL}/invoices/${selectedInvoice._id}`, invoiceData)
         // Create new invoice
-        await axios.post(`${API_BASE_URL}/invoices`, invoiceData);
-        toast.success('Invoice saved successfully');
+        : await axios.post(`${API_BASE_URL}/invoices`, {
+          ...invoiceData,
+          ...(extracted && { extraction: { data: extracted.data, provider: extracted.provider, model: extracted.model } })
+        });
+
+      const warnings: ReconciliationWarning[] = response.data.warnings || [];
+      const saved = selectedInvoice?._id ? 'Invoice updated successfully' : 'Invoice saved successfully';
+      if (warnings.length > 0) {
+        toast.warning(`${saved}, but ${warnings.length} ${warnings.length === 1 ? 'amount does' : 'amounts do'} not add up`);
+      } else {
+        toast.success(saved);
       }
       
-      loadInvoices();
+      loadInvoices(buyerFilter);
+
+      // Keep the file open while other invoices from it are still unsaved
+      const remaining = selectedInvoice?._id ? [] : extractedInvoices.filter((_, index) => index !== activeInvoiceIndex);
+      if (remaining.length > 0) {
+        setExtractedInvoices(remaining);
+        showExtractedInvoice(remaining, Math.min(activeInvoiceIndex, remaining.length - 1));
+        return;
+      }
+
+      // Every invoice from a batch file is saved - mark its queue row done
+      if (activeBatchJobId && !selectedInvoice?._id) {
+        setSavedBatchJobIds(current => [...current, activeBatchJobId]);
+      }
+
+      setExtractedInvoices([]);
       setSelectedInvoice(null);
-      setCurrentFile(null);
+      setExtractionConfidence(null);
+      setExtractionProvenance(null);
+      setNormalizationIssues([]);
+      setActiveHighlight(null);
+      setCurrentFileName(null);
       setUploadedFileId(null);
+      setActiveBatchJobId(null);
     } catch (error) {
       console.error('Error saving invoice:', error);
       toast.error('Failed to save invoice');
@@ -206,7 +360,7 @@ export default function Dashboard() {
     try {
       await axios.delete(`${API_BASE_URL}/invoices/${invoiceId}`);
       toast.success('Invoice deleted successfully');
-      loadInvoices();
+      loadInvoices(buyerFilter);
     } catch (error) {
       console.error('Error deleting invoice:', error);
       toast.error('Failed to delete invoice');
@@ -214,46 +368,15 @@ export default function Dashboard() {
   };
 
   const handleViewInvoice = (invoice: Invoice) => {
+    setExtractedInvoices([]);
     setSelectedInvoice(invoice);
+    setExtractionConfidence(null);
+    setExtractionProvenance(null);
+    setNormalizationIssues([]);
+    setActiveHighlight(null);
     setIsViewerOpen(true);
   };
 
-  // Get currency symbol based on currency code
-  const getCurrencySymbol = (currency: string) => {
-    const currencyMap: { [key: string]: string } = {
-      'INR': '₹',
-      'USD': '$',
-      'EUR': '€',
-      'GBP': '£',
-      'JPY': '¥',
-      'CAD': 'C$',
-      'AUD': 'A$',
-      'CHF': 'CHF',
-      'CNY': '¥',
-      'SEK': 'kr',
-      'NOK': 'kr',
-      'DKK': 'kr',
-      'PLN': 'zł',
-      'CZK': 'Kč',
-      'HUF': 'Ft',
-      'RUB': '₽',
-      'BRL': 'R$',
-      'MXN': '$',
-      'ZAR': 'R',
-      'KRW': '₩',
-      'SGD': 'S$',
-      'HKD': 'HK$',
-      'NZD': 'NZ$',
-      'THB': '฿',
-      'MYR': 'RM',
-      'IDR': 'Rp',
-      'PHP': '₱',
-      'VND': '₫'
-    };
-    
-    return currencyMap[currency?.toUpperCase()] || currency || '₹';
-  };
-
   const filteredInvoices = invoices.filter(invoice =>
     invoice.vendor.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     invoice.invoice.number.toLowerCase().includes(searchQuery.toLowerCase())
@@ -285,26 +408,59 @@ export default function Dashboard() {
           <div className="h-[600px]">
             <PDFViewer
               fileUrl={uploadedFileUrl || undefined}
+              highlight={activeHighlight}
               onFileSelect={handleFileSelect}
             />
           </div>
 
           {/* Invoice Form */}
-          <div className="h-[600px]">
-            <InvoiceForm
-              key={selectedInvoice?._id || 'new'}
-              initialData={selectedInvoice ? {
-                vendor: selectedInvoice.vendor,
-                invoice: selectedInvoice.invoice
-              } : undefined}
-              onSave={handleSave}
-              onExtract={handleExtract}
-              isExtracting={isExtracting}
-              isSaving={isSaving}
-            />
+          <div className="h-[600px] flex flex-col gap-2">
+            {extractedInvoices.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-600">{extractedInvoices.length} invoices in this PDF:</span>
+                {extractedInvoices.map((item, index) => (
+                  <Button
+                    key={item.pageRange.start}
+                    variant={index === activeInvoiceIndex ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => showExtractedInvoice(extractedInvoices, index)}
+                  >
+                    {item.data.invoice.number || `Invoice ${index + 1}`} ({formatPageRange(item.pageRange)})
+                  </Button>
+                ))}
+              </div>
+            )}
+            <div className="flex-1 min-h-0">
+              <InvoiceForm
+                key={selectedInvoice?._id || `new-${selectedInvoice?.pageRange?.start ?? 0}`}
+                initialData={selectedInvoice ? {
+                  vendor: selectedInvoice.vendor,
+                  buyer: selectedInvoice.buyer,
+                  shipTo: selectedInvoice.shipTo,
+                  invoice: selectedInvoice.invoice
+                } : undefined}
+                confidence={extractionConfidence || undefined}
+                provenance={extractionProvenance || undefined}
+                normalizationIssues={normalizationIssues}
+                onFieldFocus={setActiveHighlight}
+                onSave={handleSave}
+                onExtract={handleExtract}
+                isExtracting={isExtracting}
+                progress={extractionProgress}
+                isSaving={isSaving}
+              />
+            </div>
           </div>
         </div>
 
+        {/* Batch Upload Queue */}
+        <BatchQueue
+          apiBaseUrl={API_BASE_URL}
+          activeJobId={activeBatchJobId}
+          savedJobIds={savedBatchJobIds}
+          onReview={handleReviewBatchFile}
+        />
+
         {/* Invoices List */}
         <Card>
           <CardHeader>
@@ -319,7 +475,21 @@ export default function Dashboard() {
                   className="pl-10"
                 />
               </div>
-              <Button onClick={loadInvoices} variant="outline">
+              <select
+                aria-label="Filter by buyer"
+                value={buyerFilter}
+                onChange={(e) => {
+                  setBuyerFilter(e.target.value);
+                  loadInvoices(e.target.value);
+                }}
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+              >
+                <option value="">All buyers</option>
+                {buyers.map(buyer => (
+                  <option key={buyer} value={buyer}>{buyer}</option>
+                ))}
+              </select>
+              <Button onClick={() => loadInvoices(buyerFilter)} variant="outline">
                 Refresh
               </Button>
             </div>
@@ -342,8 +512,10 @@ export default function Dashboard() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Vendor</TableHead>
+                    <TableHead>Buyer</TableHead>
                     <TableHead>Invoice Number</TableHead>
                     <TableHead>Date</TableHead>
+                    <TableHead>Due</TableHead>
                     <TableHead>Total</TableHead>
                     <TableHead>File Name</TableHead>
                     <TableHead className="w-24">Actions</TableHead>
@@ -355,15 +527,22 @@ export default function Dashboard() {
                       <TableCell className="font-medium">
                         {invoice.vendor.name}
                       </TableCell>
+                      <TableCell>{invoice.buyer?.name || '-'}</TableCell>
                       <TableCell>{invoice.invoice.number}</TableCell>
                       <TableCell>
-                        {new Date(invoice.invoice.date).toLocaleDateString()}
+                        {formatDate(invoice.invoice.date)}
+                      </TableCell>
+                      <TableCell>
+                        {formatDate(invoice.invoice.dueDate)}
                       </TableCell>
                       <TableCell>
-                        {getCurrencySymbol(invoice.invoice.currency || 'INR')}{invoice.invoice.total?.toFixed(2) || '0.00'}
+                        {currencySymbol(invoice.invoice.currency)}{invoice.invoice.total?.toFixed(2) || '0.00'}
                       </TableCell>
                       <TableCell className="text-sm text-gray-600">
                         {invoice.fileName}
+                        {invoice.pageRange && (
+                          <span className="block text-xs text-gray-400">{formatPageRange(invoice.pageRange)}</span>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
@@ -414,11 +593,28 @@ export default function Dashboard() {
                       )}
                     </div>
                   </div>
+                  {([['Bill To', selectedInvoice.buyer], ['Ship To', selectedInvoice.shipTo]] as const).map(([title, party]) => party && (
+                    <div key={title} className="bg-gray-50 p-4 rounded-lg">
+                      <h3 className="font-semibold mb-3 text-gray-800">{title}</h3>
+                      <div className="space-y-2 text-sm">
+                        <p><strong>Name:</strong> {party.name}</p>
+                        {party.address && (
+                          <p><strong>Address:</strong> {party.address}</p>
+                        )}
+                        {party.taxId && (
+                          <p><strong>Tax ID:</strong> {party.taxId}</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <h3 className="font-semibold mb-3 text-gray-800">Invoice Information</h3>
                     <div className="space-y-2 text-sm">
                       <p><strong>Number:</strong> {selectedInvoice.invoice.number}</p>
-                      <p><strong>Date:</strong> {new Date(selectedInvoice.invoice.date).toLocaleDateString()}</p>
+                      {selectedInvoice.pageRange && (
+                        <p><strong>Source:</strong> {selectedInvoice.fileName}, {formatPageRange(selectedInvoice.pageRange)}</p>
+                      )}
+                      <p><strong>Date:</strong> {formatDate(selectedInvoice.invoice.date)}</p>
                       {selectedInvoice.invoice.currency && (
                         <p><strong>Currency:</strong> {selectedInvoice.invoice.currency}</p>
                       )}
@@ -426,21 +622,64 @@ export default function Dashboard() {
                         <p><strong>PO Number:</strong> {selectedInvoice.invoice.poNumber}</p>
                       )}
                       {selectedInvoice.invoice.poDate && (
-                        <p><strong>PO Date:</strong> {new Date(selectedInvoice.invoice.poDate).toLocaleDateString()}</p>
+                        <p><strong>PO Date:</strong> {formatDate(selectedInvoice.invoice.poDate)}</p>
+                      )}
+                      {selectedInvoice.invoice.paymentTerms && (
+                        <p><strong>Payment Terms:</strong> {selectedInvoice.invoice.paymentTerms}</p>
                       )}
-                      {selectedInvoice.invoice.taxPercent && (
-                        <p><strong>Tax %:</strong> {selectedInvoice.invoice.taxPercent}%</p>
+                      {selectedInvoice.invoice.dueDate && (
+                        <p><strong>Due Date:</strong> {formatDate(selectedInvoice.invoice.dueDate)}</p>
                       )}
                       {selectedInvoice.invoice.subtotal && (
-                        <p><strong>Subtotal:</strong> {getCurrencySymbol(selectedInvoice.invoice.currency || 'INR')}{selectedInvoice.invoice.subtotal.toFixed(2)}</p>
+                        <p><strong>Subtotal:</strong> {currencySymbol(selectedInvoice.invoice.currency)}{selectedInvoice.invoice.subtotal.toFixed(2)}</p>
+                      )}
+                      {TaxCalculator.components(selectedInvoice.invoice).map((tax, index) => (
+                        <p key={index}>
+                          <strong>{describeTax(tax)}:</strong> {tax.type === 'WITHHOLDING' ? '-' : ''}{currencySymbol(selectedInvoice.invoice.currency)}{TaxCalculator.amount(tax, selectedInvoice.invoice.subtotal).toFixed(2)}
+                        </p>
+                      ))}
+                      {selectedInvoice.invoice.reverseCharge && (
+                        <p><strong>Reverse charge:</strong> tax payable by the buyer</p>
                       )}
                       {selectedInvoice.invoice.total && (
-                        <p><strong>Total:</strong> {getCurrencySymbol(selectedInvoice.invoice.currency || 'INR')}{selectedInvoice.invoice.total.toFixed(2)}</p>
+                        <p><strong>Total:</strong> {currencySymbol(selectedInvoice.invoice.currency)}{selectedInvoice.invoice.total.toFixed(2)}</p>
+                      )}
+                      {selectedInvoice.invoice.amountInWords && (
+                        <p><strong>In Words:</strong> {selectedInvoice.invoice.amountInWords}</p>
                       )}
                     </div>
                   </div>
                 </div>
                 
+                {selectedInvoice.invoice.remittance && (
+                  <div className="bg-gray-50 p-4 rounded-lg">
+                    <h3 className="font-semibold mb-3 text-gray-800">Remittance Details</h3>
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      {selectedInvoice.invoice.remittance.bankName && (
+                        <p><strong>Bank:</strong> {selectedInvoice.invoice.remittance.bankName}</p>
+                      )}
+                      {selectedInvoice.invoice.remittance.accountName && (
+                        <p><strong>Account Name:</strong> {selectedInvoice.invoice.remittance.accountName}</p>
+                      )}
+                      {selectedInvoice.invoice.remittance.accountNumber && (
+                        <p><strong>Account Number:</strong> {selectedInvoice.invoice.remittance.accountNumber}</p>
+                      )}
+                      {selectedInvoice.invoice.remittance.iban && (
+                        <p><strong>IBAN:</strong> {selectedInvoice.invoice.remittance.iban}</p>
+                      )}
+                      {selectedInvoice.invoice.remittance.ifsc && (
+                        <p><strong>IFSC:</strong> {selectedInvoice.invoice.remittance.ifsc}</p>
+                      )}
+                      {selectedInvoice.invoice.remittance.swift && (
+                        <p><strong>SWIFT/BIC:</strong> {selectedInvoice.invoice.remittance.swift}</p>
+                      )}
+                      {selectedInvoice.invoice.remittance.upiId && (
+                        <p><strong>UPI ID:</strong> {selectedInvoice.invoice.remittance.upiId}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {selectedInvoice.invoice.lineItems.length > 0 && (
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <h3 className="font-semibold mb-3 text-gray-800">Line Items</h3>
@@ -451,16 +690,31 @@ export default function Dashboard() {
                             <TableHead className="text-sm">Description</TableHead>
                             <TableHead className="text-sm">Unit Price</TableHead>
                             <TableHead className="text-sm">Quantity</TableHead>
+                            <TableHead className="text-sm">Discount</TableHead>
+                            <TableHead className="text-sm">Tax</TableHead>
                             <TableHead className="text-sm">Total</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
                           {selectedInvoice.invoice.lineItems.map((item, index) => (
                             <TableRow key={index}>
-                              <TableCell className="text-sm">{item.description}</TableCell>
-                              <TableCell className="text-sm">{getCurrencySymbol(selectedInvoice.invoice.currency || 'INR')}{item.unitPrice.toFixed(2)}</TableCell>
-                              <TableCell className="text-sm">{item.quantity}</TableCell>
-                              <TableCell className="text-sm font-medium">{getCurrencySymbol(selectedInvoice.invoice.currency || 'INR')}{item.total.toFixed(2)}</TableCell>
+                              <TableCell className="text-sm">
+                                {item.description}
+                                {item.itemCode && <span className="block text-xs text-gray-500">HSN/SAC {item.itemCode}</span>}
+                              </TableCell>
+                              <TableCell className="text-sm">{currencySymbol(selectedInvoice.invoice.currency)}{item.unitPrice.toFixed(2)}</TableCell>
+                              <TableCell className="text-sm">{item.quantity}{item.unit ? ` ${item.unit}` : ''}</TableCell>
+                              <TableCell className="text-sm">
+                                {item.discountAmount !== undefined
+                                  ? `${currencySymbol(selectedInvoice.invoice.currency)}${item.discountAmount.toFixed(2)}`
+                                  : item.discountPercent !== undefined ? `${item.discountPercent}%` : '-'}
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {item.taxAmount !== undefined
+                                  ? `${currencySymbol(selectedInvoice.invoice.currency)}${item.taxAmount.toFixed(2)}${item.taxRate !== undefined ? ` (${item.taxRate}%)` : ''}`
+                                  : item.taxRate !== undefined ? `${item.taxRate}%` : '-'}
+                              </TableCell>
+                              <TableCell className="text-sm font-medium">{currencySymbol(selectedInvoice.invoice.currency)}{item.total.toFixed(2)}</TableCell>
                             </TableRow>
                           ))}
                         </TableBody>
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Eye, Files, Upload } from 'lucide-react';
+import type { BatchFile } from '@/lib/extraction';
+
+interface BatchQueueProps {
+  apiBaseUrl: string;
+  activeJobId?: string | null; // Row currently loaded in the form
+  savedJobIds: string[];       // Rows whose invoices have all been saved
+  onReview: (file: BatchFile) => void;
+}
+
+interface QueueRow extends BatchFile {
+  batchId: string;
+}
+
+type RowStatus = BatchFile['status'] | 'saved';
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_STYLES: Record<RowStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  running: { label: 'Extracting', className: 'bg-blue-100 text-blue-700' },
+  succeeded: { label: 'Ready for review', className: 'bg-amber-100 text-amber-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  rejected: { label: 'Not uploaded', className: 'bg-red-100 text-red-700' },
+  saved: { label: 'Saved', className: 'bg-green-100 text-green-700' }
+};
+
+const isPending = (row: BatchFile) => row.status === 'queued' || row.status === 'running';
+
+export default function BatchQueue({ apiBaseUrl, activeJobId, savedJobIds, onReview }: BatchQueueProps) {
+  const [rows, setRows] = useState<QueueRow[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const rowStatus = (row: QueueRow): RowStatus =>
+    row.jobId && savedJobIds.includes(row.jobId) ? 'saved' : row.status;
+
+  // Batches that still have files waiting for extraction
+  const pendingBatches = Array.from(new Set(rows.filter(isPending).map(row => row.batchId))).join(',');
+
+  // Poll the pending batches until every file has finished
+  useEffect(() => {
+    if (!pendingBatches) {
+      return;
+    }
+
+    const timer = setInterval(async () => {
+      try {
+        const reports = await Promise.all(
+          pendingBatches.split(',').map(batchId => axios.get(`${apiBaseUrl}/upload/batch/${batchId}`))
+        );
+        const updates = new Map<string, BatchFile>(
+          reports.flatMap(response => response.data.data.files.map((file: BatchFile) => [file.jobId, file]))
+        );
+        setRows(current => current.map(row => {
+          const update = row.jobId ? updates.get(row.jobId) : undefined;
+          return update ? { ...row, status: update.status, error: update.error } : row;
+        }));
+      } catch (error) {
+        console.error('Error polling batch status:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [pendingBatches, apiBaseUrl]);
+
+  const handleFilesChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (selected.length === 0) {
+      return;
+    }
+
+    const formData = new FormData();
+    selected.forEach(file => formData.append('files', file));
+    if (process.env.NEXT_PUBLIC_EXTRACTION_PROVIDER) {
+      formData.append('provider', process.env.NEXT_PUBLIC_EXTRACTION_PROVIDER);
+    }
+
+    try {
+      setIsUploading(true);
+      const response = await axios.post(`${apiBaseUrl}/upload/batch`, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+
+      const { batchId, files }: { batchId: string; files: BatchFile[] } = response.data.data;
+      setRows(current => [...current, ...files.map(file => ({ ...file, batchId }))]);
+
+      const rejected = files.filter(file => file.status === 'rejected').length;
+      if (rejected > 0) {
+        toast.warning(`Queued ${files.length - rejected} files for extraction; ${rejected} could not be uploaded`);
+      } else {
+        toast.success(`Queued ${files.length} files for extraction`);
+      }
+    } catch (error) {
+      console.error('Error uploading batch:', error);
+      toast.error(axios.isAxiosError(error) && error.response?.data?.message
+        ? `Failed to upload batch: ${error.response.data.message}`
+        : 'Failed to upload batch');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const clearSaved = () => {
+    setRows(current => current.filter(row => rowStatus(row) !== 'saved'));
+  };
+
+  const readyCount = rows.filter(row => rowStatus(row) === 'succeeded').length;
+  const savedCount = rows.filter(row => rowStatus(row) === 'saved').length;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Files className="h-5 w-5" />
+          Batch Queue
+        </CardTitle>
+        <div className="flex items-center gap-4">
+          <Button onClick={() => document.getElementById('batch-upload')?.click()} disabled={isUploading}>
+            <Upload className="h-4 w-4" />
+            {isUploading ? 'Uploading...' : 'Upload PDFs or ZIP'}
+          </Button>
+          {rows.length > 0 && (
+            <p className="text-sm text-gray-600">
+              {rows.filter(isPending).length} extracting, {readyCount} ready for review, {savedCount} saved
+            </p>
+          )}
+          {savedCount > 0 && (
+            <Button onClick={clearSaved} variant="outline" size="sm">
+              Clear saved
+            </Button>
+          )}
+        </div>
+        <input
+          id="batch-upload"
+          type="file"
+          accept=".pdf,.zip"
+          multiple
+          onChange={handleFilesChange}
+          className="hidden"
+        />
+      </CardHeader>
+      {rows.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File Name</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-24">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => {
+                const status = STATUS_STYLES[rowStatus(row)];
+                return (
+                  <TableRow key={row.jobId || `${row.batchId}-${index}`} className={row.jobId && row.jobId === activeJobId ? 'bg-blue-50' : undefined}>
+                    <TableCell className="font-medium">{row.fileName}</TableCell>
+                    <TableCell>
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+                      {row.error && (row.status === 'failed' || row.status === 'rejected') && (
+                        <span className="block text-xs text-red-600 mt-1">{row.error.message}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={rowStatus(row) !== 'succeeded'}
+                        onClick={() => onReview(row)}
+                      >
+                        <Eye className="h-4 w-4" />
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ExtractionStage } from '@/lib/extraction';
+import type { ExtractionProgress } from '@/lib/extractionStream';
+
+const STAGE_LABELS: Record<ExtractionStage, string> = {
+  fetching: 'Fetch PDF',
+  parsing: 'Read text',
+  ocr: 'OCR scanned pages',
+  extracting: 'Extract data'
+};
+
+// Partial values are unvalidated, so show whatever type arrived
+const show = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+
+interface ExtractionProgressViewProps {
+  progress: ExtractionProgress;
+}
+
+export default function ExtractionProgressView({ progress }: ExtractionProgressViewProps) {
+  const { stages, invoices } = progress;
+
+  return (
+    <div className="space-y-6">
+      {/* Stages reached so far; the last one is still running */}
+      <ol className="space-y-2">
+        {stages.map((stage, index) => (
+          <li key={stage} className="flex items-center gap-2 text-sm">
+            {index < stages.length - 1 ? (
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+            ) : (
+              <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+            )}
+            <span className={index < stages.length - 1 ? 'text-gray-500' : 'font-medium text-gray-900'}>
+              {index < stages.length - 1 ? STAGE_LABELS[stage] : progress.message}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {invoices.map((invoice, index) => invoice && (
+        <div key={invoice.pageRange.start} className="space-y-3 rounded-lg bg-gray-50 p-4">
+          {invoices.length > 1 && (
+            <h3 className="text-sm font-semibold text-gray-800">
+              Invoice {index + 1} (pages {invoice.pageRange.start}-{invoice.pageRange.end})
+            </h3>
+          )}
+
+          {invoice.vendor ? (
+            <div className="space-y-1 text-sm">
+              <p><strong>Vendor:</strong> {show(invoice.vendor.name)}</p>
+              {Boolean(invoice.vendor.address) && <p><strong>Address:</strong> {show(invoice.vendor.address)}</p>}
+              {Boolean(invoice.vendor.taxId) && <p><strong>Tax ID:</strong> {show(invoice.vendor.taxId)}</p>}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Waiting for vendor details...</p>
+          )}
+
+          {invoice.lineItems.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-sm">Description</TableHead>
+                  <TableHead className="text-sm">Unit Price</TableHead>
+                  <TableHead className="text-sm">Quantity</TableHead>
+                  <TableHead className="text-sm">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoice.lineItems.map((item, itemIndex) => (
+                  <TableRow key={itemIndex}>
+                    <TableCell className="text-sm">{show(item.description)}</TableCell>
+                    <TableCell className="text-sm">{show(item.unitPrice)}</TableCell>
+                    <TableCell className="text-sm">{show(item.quantity)}</TableCell>
+                    <TableCell className="text-sm">{show(item.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {!invoice.done && invoice.vendor && (
+            <p className="flex items-center gap-2 text-xs text-gray-500">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Reading line items...
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -7,56 +7,148 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Plus, Trash2, Save, Bot } from 'lucide-react';
-import { useForm, useFieldArray } from 'react-hook-form';
+import { Plus, Trash2, Save, Bot, AlertTriangle } from 'lucide-react';
+import { useForm, useFieldArray, get } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { cn } from '@/lib/utils';
+import { Currency, DEFAULT_CURRENCY, InvoiceValidator, TAX_TYPES, TaxCalculator } from 'invoice-rules';
+import { TAX_TYPE_LABELS, describeTax } from '@/lib/taxes';
+import { currencySymbol as symbolFor } from '@/lib/currency';
+import { dueDateFromTerms, isValidIban, isValidIfsc, isValidSwift, isValidUpiId } from '@/lib/payments';
+import type { FieldConfidence, FieldProvenance, NormalizationIssue, ReconciliationWarning } from '@/lib/extraction';
+import type { ExtractionProgress } from '@/lib/extractionStream';
+import ExtractionProgressView from '@/components/ExtractionProgressView';
+
+// Optional number inputs are left undefined rather than NaN while empty
+const optionalNumber = { setValueAs: (value: unknown) => (value === '' || value === undefined ? undefined : Number(value)) };
 
 const lineItemSchema = z.object({
   description: z.string().min(1, 'Description is required'),
+  itemCode: z.string().optional(),
+  unit: z.string().optional(),
   unitPrice: z.number().min(0, 'Unit price must be positive'),
-  quantity: z.number().min(1, 'Quantity must be at least 1'),
+  quantity: z.number().positive('Quantity must be more than 0'),
+  discountPercent: z.number().min(0).max(100).optional(),
+  discountAmount: z.number().min(0).optional(),
+  taxRate: z.number().min(0).optional(),
+  taxAmount: z.number().optional(),
   total: z.number().min(0, 'Total must be positive')
 });
 
+const taxSchema = z.object({
+  type: z.enum(TAX_TYPES),
+  rate: z.number().optional(),
+  taxableAmount: z.number().optional(),
+  amount: z.number().optional()
+});
+
+// Bank codes are optional, but must be well-formed when given
+const bankCode = (isValid: (value: string) => boolean, message: string) =>
+  z.string().optional().refine(value => !value || isValid(value), message);
+
+const remittanceSchema = z.object({
+  bankName: z.string().optional(),
+  accountName: z.string().optional(),
+  accountNumber: z.string().optional(),
+  iban: bankCode(isValidIban, 'Invalid IBAN'),
+  ifsc: bankCode(isValidIfsc, 'Invalid IFSC code'),
+  swift: bankCode(isValidSwift, 'Invalid SWIFT/BIC code'),
+  upiId: bankCode(isValidUpiId, 'Invalid UPI ID')
+});
+
+const REMITTANCE_FIELDS = [
+  { name: 'bankName', label: 'Bank Name' },
+  { name: 'accountName', label: 'Account Name' },
+  { name: 'accountNumber', label: 'Account Number' },
+  { name: 'iban', label: 'IBAN' },
+  { name: 'ifsc', label: 'IFSC' },
+  { name: 'swift', label: 'SWIFT/BIC' },
+  { name: 'upiId', label: 'UPI ID' }
+] as const;
+
+// Buyer and ship-to are optional, but need a name once any of their fields is filled in
+const partySchema = z.object({
+  name: z.string().optional(),
+  address: z.string().optional(),
+  taxId: z.string().optional()
+}).refine(party => !!party.name || (!party.address && !party.taxId), { message: 'Name is required', path: ['name'] });
+
+const PARTIES = [
+  { name: 'buyer', title: 'Bill To (Buyer)' },
+  { name: 'shipTo', title: 'Ship To' }
+] as const;
+
 const invoiceFormSchema = z.object({
   vendor: z.object({
     name: z.string().min(1, 'Vendor name is required'),
     address: z.string().optional(),
     taxId: z.string().optional()
   }),
+  buyer: partySchema.optional(),
+  shipTo: partySchema.optional(),
   invoice: z.object({
     number: z.string().min(1, 'Invoice number is required'),
     date: z.string().min(1, 'Invoice date is required'),
-    currency: z.string().optional(),
+    currency: z.string().optional().refine(value => !value || Currency.isValid(value), 'Unknown currency - use an ISO 4217 code, e.g. INR or USD'),
     subtotal: z.number().optional(),
     taxPercent: z.number().optional(),
+    taxes: z.array(taxSchema).optional(),
+    reverseCharge: z.boolean().optional(),
     total: z.number().optional(),
+    amountInWords: z.string().optional(),
     poNumber: z.string().optional(),
     poDate: z.string().optional(),
+    paymentTerms: z.string().optional(),
+    dueDate: z.string().optional(),
+    remittance: remittanceSchema.optional(),
     lineItems: z.array(lineItemSchema)
   })
 });
 
 type InvoiceFormData = z.infer<typeof invoiceFormSchema>;
 
+// What is saved: parties without a name are dropped
+type SavedParty = { name: string; address?: string; taxId?: string };
+type SavedInvoiceData = Omit<InvoiceFormData, 'buyer' | 'shipTo'> & { buyer?: SavedParty; shipTo?: SavedParty };
+
+// Invoices saved with only a combined rate are edited as one tax line at that rate
+const withTaxLines = (data: Partial<InvoiceFormData>): Partial<InvoiceFormData> => {
+  const invoice = data.invoice;
+  if (!invoice || invoice.taxes?.length || invoice.taxPercent === undefined) {
+    return data;
+  }
+  return { ...data, invoice: { ...invoice, taxes: [{ type: 'OTHER', rate: invoice.taxPercent }] } };
+};
+
+// Extracted fields scoring below this are highlighted for review
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
 interface InvoiceFormProps {
   initialData?: Partial<InvoiceFormData>;
-  onSave: (data: InvoiceFormData) => void;
+  confidence?: Record<string, FieldConfidence>; // Keyed by field path, e.g. "invoice.lineItems.0.total"
+  provenance?: Record<string, FieldProvenance>;
+  normalizationIssues?: NormalizationIssue[]; // Dates and numbers whose reading depended on the invoice's locale
+  onFieldFocus?: (provenance: FieldProvenance | null) => void;
+  onSave: (data: SavedInvoiceData) => void;
   onExtract: () => void;
   isExtracting?: boolean;
+  progress?: ExtractionProgress | null; // Shown instead of the form while extracting
   isSaving?: boolean;
 }
 
 export default function InvoiceForm({ 
   initialData, 
+  confidence,
+  provenance,
+  normalizationIssues,
+  onFieldFocus,
   onSave, 
   onExtract, 
   isExtracting = false,
+  progress,
   isSaving = false 
 }: InvoiceFormProps) {
-  // Removed model selection since we only use Gemini (free)
-
   const form = useForm<InvoiceFormData>({
     resolver: zodResolver(invoiceFormSchema),
     defaultValues: {
@@ -68,12 +160,15 @@ export default function InvoiceForm({
       invoice: {
         number: '',
         date: '',
-        currency: 'INR',
+        currency: DEFAULT_CURRENCY,
         subtotal: 0,
-        taxPercent: 0,
+        taxes: [],
+        reverseCharge: false,
         total: 0,
         poNumber: '',
         poDate: '',
+        paymentTerms: '',
+        dueDate: '',
         lineItems: []
       }
     }
@@ -83,7 +178,7 @@ export default function InvoiceForm({
   React.useEffect(() => {
     if (initialData) {
       console.log('InvoiceForm: Resetting form with data:', initialData);
-      form.reset(initialData);
+      form.reset(withTaxLines(initialData));
     }
   }, [initialData, form]);
 
@@ -92,18 +187,30 @@ export default function InvoiceForm({
     name: 'invoice.lineItems'
   });
 
+  const { fields: taxFields, append: appendTax, remove: removeTax } = useFieldArray({
+    control: form.control,
+    name: 'invoice.taxes'
+  });
+
   const watchedLineItems = form.watch('invoice.lineItems');
+  const watchedTaxes = form.watch('invoice.taxes');
+  const watchedReverseCharge = form.watch('invoice.reverseCharge');
+
+  // Totals are only calculated for invoices entered by hand. Extracted or saved totals are
+  // kept as printed, and any mismatch is reported by the reconciliation warnings instead.
+  const calculateTotals = initialData?.invoice?.subtotal === undefined && initialData?.invoice?.total === undefined;
 
-  // Calculate totals when line items change
   React.useEffect(() => {
+    if (!calculateTotals) {
+      return;
+    }
+
     const subtotal = watchedLineItems.reduce((sum, item) => sum + (item.total || 0), 0);
-    const taxPercent = form.getValues('invoice.taxPercent') || 0;
-    const taxAmount = subtotal * (taxPercent / 100);
-    const total = subtotal + taxAmount;
+    const { charged, withheld } = TaxCalculator.totals({ subtotal, taxes: watchedTaxes, reverseCharge: watchedReverseCharge });
 
     form.setValue('invoice.subtotal', subtotal);
-    form.setValue('invoice.total', total);
-  }, [watchedLineItems, form]);
+    form.setValue('invoice.total', subtotal + charged - withheld);
+  }, [watchedLineItems, watchedTaxes, watchedReverseCharge, form, calculateTotals]);
 
   const addLineItem = () => {
     append({
@@ -118,57 +225,128 @@ export default function InvoiceForm({
     remove(index);
   };
 
+  // Line total after discount, and the line's tax when it has its own rate
   const updateLineItemTotal = (index: number) => {
     const lineItems = form.getValues('invoice.lineItems');
     const item = lineItems[index];
     if (item) {
-      const total = item.unitPrice * item.quantity;
+      const gross = item.unitPrice * item.quantity;
+      const discount = item.discountAmount ?? (item.discountPercent !== undefined ? gross * item.discountPercent / 100 : 0);
+      const total = Math.round((gross - discount) * 100) / 100;
       form.setValue(`invoice.lineItems.${index}.total`, total);
+      if (item.taxRate !== undefined) {
+        form.setValue(`invoice.lineItems.${index}.taxAmount`, Math.round(total * item.taxRate) / 100);
+      }
+    }
+  };
+
+  const addTax = () => {
+    appendTax({ type: 'GST', rate: undefined, taxableAmount: undefined, amount: undefined });
+  };
+
+  // Tax amount from its rate and base (the subtotal unless a taxable amount is entered)
+  const updateTaxAmount = (index: number) => {
+    const tax = form.getValues(`invoice.taxes.${index}`);
+    if (tax && tax.rate !== undefined) {
+      form.setValue(`invoice.taxes.${index}.amount`, TaxCalculator.amount({ ...tax, amount: undefined }, form.getValues('invoice.subtotal')));
+    }
+  };
+
+  // Terms typed in before a due date is known fill it in
+  const fillDueDate = () => {
+    if (form.getValues('invoice.dueDate')) {
+      return;
+    }
+    const dueDate = dueDateFromTerms(form.getValues('invoice.date'), form.getValues('invoice.paymentTerms'));
+    if (dueDate) {
+      form.setValue('invoice.dueDate', dueDate);
     }
   };
 
   const onSubmit = (data: InvoiceFormData) => {
-    onSave(data);
+    // The combined rate is kept for older clients; taxes on their own are the source of truth
+    const taxes = data.invoice.taxes || [];
+    const taxPercent = taxes.length > 0 ? TaxCalculator.totals({ ...data.invoice, reverseCharge: false }).rate : undefined;
+    // Bank detail inputs left empty are not saved
+    const remittance = Object.fromEntries(Object.entries(data.invoice.remittance || {}).filter(([, value]) => value));
+    // Parties left empty are not saved
+    const party = (value: typeof data.buyer): SavedParty | undefined => (value?.name ? { ...value, name: value.name } : undefined);
+    onSave({
+      ...data,
+      buyer: party(data.buyer),
+      shipTo: party(data.shipTo),
+      invoice: {
+        ...data.invoice,
+        taxes,
+        taxPercent,
+        // An empty due date is left out, so the API schedules it from the payment terms
+        dueDate: data.invoice.dueDate || undefined,
+        remittance: Object.keys(remittance).length > 0 ? remittance : undefined
+      }
+    });
+  };
+
+  // Locale readings stay flagged until the reviewer edits the field
+  const openIssues = (normalizationIssues || []).filter(issue => !get(form.formState.dirtyFields, issue.path));
+  const hasOpenIssue = (path: string) => openIssues.some(issue => issue.path === path);
+
+  // Low-confidence fields stay highlighted until the reviewer edits them
+  const isLowConfidence = (path: string) => {
+    const field = confidence?.[path];
+    return !!field && field.score < LOW_CONFIDENCE_THRESHOLD && !get(form.formState.dirtyFields, path);
   };
 
-  // Get currency symbol based on currency code
-  const getCurrencySymbol = (currency: string) => {
-    const currencyMap: { [key: string]: string } = {
-      'INR': '₹',
-      'USD': '$',
-      'EUR': '€',
-      'GBP': '£',
-      'JPY': '¥',
-      'CAD': 'C$',
-      'AUD': 'A$',
-      'CHF': 'CHF',
-      'CNY': '¥',
-      'SEK': 'kr',
-      'NOK': 'kr',
-      'DKK': 'kr',
-      'PLN': 'zł',
-      'CZK': 'Kč',
-      'HUF': 'Ft',
-      'RUB': '₽',
-      'BRL': 'R$',
-      'MXN': '$',
-      'ZAR': 'R',
-      'KRW': '₩',
-      'SGD': 'S$',
-      'HKD': 'HK$',
-      'NZD': 'NZ$',
-      'THB': '฿',
-      'MYR': 'RM',
-      'IDR': 'Rp',
-      'PHP': '₱',
-      'VND': '₫'
+  // Review hints for an extracted field: low-confidence highlight, confidence tooltip,
+  // and showing where the value came from in the PDF when the field is focused
+  const reviewProps = (path: string, className?: string | false) => {
+    const field = confidence?.[path];
+    const source = provenance?.[path];
+    const title = [
+      field && `Confidence ${Math.round(field.score * 100)}% (${field.source})`,
+      source && `Page ${source.page}: "${source.text}"`
+    ].filter(Boolean).join(' - ');
+
+    return {
+      title: title || undefined,
+      className: cn((isLowConfidence(path) || hasOpenIssue(path)) && 'border-amber-400 bg-amber-50', className),
+      onFocus: () => onFieldFocus?.(source || null)
     };
-    
-    return currencyMap[currency?.toUpperCase()] || currency || '$';
   };
 
-  const currentCurrency = form.watch('invoice.currency') || 'INR';
-  const currencySymbol = getCurrencySymbol(currentCurrency);
+  const lowConfidenceCount = Object.keys(confidence || {}).filter(isLowConfidence).length;
+
+  // Arithmetic checks, re-run as the reviewer edits
+  const reconciliation = InvoiceValidator.validate(form.watch('invoice'));
+  const warningFor = (path: string) => reconciliation.find(warning => warning.path === path);
+
+  const applyExpected = (warning: ReconciliationWarning) => {
+    form.setValue(
+      warning.path as 'invoice.subtotal' | 'invoice.total' | `invoice.lineItems.${number}.total` | `invoice.taxes.${number}.amount`,
+      warning.expected,
+      { shouldDirty: true }
+    );
+  };
+
+  const renderWarning = (path: string) => {
+    const warning = warningFor(path);
+    if (!warning) {
+      return null;
+    }
+
+    return (
+      <p className="mt-1 flex flex-wrap items-center gap-1 text-xs text-amber-700">
+        <AlertTriangle className="h-3 w-3 shrink-0" />
+        {warning.message}
+        <button type="button" className="underline" onClick={() => applyExpected(warning)}>
+          Use {warning.expected.toFixed(2)}
+        </button>
+      </p>
+    );
+  };
+
+  const currencySymbol = symbolFor(form.watch('invoice.currency'));
+  const watchedSubtotal = form.watch('invoice.subtotal');
+  const totals = TaxCalculator.totals({ subtotal: watchedSubtotal, taxes: watchedTaxes, reverseCharge: watchedReverseCharge });
 
   return (
     <Card className="h-full flex flex-col">
@@ -181,13 +359,41 @@ export default function InvoiceForm({
             className="flex items-center gap-2"
           >
             <Bot className="h-4 w-4" />
-            {isExtracting ? 'Extracting...' : 'Extract with AI (Gemini)'}
+            {isExtracting ? `${progress?.message || 'Extracting'}...` : 'Extract with AI'}
           </Button>
         </div>
       </CardHeader>
 
       <CardContent className="flex-1 overflow-auto">
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {isExtracting && progress && <ExtractionProgressView progress={progress} />}
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className={cn('space-y-6', isExtracting && progress && 'hidden')}>
+          {lowConfidenceCount > 0 && (
+            <div className="flex items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {lowConfidenceCount} extracted {lowConfidenceCount === 1 ? 'field has' : 'fields have'} low confidence - check the highlighted fields first
+            </div>
+          )}
+
+          {openIssues.length > 0 && (
+            <div className="flex gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+              <div>
+                {openIssues.length} {openIssues.length === 1 ? 'value was' : 'values were'} read by the invoice&apos;s locale - confirm the highlighted fields
+                <ul className="mt-1 list-disc pl-4 text-xs">
+                  {openIssues.map(issue => <li key={issue.path}>{issue.message}</li>)}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {reconciliation.length > 0 && (
+            <div className="flex items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {reconciliation.length} {reconciliation.length === 1 ? 'amount does' : 'amounts do'} not add up - see the notes next to the totals
+            </div>
+          )}
+
           {/* Vendor Information */}
           <div className="space-y-4">
             <h3 className="text-md font-semibold">Vendor Information</h3>
@@ -197,7 +403,7 @@ export default function InvoiceForm({
                 <Input
                   id="vendor.name"
                   {...form.register('vendor.name')}
-                  className={form.formState.errors.vendor?.name ? 'border-red-500' : ''}
+                  {...reviewProps('vendor.name', form.formState.errors.vendor?.name && 'border-red-500')}
                 />
                 {form.formState.errors.vendor?.name && (
                   <p className="text-sm text-red-500 mt-1">
@@ -212,6 +418,7 @@ export default function InvoiceForm({
                   id="vendor.address"
                   {...form.register('vendor.address')}
                   rows={2}
+                  {...reviewProps('vendor.address')}
                 />
               </div>
               
@@ -220,11 +427,50 @@ export default function InvoiceForm({
                 <Input
                   id="vendor.taxId"
                   {...form.register('vendor.taxId')}
+                  {...reviewProps('vendor.taxId')}
                 />
               </div>
             </div>
           </div>
 
+          {/* Buyer and Ship To */}
+          <div className="grid grid-cols-2 gap-4">
+            {PARTIES.map(({ name, title }) => {
+              const error = form.formState.errors[name]?.name;
+              return (
+                <div key={name} className="space-y-4">
+                  <h3 className="text-md font-semibold">{title}</h3>
+                  <div>
+                    <Label htmlFor={`${name}.name`}>Name</Label>
+                    <Input
+                      id={`${name}.name`}
+                      {...form.register(`${name}.name`)}
+                      {...reviewProps(`${name}.name`, error && 'border-red-500')}
+                    />
+                    {error && <p className="text-sm text-red-500 mt-1">{error.message}</p>}
+                  </div>
+                  <div>
+                    <Label htmlFor={`${name}.address`}>Address</Label>
+                    <Textarea
+                      id={`${name}.address`}
+                      {...form.register(`${name}.address`)}
+                      rows={2}
+                      {...reviewProps(`${name}.address`)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${name}.taxId`}>Tax ID</Label>
+                    <Input
+                      id={`${name}.taxId`}
+                      {...form.register(`${name}.taxId`)}
+                      {...reviewProps(`${name}.taxId`)}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
           {/* Invoice Information */}
           <div className="space-y-4">
             <h3 className="text-md font-semibold">Invoice Information</h3>
@@ -234,7 +480,7 @@ export default function InvoiceForm({
                 <Input
                   id="invoice.number"
                   {...form.register('invoice.number')}
-                  className={form.formState.errors.invoice?.number ? 'border-red-500' : ''}
+                  {...reviewProps('invoice.number', form.formState.errors.invoice?.number && 'border-red-500')}
                 />
                 {form.formState.errors.invoice?.number && (
                   <p className="text-sm text-red-500 mt-1">
@@ -249,7 +495,7 @@ export default function InvoiceForm({
                   id="invoice.date"
                   type="date"
                   {...form.register('invoice.date')}
-                  className={form.formState.errors.invoice?.date ? 'border-red-500' : ''}
+                  {...reviewProps('invoice.date', form.formState.errors.invoice?.date && 'border-red-500')}
                 />
                 {form.formState.errors.invoice?.date && (
                   <p className="text-sm text-red-500 mt-1">
@@ -263,7 +509,13 @@ export default function InvoiceForm({
                 <Input
                   id="invoice.currency"
                   {...form.register('invoice.currency')}
+                  {...reviewProps('invoice.currency', form.formState.errors.invoice?.currency && 'border-red-500')}
                 />
+                {form.formState.errors.invoice?.currency && (
+                  <p className="text-sm text-red-500 mt-1">
+                    {form.formState.errors.invoice.currency.message}
+                  </p>
+                )}
               </div>
               
               <div>
@@ -271,6 +523,7 @@ export default function InvoiceForm({
                 <Input
                   id="invoice.poNumber"
                   {...form.register('invoice.poNumber')}
+                  {...reviewProps('invoice.poNumber')}
                 />
               </div>
               
@@ -280,16 +533,7 @@ export default function InvoiceForm({
                   id="invoice.poDate"
                   type="date"
                   {...form.register('invoice.poDate')}
-                />
-              </div>
-              
-              <div>
-                <Label htmlFor="invoice.taxPercent">Tax %</Label>
-                <Input
-                  id="invoice.taxPercent"
-                  type="number"
-                  step="0.01"
-                  {...form.register('invoice.taxPercent', { valueAsNumber: true })}
+                  {...reviewProps('invoice.poDate')}
                 />
               </div>
             </div>
@@ -313,56 +557,194 @@ export default function InvoiceForm({
                       <TableHead>Description</TableHead>
                       <TableHead>Unit Price</TableHead>
                       <TableHead>Quantity</TableHead>
+                      <TableHead>Unit</TableHead>
                       <TableHead>Total</TableHead>
                       <TableHead className="w-12"></TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {fields.map((field, index) => (
+                      <React.Fragment key={field.id}>
+                        <TableRow className="border-b-0">
+                          <TableCell>
+                            <Input
+                              {...form.register(`invoice.lineItems.${index}.description`)}
+                              {...reviewProps(`invoice.lineItems.${index}.description`, 'border-0 p-0 h-auto')}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              {...form.register(`invoice.lineItems.${index}.unitPrice`, { 
+                                valueAsNumber: true,
+                                onChange: () => updateLineItemTotal(index)
+                              })}
+                              {...reviewProps(`invoice.lineItems.${index}.unitPrice`, 'border-0 p-0 h-auto')}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="any"
+                              min="0"
+                              {...form.register(`invoice.lineItems.${index}.quantity`, { 
+                                valueAsNumber: true,
+                                onChange: () => updateLineItemTotal(index)
+                              })}
+                              {...reviewProps(`invoice.lineItems.${index}.quantity`, 'border-0 p-0 h-auto')}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              placeholder="pcs"
+                              {...form.register(`invoice.lineItems.${index}.unit`)}
+                              {...reviewProps(`invoice.lineItems.${index}.unit`, 'border-0 p-0 h-auto w-16')}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              {...form.register(`invoice.lineItems.${index}.total`, { valueAsNumber: true })}
+                              {...reviewProps(`invoice.lineItems.${index}.total`, 'border-0 p-0 h-auto')}
+                            />
+                            {renderWarning(`invoice.lineItems.${index}.total`)}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeLineItem(index)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                        {/* Optional details: item code, discount and the line's own tax */}
+                        <TableRow>
+                          <TableCell colSpan={6} className="pt-0">
+                            <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+                              <label className="flex items-center gap-1">
+                                HSN/SAC
+                                <Input
+                                  {...form.register(`invoice.lineItems.${index}.itemCode`)}
+                                  {...reviewProps(`invoice.lineItems.${index}.itemCode`, 'h-7 w-24 text-xs')}
+                                />
+                              </label>
+                              <label className="flex items-center gap-1">
+                                Discount %
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  {...form.register(`invoice.lineItems.${index}.discountPercent`, { ...optionalNumber, onChange: () => updateLineItemTotal(index) })}
+                                  {...reviewProps(`invoice.lineItems.${index}.discountPercent`, 'h-7 w-16 text-xs')}
+                                />
+                              </label>
+                              <label className="flex items-center gap-1">
+                                Discount
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  {...form.register(`invoice.lineItems.${index}.discountAmount`, { ...optionalNumber, onChange: () => updateLineItemTotal(index) })}
+                                  {...reviewProps(`invoice.lineItems.${index}.discountAmount`, 'h-7 w-20 text-xs')}
+                                />
+                              </label>
+                              <label className="flex items-center gap-1">
+                                Tax %
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  {...form.register(`invoice.lineItems.${index}.taxRate`, { ...optionalNumber, onChange: () => updateLineItemTotal(index) })}
+                                  {...reviewProps(`invoice.lineItems.${index}.taxRate`, 'h-7 w-16 text-xs')}
+                                />
+                              </label>
+                              <label className="flex items-center gap-1">
+                                Tax
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  {...form.register(`invoice.lineItems.${index}.taxAmount`, optionalNumber)}
+                                  {...reviewProps(`invoice.lineItems.${index}.taxAmount`, 'h-7 w-20 text-xs')}
+                                />
+                              </label>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      </React.Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {/* Taxes, one line per tax and rate (e.g. CGST and SGST, or several VAT rates) */}
+            <div className="flex items-center justify-between">
+              <h3 className="text-md font-semibold">Taxes</h3>
+              <Button type="button" onClick={addTax} size="sm">
+                <Plus className="h-4 w-4 mr-1" />
+                Add Tax
+              </Button>
+            </div>
+
+            {taxFields.length > 0 && (
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Rate %</TableHead>
+                      <TableHead>Taxable Amount</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead className="w-12"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {taxFields.map((field, index) => (
                       <TableRow key={field.id}>
                         <TableCell>
-                          <Input
-                            {...form.register(`invoice.lineItems.${index}.description`)}
-                            className="border-0 p-0 h-auto"
-                          />
+                          <select
+                            {...form.register(`invoice.taxes.${index}.type`)}
+                            {...reviewProps(`invoice.taxes.${index}.type`, 'bg-transparent text-sm')}
+                          >
+                            {TAX_TYPES.map(type => (
+                              <option key={type} value={type}>{TAX_TYPE_LABELS[type]}</option>
+                            ))}
+                          </select>
                         </TableCell>
                         <TableCell>
                           <Input
                             type="number"
                             step="0.01"
-                            {...form.register(`invoice.lineItems.${index}.unitPrice`, { 
-                              valueAsNumber: true,
-                              onChange: () => updateLineItemTotal(index)
-                            })}
-                            className="border-0 p-0 h-auto"
+                            {...form.register(`invoice.taxes.${index}.rate`, { ...optionalNumber, onChange: () => updateTaxAmount(index) })}
+                            {...reviewProps(`invoice.taxes.${index}.rate`, 'border-0 p-0 h-auto')}
                           />
                         </TableCell>
                         <TableCell>
                           <Input
                             type="number"
-                            min="1"
-                            {...form.register(`invoice.lineItems.${index}.quantity`, { 
-                              valueAsNumber: true,
-                              onChange: () => updateLineItemTotal(index)
-                            })}
-                            className="border-0 p-0 h-auto"
+                            step="0.01"
+                            placeholder="Subtotal"
+                            {...form.register(`invoice.taxes.${index}.taxableAmount`, { ...optionalNumber, onChange: () => updateTaxAmount(index) })}
+                            {...reviewProps(`invoice.taxes.${index}.taxableAmount`, 'border-0 p-0 h-auto')}
                           />
                         </TableCell>
                         <TableCell>
                           <Input
                             type="number"
                             step="0.01"
-                            {...form.register(`invoice.lineItems.${index}.total`, { valueAsNumber: true })}
-                            className="border-0 p-0 h-auto"
-                            readOnly
+                            {...form.register(`invoice.taxes.${index}.amount`, optionalNumber)}
+                            {...reviewProps(`invoice.taxes.${index}.amount`, 'border-0 p-0 h-auto')}
                           />
+                          {renderWarning(`invoice.taxes.${index}.amount`)}
                         </TableCell>
                         <TableCell>
                           <Button
                             type="button"
                             variant="ghost"
                             size="sm"
-                            onClick={() => removeLineItem(index)}
+                            onClick={() => removeTax(index)}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -374,25 +756,107 @@ export default function InvoiceForm({
               </div>
             )}
 
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" {...form.register('invoice.reverseCharge')} />
+              Reverse charge (tax is payable by the buyer)
+            </label>
+
             {/* Totals */}
             <div className="flex justify-end">
-              <div className="w-64 space-y-2">
-                <div className="flex justify-between">
-                  <span>Subtotal:</span>
-                  <span>{currencySymbol}{form.watch('invoice.subtotal')?.toFixed(2) || '0.00'}</span>
+              <div className="w-72 space-y-2">
+                <div>
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor="invoice.subtotal">Subtotal ({currencySymbol}):</Label>
+                    <Input
+                      id="invoice.subtotal"
+                      type="number"
+                      step="0.01"
+                      {...form.register('invoice.subtotal', { valueAsNumber: true })}
+                      {...reviewProps('invoice.subtotal', 'w-32 text-right')}
+                    />
+                  </div>
+                  {renderWarning('invoice.subtotal')}
                 </div>
-                <div className="flex justify-between">
-                  <span>Tax:</span>
-                  <span>{currencySymbol}{((form.watch('invoice.subtotal') || 0) * ((form.watch('invoice.taxPercent') || 0) / 100)).toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between font-semibold border-t pt-2">
-                  <span>Total:</span>
-                  <span>{currencySymbol}{form.watch('invoice.total')?.toFixed(2) || '0.00'}</span>
+                {(watchedTaxes || []).map((tax, index) => (
+                  <div key={index} className="flex justify-between text-sm">
+                    <span>{describeTax(tax)}{tax.type === 'WITHHOLDING' ? ' (withheld)' : ''}:</span>
+                    <span>
+                      {tax.type === 'WITHHOLDING' ? '-' : ''}{currencySymbol}{TaxCalculator.amount(tax, watchedSubtotal).toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+                {totals.selfAssessed > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Reverse charge: {currencySymbol}{totals.selfAssessed.toFixed(2)} tax is payable by the buyer and not included in the total
+                  </p>
+                )}
+                <div className="border-t pt-2">
+                  <div className="flex items-center justify-between gap-2 font-semibold">
+                    <Label htmlFor="invoice.total">Total ({currencySymbol}):</Label>
+                    <Input
+                      id="invoice.total"
+                      type="number"
+                      step="0.01"
+                      {...form.register('invoice.total', { valueAsNumber: true })}
+                      {...reviewProps('invoice.total', 'w-32 text-right font-semibold')}
+                    />
+                  </div>
+                  {renderWarning('invoice.total')}
+                  <div className="mt-2">
+                    <Label htmlFor="invoice.amountInWords" className="text-xs text-gray-600">Amount in Words</Label>
+                    <Input
+                      id="invoice.amountInWords"
+                      placeholder="e.g. Rupees Twelve Thousand Only"
+                      {...form.register('invoice.amountInWords')}
+                      {...reviewProps('invoice.amountInWords', 'h-8 text-sm')}
+                    />
+                  </div>
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Payment */}
+          <div className="space-y-4">
+            <h3 className="text-md font-semibold">Payment</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="invoice.paymentTerms">Payment Terms</Label>
+                <Input
+                  id="invoice.paymentTerms"
+                  placeholder="e.g. Net 30 days"
+                  {...form.register('invoice.paymentTerms', { onChange: fillDueDate })}
+                  {...reviewProps('invoice.paymentTerms')}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="invoice.dueDate">Due Date</Label>
+                <Input
+                  id="invoice.dueDate"
+                  type="date"
+                  {...form.register('invoice.dueDate')}
+                  {...reviewProps('invoice.dueDate')}
+                />
+              </div>
+
+              {REMITTANCE_FIELDS.map(({ name, label }) => {
+                const error = form.formState.errors.invoice?.remittance?.[name];
+                return (
+                  <div key={name}>
+                    <Label htmlFor={`invoice.remittance.${name}`}>{label}</Label>
+                    <Input
+                      id={`invoice.remittance.${name}`}
+                      {...form.register(`invoice.remittance.${name}`)}
+                      {...reviewProps(`invoice.remittance.${name}`, error && 'border-red-500')}
+                    />
+                    {error && <p className="text-sm text-red-500 mt-1">{error.message}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
           {/* Save Button */}
           <div className="flex justify-end pt-4 border-t">
             <Button type="submit" disabled={isSaving}>
@@ -1,10 +1,11 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Upload } from 'lucide-react';
 import dynamic from 'next/dynamic';
+import type { FieldProvenance } from '@/lib/extraction';
 
 // Dynamically import PDFViewerCanvas with SSR disabled
 const PDFViewerCanvas = dynamic(() => import('./PDFViewerCanvas'), {
@@ -21,14 +22,22 @@ const PDFViewerCanvas = dynamic(() => import('./PDFViewerCanvas'), {
 
 interface PDFViewerProps {
   fileUrl?: string;
+  highlight?: FieldProvenance | null; // Source of the field being reviewed
   onFileSelect: (file: File) => void;
 }
 
-export default function PDFViewer({ fileUrl, onFileSelect }: PDFViewerProps) {
+export default function PDFViewer({ fileUrl, highlight, onFileSelect }: PDFViewerProps) {
   const [dragOver, setDragOver] = useState(false);
   const [useFallback, setUseFallback] = useState(false);
   const [showUpload, setShowUpload] = useState(!fileUrl);
 
+  // A file opened elsewhere (e.g. from the batch queue) replaces the upload area
+  useEffect(() => {
+    if (fileUrl) {
+      setShowUpload(false);
+    }
+  }, [fileUrl]);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.type === 'application/pdf') {
@@ -135,7 +144,9 @@ export default function PDFViewer({ fileUrl, onFileSelect }: PDFViewerProps) {
           ) : (
                    <PDFViewerCanvas 
                      fileUrl={fileUrl} 
+                     highlight={highlight}
                      onNewUpload={handleNewUpload}
+                     onLoadError={() => setUseFallback(true)}
                    />
           )
         )}
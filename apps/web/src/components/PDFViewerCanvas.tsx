@@ -1,18 +1,57 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
 import { Button } from '@/components/ui/button';
 import { ZoomIn, ZoomOut, Download, Maximize2, RotateCw, Upload } from 'lucide-react';
+import type { BoundingBox, FieldProvenance } from '@/lib/extraction';
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
 
 interface PDFViewerCanvasProps {
   fileUrl: string;
+  highlight?: FieldProvenance | null;
   onNewUpload?: () => void;
+  onLoadError?: () => void;
 }
 
-export default function PDFViewerCanvas({ fileUrl, onNewUpload }: PDFViewerCanvasProps) {
+// Map a box in unrotated page fractions onto the page as rendered with `rotation`
+const rotateBox = ({ x, y, width, height }: BoundingBox, rotation: number): BoundingBox => {
+  switch (rotation) {
+    case 90:
+      return { x: 1 - y - height, y: x, width: height, height: width };
+    case 180:
+      return { x: 1 - x - width, y: 1 - y - height, width, height };
+    case 270:
+      return { x: y, y: 1 - x - width, width: height, height: width };
+    default:
+      return { x, y, width, height };
+  }
+};
+
+export default function PDFViewerCanvas({ fileUrl, highlight, onNewUpload, onLoadError }: PDFViewerCanvasProps) {
   const [scale, setScale] = useState(1.0);
   const [rotation, setRotation] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [numPages, setNumPages] = useState(0);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  // Fit pages to the container width; zoom scales from there
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Bring the highlighted source text into view whenever a field is selected
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+  }, [highlight, numPages, scale, rotation]);
 
   const zoomIn = () => {
     setScale(prev => Math.min(prev + 0.25, 3.0));
@@ -44,24 +83,22 @@ export default function PDFViewerCanvas({ fileUrl, onNewUpload }: PDFViewerCanva
     setIsFullscreen(!isFullscreen);
   };
 
-  const iframeStyle = {
-    transform: `scale(${scale}) rotate(${rotation}deg)`,
-    transformOrigin: 'center center',
-    transition: 'transform 0.3s ease',
-    width: '100%',
-    height: '100%',
-    border: 'none',
-    borderRadius: '8px'
-  };
+  const pageWidth = containerWidth > 0 ? Math.max(containerWidth - 20, 100) * scale : undefined;
+  const highlightBox = highlight ? rotateBox(highlight.bbox, rotation) : null;
 
   return (
-    <div className={`flex-1 flex flex-col ${isFullscreen ? 'fixed inset-0 z-50 bg-white' : ''}`}>
+    <div className={`flex-1 flex flex-col min-h-0 ${isFullscreen ? 'fixed inset-0 z-50 bg-white' : ''}`}>
       {/* Controls */}
       <div className="flex items-center justify-between mb-4 p-3 bg-gray-50 rounded-lg">
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium">
             PDF Viewer
           </span>
+          {numPages > 0 && (
+            <span className="text-xs text-gray-500">
+              {numPages} {numPages === 1 ? 'page' : 'pages'}
+            </span>
+          )}
           {onNewUpload && (
             <Button
               variant="outline"
@@ -84,11 +121,11 @@ export default function PDFViewerCanvas({ fileUrl, onNewUpload }: PDFViewerCanva
           >
             <ZoomOut className="h-4 w-4" />
           </Button>
-          
+
           <span className="text-sm font-medium min-w-[60px] text-center">
             {Math.round(scale * 100)}%
           </span>
-          
+
           <Button
             variant="outline"
             size="sm"
@@ -97,7 +134,7 @@ export default function PDFViewerCanvas({ fileUrl, onNewUpload }: PDFViewerCanva
           >
             <ZoomIn className="h-4 w-4" />
           </Button>
-          
+
           <Button
             variant="outline"
             size="sm"
@@ -105,7 +142,7 @@ export default function PDFViewerCanvas({ fileUrl, onNewUpload }: PDFViewerCanva
           >
             <RotateCw className="h-4 w-4" />
           </Button>
-          
+
           <Button
             variant="outline"
             size="sm"
@@ -113,7 +150,7 @@ export default function PDFViewerCanvas({ fileUrl, onNewUpload }: PDFViewerCanva
           >
             Reset
           </Button>
-          
+
           <Button
             variant="outline"
             size="sm"
@@ -121,7 +158,7 @@ export default function PDFViewerCanvas({ fileUrl, onNewUpload }: PDFViewerCanva
           >
             <Maximize2 className="h-4 w-4" />
           </Button>
-          
+
           <Button
             variant="outline"
             size="sm"
@@ -133,21 +170,48 @@ export default function PDFViewerCanvas({ fileUrl, onNewUpload }: PDFViewerCanva
       </div>
 
       {/* PDF Viewer */}
-      <div className="flex-1 flex items-center justify-center bg-gray-100 rounded-lg overflow-auto">
-        <div 
-          className="w-full h-full flex items-center justify-center"
-          style={{ 
-            overflow: 'auto',
-            padding: isFullscreen ? '20px' : '10px'
-          }}
+      <div
+        ref={containerRef}
+        className="flex-1 bg-gray-100 rounded-lg overflow-auto"
+        style={{ padding: isFullscreen ? '20px' : '10px' }}
+      >
+        <Document
+          file={fileUrl}
+          onLoadSuccess={({ numPages }) => setNumPages(numPages)}
+          onLoadError={onLoadError}
+          loading={
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading PDF...</p>
+            </div>
+          }
+          className="flex flex-col items-center gap-4"
         >
-          <iframe 
-            src={fileUrl} 
-            style={iframeStyle}
-            title="PDF Viewer"
-            className="shadow-lg"
-          />
-        </div>
+          {Array.from({ length: numPages }, (_, index) => (
+            <div key={index} className="relative shadow-lg">
+              <Page
+                pageNumber={index + 1}
+                width={pageWidth}
+                rotate={rotation}
+                renderTextLayer={false}
+                renderAnnotationLayer={false}
+              />
+              {highlight && highlightBox && highlight.page === index + 1 && (
+                <div
+                  ref={highlightRef}
+                  title={highlight.text}
+                  className="absolute pointer-events-none rounded-sm border-2 border-amber-500 bg-amber-300/40"
+                  style={{
+                    left: `${highlightBox.x * 100}%`,
+                    top: `${highlightBox.y * 100}%`,
+                    width: `${highlightBox.width * 100}%`,
+                    height: `${highlightBox.height * 100}%`
+                  }}
+                />
+              )}
+            </div>
+          ))}
+        </Document>
       </div>
 
       {/* Fullscreen overlay */}
@@ -0,0 +1,16 @@
+import { DEFAULT_CURRENCY } from 'invoice-rules';
+
+// Currency codes are checked by the shared invoice rules; symbols are only for display
+
+const SYMBOLS: Record<string, string> = {
+  INR: '₹', USD: '$', EUR: '€', GBP: '£', JPY: '¥', CAD: 'C$', AUD: 'A$', CHF: 'CHF', CNY: '¥',
+  SEK: 'kr', NOK: 'kr', DKK: 'kr', PLN: 'zł', CZK: 'Kč', HUF: 'Ft', RUB: '₽', BRL: 'R$', MXN: '$',
+  ZAR: 'R', KRW: '₩', SGD: 'S$', HKD: 'HK$', NZD: 'NZ$', THB: '฿', MYR: 'RM', IDR: 'Rp', PHP: '₱',
+  VND: '₫'
+};
+
+// "₹" for INR; codes without a common symbol are shown as they are
+export function currencySymbol(code: string | undefined): string {
+  const currency = (code || DEFAULT_CURRENCY).toUpperCase();
+  return SYMBOLS[currency] || currency;
+}
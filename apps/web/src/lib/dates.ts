@@ -0,0 +1,9 @@
+// Invoice dates are stored as YYYY-MM-DD. new Date() reads those as UTC midnight, which shows
+// the previous day west of Greenwich, so they are built from their parts in local time instead.
+export function formatDate(value: string | undefined): string {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return value || '-';
+  }
+  return new Date(+match[1], +match[2] - 1, +match[3]).toLocaleDateString();
+}
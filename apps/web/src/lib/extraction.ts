@@ -0,0 +1,78 @@
+// Per-field metadata returned by POST /api/extract, keyed by field path
+// (e.g. "vendor.name" or "invoice.lineItems.0.total")
+
+export interface FieldConfidence {
+  score: number; // 0..1
+  source: 'model' | 'heuristic' | 'default';
+}
+
+export interface BoundingBox {
+  x: number; // Fractions of the page size (0..1), top-left origin
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FieldProvenance {
+  page: number; // 1-based
+  text: string;
+  bbox: BoundingBox;
+}
+
+// Pages of the uploaded PDF holding one invoice (a PDF may hold several)
+export interface PageRange {
+  start: number; // 1-based, inclusive
+  end: number;
+}
+
+// Whether the API extracted the whole invoice. Long invoices are extracted a few pages at a time,
+// and a chunk that failed leaves the invoice incomplete
+export interface ExtractionCoverage {
+  complete: boolean;
+  chunks: Array<{ pageRange: PageRange; lineItems: number; error?: string }>;
+  lineItemPages?: PageRange[];
+}
+
+// Arithmetic check result, from the API or computed live in the form by the same InvoiceValidator
+export type { ReconciliationWarning } from 'invoice-rules';
+
+// How the API read an extracted date or number, when the invoice's locale changed or left it in doubt
+export interface NormalizationIssue {
+  code: 'AMBIGUOUS_DATE' | 'DATE_REORDERED' | 'INVALID_DATE' | 'AMBIGUOUS_NUMBER' | 'AMBIGUOUS_CURRENCY' | 'UNKNOWN_CURRENCY';
+  path: string;
+  message: string;
+  original: string; // As printed
+  value?: string | number;
+}
+
+// Conventions the API used to read the invoice, and what decided each one
+export interface DetectedLocale {
+  country?: string;
+  dateOrder: 'DMY' | 'MDY';
+  dateOrderSource: 'text' | 'country' | 'currency' | 'default';
+  decimalSeparator: '.' | ',';
+  decimalSource: 'text' | 'country' | 'currency' | 'default';
+}
+
+// One file of a batch upload (POST /api/upload/batch); 'rejected' files were never queued
+export interface BatchFile {
+  fileName: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'rejected';
+  fileId?: string;
+  fileUrl?: string;
+  jobId?: string;
+  error?: { name: string; message: string };
+}
+
+// Events of POST /api/extract/stream (see lib/extractionStream)
+export type ExtractionStage = 'fetching' | 'parsing' | 'ocr' | 'extracting';
+
+export type ExtractionProgressEvent =
+  | { type: 'stage'; stage: ExtractionStage; message: string; invoiceIndex?: number; invoiceCount?: number }
+  | { type: 'partial'; invoiceIndex: number; pageRange: PageRange; kind: 'vendor'; vendor: Record<string, unknown> }
+  | { type: 'partial'; invoiceIndex: number; pageRange: PageRange; kind: 'lineItem'; index: number; lineItem: Record<string, unknown> }
+  | {
+      type: 'invoice';
+      invoiceIndex: number;
+      invoice: { pageRange: PageRange; data: { vendor: Record<string, unknown>; invoice: { lineItems: Record<string, unknown>[] } } };
+    };
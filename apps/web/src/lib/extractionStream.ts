@@ -0,0 +1,111 @@
+import type { ExtractionProgressEvent, ExtractionStage, PageRange } from './extraction';
+
+// What has been extracted so far, per invoice found in the PDF
+export interface PartialInvoice {
+  pageRange: PageRange;
+  vendor?: Record<string, unknown>;
+  lineItems: Record<string, unknown>[];
+  done: boolean;
+}
+
+export interface ExtractionProgress {
+  stages: ExtractionStage[]; // Stages reached so far, in order; the last one is running
+  message: string;
+  invoices: PartialInvoice[];
+}
+
+export const initialExtractionProgress: ExtractionProgress = {
+  stages: [],
+  message: 'Starting extraction',
+  invoices: []
+};
+
+// Fold one stream event into the progress shown to the user
+export function applyProgressEvent(progress: ExtractionProgress, event: ExtractionProgressEvent): ExtractionProgress {
+  if (event.type === 'stage') {
+    return {
+      ...progress,
+      stages: progress.stages.includes(event.stage) ? progress.stages : [...progress.stages, event.stage],
+      message: event.message
+    };
+  }
+
+  const invoices = [...progress.invoices];
+  const current = invoices[event.invoiceIndex];
+  if (event.type === 'invoice') {
+    // Complete values, also for results that were cached or not streamed
+    const { pageRange, data } = event.invoice;
+    invoices[event.invoiceIndex] = { pageRange, vendor: data.vendor, lineItems: data.invoice.lineItems, done: true };
+    return { ...progress, invoices };
+  }
+
+  const invoice: PartialInvoice = current || { pageRange: event.pageRange, lineItems: [], done: false };
+  invoices[event.invoiceIndex] = event.kind === 'vendor'
+    ? { ...invoice, vendor: event.vendor }
+    : { ...invoice, lineItems: [...invoice.lineItems, event.lineItem] };
+  return { ...progress, invoices };
+}
+
+// Error event of the stream, with the status code POST /api/extract would have returned
+export class ExtractionStreamError extends Error {
+  constructor(message: string, readonly status: number, readonly body: Record<string, unknown>) {
+    super(message);
+    this.name = 'ExtractionStreamError';
+  }
+}
+
+/**
+ * Run an extraction through POST /api/extract/stream, reporting each progress event.
+ * Resolves with the same body POST /api/extract returns.
+ */
+export async function streamExtraction<T>(
+  url: string,
+  body: Record<string, unknown>,
+  onProgress: (event: ExtractionProgressEvent) => void
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body)
+  });
+
+  // Requests rejected before the stream starts get a plain JSON error
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}));
+    throw new ExtractionStreamError(error.message || error.error || response.statusText, response.status, error);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffered += decoder.decode(value, { stream: true });
+    const events = buffered.split('\n\n');
+    buffered = events.pop() || '';
+
+    for (const raw of events) {
+      const event = raw.match(/^event: (.*)$/m)?.[1];
+      const data = raw.match(/^data: (.*)$/m)?.[1];
+      if (!event || !data) {
+        continue;
+      }
+
+      const payload = JSON.parse(data);
+      if (event === 'result') {
+        return payload as T;
+      }
+      if (event === 'error') {
+        throw new ExtractionStreamError(payload.message || payload.error, payload.status, payload);
+      }
+      onProgress(payload as ExtractionProgressEvent);
+    }
+  }
+
+  throw new ExtractionStreamError('The extraction stream ended without a result', 502, {});
+}
@@ -0,0 +1,79 @@
+// Same rules as the API's PaymentTerms and BankDetails, so the form can fill in the due date
+// and flag malformed bank codes before saving
+
+export interface Remittance {
+  bankName?: string;
+  accountName?: string;
+  accountNumber?: string;
+  iban?: string;
+  ifsc?: string;
+  swift?: string;
+  upiId?: string;
+}
+
+const IMMEDIATE = /\b(?:due\s+(?:up)?on\s+receipt|on\s+receipt|immediate(?:ly)?|cash\s+on\s+delivery|cod|advance)\b/i;
+const NET_DAYS = /\b(?:net\s*(\d{1,3})|(\d{1,3})\s*(?:calendar\s+)?days?)\b/i;
+const END_OF_MONTH = /\b(?:eom|end\s+of\s+(?:the\s+)?month)\b/i;
+
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BE: 16, BG: 22, BH: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18,
+  EE: 20, ES: 24, FI: 18, FR: 27, GB: 22, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26, IT: 27,
+  LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25, QA: 29,
+  RO: 24, SA: 24, SE: 24, SI: 19, SK: 24, SM: 27, TR: 26
+};
+
+const compact = (value: string) => value.replace(/[\s-]+/g, '').toUpperCase();
+
+// "Net 30 days" from 2024-01-15 is 2024-02-14; undefined when either cannot be read
+export function dueDateFromTerms(invoiceDate: string | undefined, terms: string | undefined): string | undefined {
+  const date = invoiceDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!terms || !date) {
+    return undefined;
+  }
+
+  let days = 0;
+  let endOfMonth = false;
+  if (!IMMEDIATE.test(terms)) {
+    const match = terms.match(NET_DAYS);
+    if (!match) {
+      return undefined;
+    }
+    days = parseInt(match[1] ?? match[2], 10);
+    endOfMonth = END_OF_MONTH.test(terms);
+  }
+
+  const start = endOfMonth
+    ? Date.UTC(+date[1], +date[2], 0)
+    : Date.UTC(+date[1], +date[2] - 1, +date[3]);
+  return new Date(start + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+export function isValidIban(value: string): boolean {
+  const iban = compact(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength !== undefined && iban.length !== expectedLength) {
+    return false;
+  }
+
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+export function isValidIfsc(value: string): boolean {
+  return /^[A-Z]{4}0[A-Z0-9]{6}$/.test(compact(value));
+}
+
+export function isValidSwift(value: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/.test(compact(value));
+}
+
+export function isValidUpiId(value: string): boolean {
+  return /^[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}$/i.test(value.trim());
+}
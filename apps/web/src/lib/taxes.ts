@@ -0,0 +1,21 @@
+import type { TaxComponent, TaxType } from 'invoice-rules';
+
+// Tax arithmetic is shared with the API (TaxCalculator in invoice-rules); these are only for display
+
+export const TAX_TYPE_LABELS: Record<TaxType, string> = {
+  CGST: 'CGST',
+  SGST: 'SGST',
+  UTGST: 'UTGST',
+  IGST: 'IGST',
+  CESS: 'Cess',
+  GST: 'GST',
+  VAT: 'VAT',
+  SALES_TAX: 'Sales tax',
+  WITHHOLDING: 'Withholding',
+  OTHER: 'Tax'
+};
+
+// "CGST 9%", "VAT 20%", "Withholding"
+export function describeTax(tax: TaxComponent): string {
+  return `${TAX_TYPE_LABELS[tax.type] ?? tax.type}${Number.isFinite(tax.rate) ? ` ${tax.rate}%` : ''}`;
+}
@@ -0,0 +1,5 @@
+// Form inputs are NaN while empty, so NaN counts as a missing amount
+export const isAmount = (value: number | undefined): value is number =>
+  typeof value === 'number' && !Number.isNaN(value);
+
+export const round = (value: number): number => Math.round(value * 100) / 100;
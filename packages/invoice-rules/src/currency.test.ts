@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Currency } from './currency.js';
+
+describe('Currency.isValid', () => {
+  it('accepts ISO 4217 codes whatever their case', () => {
+    assert.equal(Currency.isValid('INR'), true);
+    assert.equal(Currency.isValid(' eur '), true);
+    assert.equal(Currency.isValid('HRK'), true);
+  });
+
+  it('rejects symbols, names and non-currency codes', () => {
+    assert.equal(Currency.isValid('$'), false);
+    assert.equal(Currency.isValid('Rupees'), false);
+    assert.equal(Currency.isValid('XAU'), false);
+  });
+});
+
+describe('Currency.parseAmountInWords', () => {
+  it('reads Indian numbering', () => {
+    assert.equal(Currency.parseAmountInWords('Rupees One Lakh Twenty Thousand Only'), 120000);
+    assert.equal(Currency.parseAmountInWords('INR Two Crore Five Lakhs Thirty Six Thousand Four Hundred Only'), 20536400);
+  });
+
+  it('reads international numbering', () => {
+    assert.equal(Currency.parseAmountInWords('One Hundred Twenty Thousand Dollars'), 120000);
+    assert.equal(Currency.parseAmountInWords('Three Million Four Hundred Five Thousand and Nine'), 3405009);
+  });
+
+  it('reads the minor unit in words', () => {
+    assert.equal(Currency.parseAmountInWords('Rupees One Thousand Four Hundred Seventy Five and Fifty Paise Only'), 1475.5);
+    assert.equal(Currency.parseAmountInWords('Twelve Dollars and Forty-Five Cents'), 12.45);
+  });
+
+  it('reads the minor unit as a fraction of 100', () => {
+    assert.equal(Currency.parseAmountInWords('Nine Hundred Ninety Nine and 50/100 Dollars'), 999.5);
+  });
+
+  it('reads an amount of only minor units', () => {
+    assert.equal(Currency.parseAmountInWords('Ninety Nine Cents'), 0.99);
+  });
+
+  it('is undefined without number words', () => {
+    assert.equal(Currency.parseAmountInWords('Rupees Only'), undefined);
+    assert.equal(Currency.parseAmountInWords('1,475.00'), undefined);
+    assert.equal(Currency.parseAmountInWords(''), undefined);
+  });
+});
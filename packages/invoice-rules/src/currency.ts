@@ -0,0 +1,84 @@
+/**
+ * Currency codes and amounts written in words. Every currency is stored as its ISO 4217 code.
+ */
+
+// Used when neither the invoice nor its vendor names a currency
+export const DEFAULT_CURRENCY = 'INR';
+
+// Active ISO 4217 codes, without precious metals, fund and testing codes, plus the lev and
+// kuna that older Bulgarian and Croatian invoices show
+const ISO_4217 = new Set((
+  'AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BRL BSD BTN BWP ' +
+  'BYN BZD CAD CDF CHF CLP CNY COP CRC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP ' +
+  'GEL GHS GIP GMD GNF GTQ GYD HKD HNL HRK HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR ' +
+  'KMF KPW KRW KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK ' +
+  'MXN MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR ' +
+  'SBD SCR SDG SEK SGD SHP SLE SLL SOS SRD SSP STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD ' +
+  'TZS UAH UGX USD UYU UZS VED VES VND VUV WST XAF XCD XCG XOF XPF YER ZAR ZMW ZWG ZWL'
+).split(' '));
+
+const UNITS = new Map(Object.entries({
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fourty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90
+}));
+const SCALES = new Map(Object.entries({
+  thousand: 1e3, lakh: 1e5, lakhs: 1e5, lac: 1e5, lacs: 1e5, million: 1e6, crore: 1e7, crores: 1e7, billion: 1e9
+}));
+const MINOR_UNITS = new Set(['paise', 'paisa', 'cent', 'cents', 'pence', 'penny', 'centimes', 'fils', 'halalas']);
+
+export class Currency {
+  static isValid(code: string): boolean {
+    return ISO_4217.has(code.trim().toUpperCase());
+  }
+
+  /**
+   * Reads an amount written in words, in Indian ("One Lakh Twenty Thousand") or international
+   * ("One Hundred Twenty Thousand") numbering, with its minor unit ("and Fifty Paise",
+   * "Forty Five Cents", "and 50/100"). Undefined when there are no number words.
+   */
+  static parseAmountInWords(phrase: string): number | undefined {
+    const fractionDigits = phrase.match(/(\d{1,2})\s*\/\s*100\b/);
+    const tokens = phrase.toLowerCase().replace(/\d+\s*\/\s*100\b/, ' ').split(/[^a-z]+/).filter(Boolean);
+
+    // The minor unit is the run of number words right before "paise", "cents", ...
+    const minorAt = tokens.findIndex(token => MINOR_UNITS.has(token));
+    let majorTokens = tokens;
+    let minor = fractionDigits ? parseInt(fractionDigits[1], 10) : 0;
+    if (minorAt >= 0) {
+      let start = minorAt;
+      while (start > 0 && (UNITS.has(tokens[start - 1]) || tokens[start - 1] === 'hundred')) {
+        start--;
+      }
+      minor = this.wordsToNumber(tokens.slice(start, minorAt)) ?? 0;
+      majorTokens = tokens.slice(0, start);
+    }
+
+    const major = this.wordsToNumber(majorTokens);
+    if (major === undefined && minorAt < 0) {
+      return undefined;
+    }
+    return Math.round(((major ?? 0) + minor / 100) * 100) / 100;
+  }
+
+  private static wordsToNumber(tokens: string[]): number | undefined {
+    let total = 0;
+    let current = 0;
+    let found = false;
+    for (const token of tokens) {
+      if (UNITS.has(token)) {
+        current += UNITS.get(token)!;
+      } else if (token === 'hundred') {
+        current = (current || 1) * 100;
+      } else if (SCALES.has(token)) {
+        total += (current || 1) * SCALES.get(token)!;
+        current = 0;
+      } else {
+        continue; // "and", currency names, "only"
+      }
+      found = true;
+    }
+    return found ? total + current : undefined;
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Invoice arithmetic shared by the API and the web form, so an invoice is checked the same
+ * way when it is extracted, while the reviewer edits it and when it is saved
+ */
+
+export { Currency, DEFAULT_CURRENCY } from './currency.js';
+export {
+  TAX_TYPES,
+  TaxCalculator,
+  type TaxType,
+  type TaxComponent,
+  type TaxableInvoice,
+  type TaxTotals,
+  type TaxReportRow
+} from './taxCalculator.js';
+export {
+  InvoiceValidator,
+  type ReconciliationCode,
+  type ReconciliationWarning,
+  type ReconcilableLineItem,
+  type ReconcilableInvoice
+} from './invoiceValidator.js';
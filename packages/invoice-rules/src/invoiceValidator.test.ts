@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvoiceValidator, type ReconcilableInvoice } from './invoiceValidator.js';
+
+// 2 × 500 + 1 × 250 = 1250, plus 18% GST split into CGST and SGST
+const invoice = (overrides: Partial<ReconcilableInvoice> = {}): ReconcilableInvoice => ({
+  subtotal: 1250,
+  taxes: [
+    { type: 'CGST', rate: 9, amount: 112.5 },
+    { type: 'SGST', rate: 9, amount: 112.5 }
+  ],
+  total: 1475,
+  lineItems: [
+    { unitPrice: 500, quantity: 2, total: 1000 },
+    { unitPrice: 250, quantity: 1, total: 250 }
+  ],
+  ...overrides
+});
+
+const codes = (target: ReconcilableInvoice) => InvoiceValidator.validate(target).map(warning => `${warning.code} ${warning.path}`);
+
+describe('InvoiceValidator.validate', () => {
+  it('accepts an invoice that adds up', () => {
+    assert.deepEqual(InvoiceValidator.validate(invoice()), []);
+  });
+
+  it('reports a line total that is not quantity × unit price', () => {
+    const [warning] = InvoiceValidator.validate(invoice({
+      subtotal: 1250,
+      lineItems: [{ unitPrice: 500, quantity: 2, total: 1100 }, { unitPrice: 250, quantity: 1, total: 150 }]
+    }));
+
+    assert.equal(warning.code, 'LINE_TOTAL_MISMATCH');
+    assert.equal(warning.path, 'invoice.lineItems.0.total');
+    assert.equal(warning.expected, 1000);
+    assert.equal(warning.actual, 1100);
+    assert.equal(warning.difference, 100);
+  });
+
+  it('takes discounts off the line amount', () => {
+    const lineItems = [
+      { unitPrice: 500, quantity: 2, discountPercent: 10, total: 900 },
+      { unitPrice: 250, quantity: 1, discountAmount: 50, total: 200 }
+    ];
+    assert.deepEqual(codes(invoice({ subtotal: 1100, taxes: [], total: 1100, lineItems })), []);
+  });
+
+  it('reports a subtotal that is not the sum of the line totals', () => {
+    assert.deepEqual(
+      codes(invoice({ subtotal: 1200, taxes: [{ type: 'GST', rate: 18 }], total: 1416 })),
+      ['SUBTOTAL_MISMATCH invoice.subtotal']
+    );
+  });
+
+  it('reconciles tax-inclusive line totals against the total', () => {
+    const lineItems = [{ unitPrice: 1000, quantity: 1, taxRate: 18, total: 1180 }];
+    assert.deepEqual(codes(invoice({ subtotal: 1000, taxes: [{ type: 'GST', rate: 18 }], total: 1180, lineItems })), []);
+    assert.deepEqual(
+      codes(invoice({ subtotal: 1000, taxes: [{ type: 'GST', rate: 18 }], total: 1300, lineItems })),
+      ['TOTAL_MISMATCH invoice.total']
+    );
+  });
+
+  it('reports a tax amount that does not match its rate and base', () => {
+    const taxes = [{ type: 'CGST' as const, rate: 9, amount: 120 }, { type: 'SGST' as const, rate: 9, amount: 112.5 }];
+    assert.deepEqual(codes(invoice({ taxes, total: 1482.5 })), ['TAX_AMOUNT_MISMATCH invoice.taxes.0.amount']);
+  });
+
+  it('deducts withholding from the total', () => {
+    const taxes = [{ type: 'GST' as const, rate: 18, amount: 225 }, { type: 'WITHHOLDING' as const, rate: 2, amount: 25 }];
+    assert.deepEqual(codes(invoice({ taxes, total: 1450 })), []);
+    assert.deepEqual(codes(invoice({ taxes, total: 1475 })), ['TOTAL_MISMATCH invoice.total']);
+  });
+
+  it('accepts a total rounded off to a whole unit', () => {
+    const taxes = [{ type: 'GST' as const, rate: 18, amount: 225.4 }];
+    assert.deepEqual(codes(invoice({ taxes, total: 1475 })), ['TAX_AMOUNT_MISMATCH invoice.taxes.0.amount']);
+    assert.deepEqual(codes(invoice({ taxes: [{ type: 'GST', rate: 18 }], total: 1475.4 })), ['TOTAL_MISMATCH invoice.total']);
+  });
+
+  it('checks the total against the amount in words, to the unit when it has no cents', () => {
+    assert.deepEqual(codes(invoice({ amountInWords: 'Rupees One Thousand Four Hundred Seventy Five Only' })), []);
+    assert.deepEqual(
+      codes(invoice({ amountInWords: 'Rupees One Thousand Four Hundred Only' })),
+      ['AMOUNT_IN_WORDS_MISMATCH invoice.total']
+    );
+  });
+
+  it('reports each field once', () => {
+    const warnings = InvoiceValidator.validate(invoice({ total: 2000, amountInWords: 'One Thousand Only' }));
+    assert.deepEqual(warnings.map(warning => warning.path), ['invoice.total']);
+  });
+
+  it('skips line items still being typed in, keeping the indexes of the others', () => {
+    const lineItems = [
+      { unitPrice: NaN, quantity: 1, total: NaN },
+      { unitPrice: 500, quantity: 2, total: 900 },
+      { unitPrice: 250, quantity: 1, total: 250 }
+    ];
+    assert.deepEqual(codes(invoice({ subtotal: 1150, taxes: [], total: 1150, lineItems })), ['LINE_TOTAL_MISMATCH invoice.lineItems.1.total']);
+  });
+
+  it('skips checks whose fields are missing', () => {
+    assert.deepEqual(InvoiceValidator.validate({ lineItems: [] }), []);
+    assert.deepEqual(codes(invoice({ subtotal: undefined, total: undefined })), []);
+  });
+});
@@ -0,0 +1,194 @@
+import { TaxCalculator, type TaxableInvoice } from './taxCalculator.js';
+import { Currency } from './currency.js';
+import { isAmount, round } from './amounts.js';
+
+export type ReconciliationCode =
+  | 'LINE_TOTAL_MISMATCH' | 'SUBTOTAL_MISMATCH' | 'TAX_AMOUNT_MISMATCH' | 'TOTAL_MISMATCH' | 'AMOUNT_IN_WORDS_MISMATCH';
+
+export interface ReconciliationWarning {
+  code: ReconciliationCode;
+  path: string;       // Field path the warning is about, e.g. "invoice.lineItems.0.total"
+  message: string;
+  expected: number;   // Value computed from the other fields
+  actual: number;     // Value on the invoice
+  difference: number; // actual - expected, rounded to cents
+}
+
+export interface ReconcilableLineItem {
+  unitPrice: number;
+  quantity: number;
+  discountPercent?: number;
+  discountAmount?: number;
+  taxRate?: number;
+  taxAmount?: number;
+  total: number;
+}
+
+// The subset of the invoice that is reconciled, shared by extraction results and saved invoices
+export interface ReconcilableInvoice extends TaxableInvoice {
+  total?: number;
+  amountInWords?: string;
+  lineItems?: ReconcilableLineItem[];
+}
+
+// Printed amounts are rounded to cents, so each one may be off by half a cent
+const CENT_TOLERANCE = 0.01;
+// Totals rounded to a whole unit ("Round off" lines) may differ by up to half a unit
+const ROUND_OFF_TOLERANCE = 0.5;
+
+export class InvoiceValidator {
+  /**
+   * Check that the invoice arithmetic adds up: quantity * unit price less discount = line total,
+   * line totals = subtotal, base * rate = amount for each tax, and subtotal plus charged tax
+   * less withholding = total. Fields that are missing are skipped. Line totals that already
+   * include their tax (the line's own tax, or else the invoice's charged rate) are accepted,
+   * and are then reconciled against the total instead of the subtotal. The total must also
+   * match the amount in words, to the unit when the words leave out the cents. Line items
+   * still missing their unit price, quantity or total (rows being typed in) are left out.
+   */
+  static validate(invoice: ReconcilableInvoice): ReconciliationWarning[] {
+    const warnings: ReconciliationWarning[] = [];
+    // Skipped rows keep the indexes of the others
+    const lineItems = invoice.lineItems || [];
+    const filledItems = lineItems.filter(item => isAmount(item.unitPrice) && isAmount(item.quantity) && isAmount(item.total));
+    const taxes = TaxCalculator.totals(invoice);
+    const taxRate = (taxes.rate || 0) / 100;
+    let taxInclusiveLines = filledItems.length > 0;
+
+    lineItems.forEach((item, index) => {
+      if (!filledItems.includes(item)) {
+        return;
+      }
+
+      const net = this.lineNet(item);
+      // Unit prices are rounded too, and that error grows with the quantity
+      const tolerance = CENT_TOLERANCE + Math.abs(item.quantity) * CENT_TOLERANCE / 2;
+
+      const lineTaxRate = isAmount(item.taxRate) ? item.taxRate / 100 : taxRate;
+      const lineTax = isAmount(item.taxAmount) ? item.taxAmount : net * lineTaxRate;
+      const matchesNet = this.within(item.total, net, tolerance);
+      const matchesGross = lineTax > 0 && this.within(item.total, net + lineTax, tolerance * (1 + lineTaxRate));
+      taxInclusiveLines = taxInclusiveLines && matchesGross && !matchesNet;
+
+      if (!matchesNet && !matchesGross) {
+        const discounted = net !== item.quantity * item.unitPrice ? ' less discount' : '';
+        warnings.push(this.warning(
+          'LINE_TOTAL_MISMATCH',
+          `invoice.lineItems.${index}.total`,
+          `Line ${index + 1}: quantity × unit price${discounted} is ${this.format(net)}, but the line total is ${this.format(item.total)}`,
+          net,
+          item.total
+        ));
+      }
+    });
+
+    const linesSum = filledItems.reduce((sum, item) => sum + item.total, 0);
+    const linesTolerance = CENT_TOLERANCE * Math.max(1, filledItems.length);
+
+    if (filledItems.length > 0 && taxInclusiveLines && isAmount(invoice.total)) {
+      if (!this.withinTotal(invoice.total, linesSum, linesTolerance)) {
+        warnings.push(this.warning(
+          'TOTAL_MISMATCH',
+          'invoice.total',
+          `Tax-inclusive line totals add up to ${this.format(linesSum)}, but the total is ${this.format(invoice.total)}`,
+          linesSum,
+          invoice.total
+        ));
+      }
+    } else if (filledItems.length > 0 && isAmount(invoice.subtotal) && !this.within(invoice.subtotal, linesSum, linesTolerance)) {
+      warnings.push(this.warning(
+        'SUBTOTAL_MISMATCH',
+        'invoice.subtotal',
+        `Line totals add up to ${this.format(linesSum)}, but the subtotal is ${this.format(invoice.subtotal)}`,
+        linesSum,
+        invoice.subtotal
+      ));
+    }
+
+    (invoice.taxes || []).forEach((tax, index) => {
+      const base = TaxCalculator.taxableAmount(tax, invoice.subtotal);
+      if (!isAmount(tax.rate) || !isAmount(tax.amount) || base === undefined) {
+        return;
+      }
+      const expected = base * tax.rate / 100;
+      if (!this.within(tax.amount, expected, CENT_TOLERANCE)) {
+        warnings.push(this.warning(
+          'TAX_AMOUNT_MISMATCH',
+          `invoice.taxes.${index}.amount`,
+          `${tax.type} at ${tax.rate}% of ${this.format(base)} is ${this.format(expected)}, but the tax amount is ${this.format(tax.amount)}`,
+          expected,
+          tax.amount
+        ));
+      }
+    });
+
+    const expectedTotal = TaxCalculator.expectedTotal(invoice);
+    const taxed = TaxCalculator.components(invoice).length > 0;
+    if (taxed && expectedTotal !== undefined && isAmount(invoice.total)) {
+      if (!this.withinTotal(invoice.total, expectedTotal, CENT_TOLERANCE * 2)) {
+        const withheld = taxes.withheld > 0 ? ` less ${this.format(taxes.withheld)} withheld` : '';
+        warnings.push(this.warning(
+          'TOTAL_MISMATCH',
+          'invoice.total',
+          `Subtotal plus ${this.format(taxes.charged)} tax${withheld} is ${this.format(expectedTotal)}, but the total is ${this.format(invoice.total)}`,
+          expectedTotal,
+          invoice.total
+        ));
+      }
+    }
+
+    const inWords = invoice.amountInWords ? Currency.parseAmountInWords(invoice.amountInWords) : undefined;
+    if (inWords !== undefined && isAmount(invoice.total)) {
+      const tolerance = Number.isInteger(inWords) ? 1 - CENT_TOLERANCE : CENT_TOLERANCE;
+      if (!this.within(invoice.total, inWords, tolerance)) {
+        warnings.push(this.warning(
+          'AMOUNT_IN_WORDS_MISMATCH',
+          'invoice.total',
+          `The amount in words is ${this.format(inWords)}, but the total is ${this.format(invoice.total)}`,
+          inWords,
+          invoice.total
+        ));
+      }
+    }
+
+    // Several total checks can fail for the same field; report it once
+    return warnings.filter((warning, index) =>
+      warnings.findIndex(other => other.path === warning.path) === index
+    );
+  }
+
+  /**
+   * Line amount before tax: quantity × unit price, less a discount amount or percentage
+   */
+  private static lineNet(item: ReconcilableLineItem): number {
+    const gross = item.quantity * item.unitPrice;
+    const discount = isAmount(item.discountAmount)
+      ? item.discountAmount
+      : (isAmount(item.discountPercent) ? gross * item.discountPercent / 100 : 0);
+    return gross - discount;
+  }
+
+  private static within(actual: number, expected: number, tolerance: number): boolean {
+    return Math.abs(actual - expected) <= tolerance + Number.EPSILON;
+  }
+
+  // Whole-unit totals may have been rounded off from the computed amount
+  private static withinTotal(actual: number, expected: number, tolerance: number): boolean {
+    return this.within(actual, expected, Number.isInteger(actual) ? Math.max(tolerance, ROUND_OFF_TOLERANCE) : tolerance);
+  }
+
+  private static warning(code: ReconciliationCode, path: string, message: string, expected: number, actual: number): ReconciliationWarning {
+    return {
+      code,
+      path,
+      message,
+      expected: round(expected),
+      actual: round(actual),
+      difference: round(actual - expected)
+    };
+  }
+
+  private static format(value: number): string {
+    return round(value).toFixed(2);
+  }
+}
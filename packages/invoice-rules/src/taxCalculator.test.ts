@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaxCalculator } from './taxCalculator.js';
+
+describe('TaxCalculator.normalizeType', () => {
+  it('keeps known types whatever their case and spacing', () => {
+    assert.equal(TaxCalculator.normalizeType('cgst'), 'CGST');
+    assert.equal(TaxCalculator.normalizeType(' Sales Tax '), 'SALES_TAX');
+    assert.equal(TaxCalculator.normalizeType('sales-tax'), 'SALES_TAX');
+  });
+
+  it('maps the names printed on invoices to their type', () => {
+    assert.equal(TaxCalculator.normalizeType('TDS'), 'WITHHOLDING');
+    assert.equal(TaxCalculator.normalizeType('Tax Deducted at Source'), 'WITHHOLDING');
+    assert.equal(TaxCalculator.normalizeType('MwSt'), 'VAT');
+    assert.equal(TaxCalculator.normalizeType('Compensation Cess'), 'CESS');
+  });
+
+  it('falls back to OTHER', () => {
+    assert.equal(TaxCalculator.normalizeType('Luxury levy'), 'OTHER');
+  });
+});
+
+describe('TaxCalculator.components', () => {
+  it('reads a combined rate as one component', () => {
+    assert.deepEqual(TaxCalculator.components({ subtotal: 100, taxPercent: 18 }), [{ type: 'OTHER', rate: 18 }]);
+  });
+
+  it('prefers the itemised taxes over the combined rate', () => {
+    const taxes = [{ type: 'VAT' as const, rate: 20 }];
+    assert.deepEqual(TaxCalculator.components({ subtotal: 100, taxPercent: 18, taxes }), taxes);
+  });
+
+  it('has none without a rate', () => {
+    assert.deepEqual(TaxCalculator.components({ subtotal: 100 }), []);
+    assert.deepEqual(TaxCalculator.components({ subtotal: 100, taxPercent: NaN }), []);
+  });
+});
+
+describe('TaxCalculator.amount', () => {
+  it('uses the printed amount', () => {
+    assert.equal(TaxCalculator.amount({ type: 'VAT', rate: 20, amount: 19.99 }, 100), 19.99);
+  });
+
+  it('applies the rate to its own base, else to the subtotal', () => {
+    assert.equal(TaxCalculator.amount({ type: 'VAT', rate: 7, taxableAmount: 50 }, 100), 3.5);
+    assert.equal(TaxCalculator.amount({ type: 'VAT', rate: 7 }, 100.15), 7.01);
+  });
+
+  it('is zero when there is nothing to apply the rate to', () => {
+    assert.equal(TaxCalculator.amount({ type: 'VAT', rate: 7 }), 0);
+    assert.equal(TaxCalculator.amount({ type: 'VAT' }, 100), 0);
+  });
+});
+
+describe('TaxCalculator.totals', () => {
+  it('adds CGST and SGST into the charged tax', () => {
+    const totals = TaxCalculator.totals({
+      subtotal: 1000,
+      taxes: [{ type: 'CGST', rate: 9 }, { type: 'SGST', rate: 9 }]
+    });
+
+    assert.deepEqual(totals, { charged: 180, withheld: 0, selfAssessed: 0, rate: 18 });
+  });
+
+  it('keeps withholding apart from the charged tax', () => {
+    const totals = TaxCalculator.totals({
+      subtotal: 1000,
+      taxes: [{ type: 'IGST', rate: 18 }, { type: 'WITHHOLDING', rate: 10 }]
+    });
+
+    assert.deepEqual(totals, { charged: 180, withheld: 100, selfAssessed: 0, rate: 18 });
+  });
+
+  it('charges nothing under reverse charge', () => {
+    const totals = TaxCalculator.totals({ subtotal: 1000, taxes: [{ type: 'VAT', rate: 19 }], reverseCharge: true });
+
+    assert.deepEqual(totals, { charged: 0, withheld: 0, selfAssessed: 190, rate: 0 });
+  });
+
+  it('has no rate without a subtotal', () => {
+    const totals = TaxCalculator.totals({ taxes: [{ type: 'VAT', amount: 20 }] });
+
+    assert.equal(totals.charged, 20);
+    assert.equal(totals.rate, undefined);
+  });
+});
+
+describe('TaxCalculator.expectedTotal', () => {
+  it('adds the charged tax and takes off withholding', () => {
+    assert.equal(TaxCalculator.expectedTotal({
+      subtotal: 1000,
+      taxes: [{ type: 'CGST', rate: 9 }, { type: 'SGST', rate: 9 }, { type: 'WITHHOLDING', rate: 2 }]
+    }), 1160);
+  });
+
+  it('leaves reverse-charge tax out of the amount due', () => {
+    assert.equal(TaxCalculator.expectedTotal({ subtotal: 1000, taxes: [{ type: 'VAT', rate: 19 }], reverseCharge: true }), 1000);
+  });
+
+  it('is undefined without a subtotal', () => {
+    assert.equal(TaxCalculator.expectedTotal({ taxes: [{ type: 'VAT', amount: 20 }] }), undefined);
+  });
+});
+
+describe('TaxCalculator.report', () => {
+  it('groups by currency, type and rate, counting each invoice once', () => {
+    const rows = TaxCalculator.report([
+      { currency: 'EUR', subtotal: 100, taxes: [{ type: 'VAT', rate: 20, taxableAmount: 60 }, { type: 'VAT', rate: 20, taxableAmount: 40 }] },
+      { currency: 'EUR', subtotal: 50, taxes: [{ type: 'VAT', rate: 20 }] },
+      { currency: 'EUR', subtotal: 200, taxes: [{ type: 'VAT', rate: 10 }] }
+    ]);
+
+    assert.deepEqual(rows, [
+      { currency: 'EUR', type: 'VAT', rate: 10, reverseCharge: false, invoices: 1, taxableAmount: 200, amount: 20 },
+      { currency: 'EUR', type: 'VAT', rate: 20, reverseCharge: false, invoices: 2, taxableAmount: 150, amount: 30 }
+    ]);
+  });
+
+  it('keeps reverse-charge tax and other currencies in their own rows', () => {
+    const rows = TaxCalculator.report([
+      { subtotal: 1000, taxes: [{ type: 'IGST', rate: 18 }] },
+      { currency: 'EUR', subtotal: 100, taxes: [{ type: 'VAT', rate: 19 }] },
+      { currency: 'EUR', subtotal: 100, taxes: [{ type: 'VAT', rate: 19 }], reverseCharge: true }
+    ]);
+
+    assert.deepEqual(rows.map(row => [row.currency, row.type, row.reverseCharge, row.amount]), [
+      ['EUR', 'VAT', false, 19],
+      ['EUR', 'VAT', true, 19],
+      ['INR', 'IGST', false, 180]
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { DEFAULT_CURRENCY } from './currency.js';
+import { isAmount, round } from './amounts.js';
+
+export const TAX_TYPES = ['CGST', 'SGST', 'UTGST', 'IGST', 'CESS', 'GST', 'VAT', 'SALES_TAX', 'WITHHOLDING', 'OTHER'] as const;
+
+export type TaxType = typeof TAX_TYPES[number];
+
+// One tax line of an invoice, e.g. "CGST @ 9% on 1,000.00: 90.00"
+export interface TaxComponent {
+  type: TaxType;
+  rate?: number;          // Percent, e.g. 9 (not 0.09)
+  taxableAmount?: number; // Base the rate applies to; the subtotal when omitted
+  amount?: number;        // As printed; computed from the rate and base when omitted
+}
+
+// The tax fields of an invoice, shared by extraction results and saved invoices
+export interface TaxableInvoice {
+  currency?: string;
+  subtotal?: number;
+  taxPercent?: number;     // Combined rate, kept for invoices saved before taxes were itemised
+  taxes?: TaxComponent[];
+  reverseCharge?: boolean; // The buyer accounts for the tax; it is not part of the amount due
+}
+
+export interface TaxTotals {
+  charged: number;      // Tax the vendor collects, added to the total
+  withheld: number;     // Withholding the buyer deducts from the amount payable
+  selfAssessed: number; // Reverse-charge tax, accounted for by the buyer
+  rate?: number;        // Charged tax as a percentage of the subtotal
+}
+
+// One row of a tax report: every component of one type and rate, in one currency
+export interface TaxReportRow {
+  currency: string;
+  type: TaxType;
+  rate?: number;
+  reverseCharge: boolean;
+  invoices: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+// Names used on invoices for the same kind of tax
+const TYPE_ALIASES: Record<string, TaxType> = {
+  TDS: 'WITHHOLDING',
+  WHT: 'WITHHOLDING',
+  WITHHOLDING_TAX: 'WITHHOLDING',
+  TAX_DEDUCTED_AT_SOURCE: 'WITHHOLDING',
+  SALES: 'SALES_TAX',
+  COMPENSATION_CESS: 'CESS',
+  MWST: 'VAT',
+  TVA: 'VAT',
+  IVA: 'VAT',
+  UST: 'VAT'
+};
+
+/**
+ * Invoice tax arithmetic from the itemised taxes: CGST+SGST or IGST on Indian invoices,
+ * one or more VAT rates, withholding and reverse charge.
+ */
+export class TaxCalculator {
+  /**
+   * Map a tax name as printed or returned by a model ("cgst", "TDS", "Sales Tax") to a type
+   */
+  static normalizeType(value: string): TaxType {
+    const key = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+    if ((TAX_TYPES as readonly string[]).includes(key)) {
+      return key as TaxType;
+    }
+    return TYPE_ALIASES[key] ?? 'OTHER';
+  }
+
+  /**
+   * The invoice's tax components. Invoices saved with only a combined rate are read as
+   * one component at that rate.
+   */
+  static components(invoice: TaxableInvoice): TaxComponent[] {
+    if (invoice.taxes && invoice.taxes.length > 0) {
+      return invoice.taxes;
+    }
+    return isAmount(invoice.taxPercent) ? [{ type: 'OTHER', rate: invoice.taxPercent }] : [];
+  }
+
+  // Base a component's rate applies to
+  static taxableAmount(component: TaxComponent, subtotal?: number): number | undefined {
+    return isAmount(component.taxableAmount) ? component.taxableAmount : (isAmount(subtotal) ? subtotal : undefined);
+  }
+
+  // Printed amount, or the rate applied to the base
+  static amount(component: TaxComponent, subtotal?: number): number {
+    if (isAmount(component.amount)) {
+      return component.amount;
+    }
+    const base = this.taxableAmount(component, subtotal);
+    return base !== undefined && isAmount(component.rate) ? round(base * component.rate / 100) : 0;
+  }
+
+  static totals(invoice: TaxableInvoice): TaxTotals {
+    const totals: TaxTotals = { charged: 0, withheld: 0, selfAssessed: 0 };
+
+    for (const component of this.components(invoice)) {
+      const amount = this.amount(component, invoice.subtotal);
+      if (component.type === 'WITHHOLDING') {
+        totals.withheld += amount;
+      } else if (invoice.reverseCharge) {
+        totals.selfAssessed += amount;
+      } else {
+        totals.charged += amount;
+      }
+    }
+
+    totals.charged = round(totals.charged);
+    totals.withheld = round(totals.withheld);
+    totals.selfAssessed = round(totals.selfAssessed);
+    if (isAmount(invoice.subtotal) && invoice.subtotal !== 0) {
+      totals.rate = round(totals.charged / invoice.subtotal * 100);
+    }
+    return totals;
+  }
+
+  /**
+   * Amount due: subtotal plus charged tax, less withholding. Undefined without a subtotal.
+   */
+  static expectedTotal(invoice: TaxableInvoice): number | undefined {
+    if (!isAmount(invoice.subtotal)) {
+      return undefined;
+    }
+    const { charged, withheld } = this.totals(invoice);
+    return round(invoice.subtotal + charged - withheld);
+  }
+
+  /**
+   * Tax per currency, type and rate across invoices, for filing and reconciliation
+   */
+  static report(invoices: TaxableInvoice[]): TaxReportRow[] {
+    const rows = new Map<string, TaxReportRow>();
+
+    for (const invoice of invoices) {
+      const currency = invoice.currency || DEFAULT_CURRENCY;
+      const reverseCharge = Boolean(invoice.reverseCharge);
+      const counted = new Set<string>();
+
+      for (const component of this.components(invoice)) {
+        const key = [currency, component.type, component.rate ?? '', reverseCharge].join('|');
+        const row = rows.get(key) ?? {
+          currency,
+          type: component.type,
+          rate: component.rate,
+          reverseCharge,
+          invoices: 0,
+          taxableAmount: 0,
+          amount: 0
+        };
+
+        // An invoice may list the same tax twice (e.g. two VAT lines at one rate)
+        if (!counted.has(key)) {
+          row.invoices++;
+          counted.add(key);
+        }
+        row.taxableAmount = round(row.taxableAmount + (this.taxableAmount(component, invoice.subtotal) ?? 0));
+        row.amount = round(row.amount + this.amount(component, invoice.subtotal));
+        rows.set(key, row);
+      }
+    }
+
+    return [...rows.values()].sort((a, b) =>
+      a.currency.localeCompare(b.currency) || a.type.localeCompare(b.type) || (a.rate ?? 0) - (b.rate ?? 0)
+    );
+  }
+}